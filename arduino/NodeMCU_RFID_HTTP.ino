@@ -2,6 +2,8 @@
 #include <ESP8266HTTPClient.h>
 #include <WiFiClientSecure.h>
 #include <ArduinoJson.h>
+#include <time.h>
+#include <bearssl/bearssl_hmac.h>
 #include <SPI.h>
 #include <MFRC522.h>
 
@@ -11,9 +13,11 @@ const char *password = "YOUR_WIFI_PASSWORD";
 
 // Server details - Now using the hosted server
 const char *serverHost = "smart-cart-test.onrender.com";
-// Simplify path to avoid any routing issues
-const char *serverPath = "/api/cart/rfid-scan";
+// Scans are queued and sent in batches so none are lost while the server is down
+const char *serverPath = "/api/cart/device/scan-batch";
 const char *deviceId = "cart_001"; // Unique ID for this cart
+const char *deviceSecret = "YOUR_DEVICE_SECRET"; // Issued when the device is registered
+const char *firmwareVersion = "1.1.0";             // Shown on the admin devices page
 
 // RFID pins
 #define SS_PIN D8
@@ -23,15 +27,37 @@ const char *deviceId = "cart_001"; // Unique ID for this cart
 #define GREEN_LED_PIN D3
 #define RED_LED_PIN D4
 
+// Battery voltage is read on A0 through a divider
+#define BATTERY_PIN A0
+const float batteryFullScaleVolts = 4.2; // Battery voltage that reads 1023
+
+// Heartbeat
+const unsigned long heartbeatInterval = 30000; // 30 seconds
+unsigned long lastHeartbeatTime = 0;
+
 // RFID
 MFRC522 rfid(SS_PIN, RST_PIN);
 String lastReadRFID = "";
 unsigned long lastRFIDReadTime = 0;
 const int rfidCooldown = 2000; // 2 seconds cooldown between reads
 
-// Retry parameters
-const int maxRetries = 3;
-const int retryDelay = 2000; // 2 seconds between retries
+// Offline scan queue. Every scan gets a sequence number the server uses to
+// ignore scans it has already applied, so a batch can be resent safely. The
+// sequence starts at the Unix time of boot, which keeps it ahead of the
+// numbers used before a restart.
+#define MAX_PENDING_SCANS 50
+struct PendingScan
+{
+  unsigned long sequence;
+  unsigned long timestamp;
+  String rfidTag;
+  String action;
+};
+PendingScan pendingScans[MAX_PENDING_SCANS];
+int pendingScanCount = 0;
+unsigned long nextScanSequence = 0;
+const unsigned long flushRetryInterval = 10000; // 10 seconds
+unsigned long lastFlushAttemptTime = 0;
 
 void setup()
 {
@@ -62,6 +88,8 @@ void setup()
 
   // Connect to WiFi
   connectToWiFi();
+  syncClock();
+  nextScanSequence = (unsigned long)time(nullptr);
 
   // Test connection to server
   testServerConnection();
@@ -92,8 +120,9 @@ void loop()
       // Process the scan (always add items)
       String action = "add";
 
-      // Send RFID data to server
-      sendRFIDData(rfidTag, action);
+      // Queue the scan and try to send it straight away
+      queueScan(rfidTag, action);
+      flushPendingScans();
 
       // Save last read RFID
       lastReadRFID = rfidTag;
@@ -104,13 +133,17 @@ void loop()
     rfid.PCD_StopCrypto1();
   }
 
-  // Send a test scan every 30 seconds for debugging
-  static unsigned long lastTestTime = 0;
-  if (millis() - lastTestTime > 30000)
-  { // Every 30 seconds
-    lastTestTime = millis();
-    Serial.println("\n----- SENDING TEST SCAN -----");
-    sendRFIDData("TEST_TAG", "add");
+  // Keep retrying scans the server has not acknowledged yet
+  if (pendingScanCount > 0 && millis() - lastFlushAttemptTime > flushRetryInterval)
+  {
+    flushPendingScans();
+  }
+
+  // Report health to the server so it knows the cart is alive
+  if (lastHeartbeatTime == 0 || millis() - lastHeartbeatTime > heartbeatInterval)
+  {
+    lastHeartbeatTime = millis();
+    sendHeartbeat();
   }
 
   delay(100);
@@ -255,146 +288,203 @@ String readRFIDTag()
   return tag;
 }
 
-void sendRFIDData(String rfidTag, String action)
+void queueScan(String rfidTag, String action)
 {
-  Serial.println("\n----- SENDING RFID DATA -----");
-
-  if (WiFi.status() != WL_CONNECTED)
-  {
-    Serial.println("Error: Not connected to WiFi");
-    return;
-  }
-
-  // Implement retry mechanism
-  bool success = false;
-  int retryCount = 0;
-
-  while (!success && retryCount < maxRetries)
+  if (pendingScanCount == MAX_PENDING_SCANS)
   {
-    if (retryCount > 0)
+    // Drop the oldest scan rather than the newest
+    Serial.println("Scan queue full, dropping oldest scan");
+    for (int i = 1; i < MAX_PENDING_SCANS; i++)
     {
-      Serial.print("Retry attempt ");
-      Serial.print(retryCount);
-      Serial.print(" of ");
-      Serial.println(maxRetries);
-      delay(retryDelay);
+      pendingScans[i - 1] = pendingScans[i];
     }
-
-    // Try to send data
-    success = attemptSendRFIDData(rfidTag, action);
-    retryCount++;
+    pendingScanCount--;
   }
 
-  if (!success)
-  {
-    Serial.println("Failed to send RFID data after multiple attempts");
-    blinkLED(RED_LED_PIN, 5);
-  }
+  PendingScan &scan = pendingScans[pendingScanCount++];
+  scan.sequence = nextScanSequence++;
+  scan.timestamp = (unsigned long)time(nullptr);
+  scan.rfidTag = rfidTag;
+  scan.action = action;
+
+  Serial.print("Queued scan #");
+  Serial.print(scan.sequence);
+  Serial.print(" (");
+  Serial.print(pendingScanCount);
+  Serial.println(" pending)");
 }
 
-bool attemptSendRFIDData(String rfidTag, String action)
+// Send every queued scan in one request. Scans stay queued until the server
+// answers, including when it is cold-starting and returns 502.
+void flushPendingScans()
 {
+  lastFlushAttemptTime = millis();
+
+  if (pendingScanCount == 0 || WiFi.status() != WL_CONNECTED)
+  {
+    return;
+  }
+
+  Serial.println("\n----- SENDING QUEUED SCANS -----");
+
   // Use secure client for HTTPS
   WiFiClientSecure client;
   client.setInsecure(); // Skip certificate verification
   HTTPClient https;
 
-  Serial.print("Connecting to server: https://");
-  Serial.println(serverHost);
-
   // Full URL for the request
   String url = "https://" + String(serverHost) + String(serverPath);
   Serial.print("URL: ");
   Serial.println(url);
 
-  // Start connection
   https.begin(client, url);
   https.addHeader("Content-Type", "application/json");
-  https.setTimeout(15000); // Increase timeout to 15 seconds
+  https.setTimeout(15000); // Render can take a while to wake up
 
   // Create JSON payload
-  DynamicJsonDocument doc(200);
-  doc["rfidTag"] = rfidTag;
-  doc["action"] = action;
-  doc["deviceId"] = deviceId;
+  DynamicJsonDocument doc(256 + pendingScanCount * 128);
+  JsonArray scans = doc.createNestedArray("scans");
+  for (int i = 0; i < pendingScanCount; i++)
+  {
+    JsonObject scan = scans.createNestedObject();
+    scan["sequence"] = pendingScans[i].sequence;
+    scan["timestamp"] = pendingScans[i].timestamp;
+    scan["rfidTag"] = pendingScans[i].rfidTag;
+    scan["action"] = pendingScans[i].action;
+  }
 
   String jsonPayload;
   serializeJson(doc, jsonPayload);
 
+  // Sign the exact request that is sent
+  String timestamp = currentTimestamp();
+  String nonce = newNonce();
+  https.addHeader("X-Device-Id", deviceId);
+  https.addHeader("X-Device-Timestamp", timestamp);
+  https.addHeader("X-Device-Nonce", nonce);
+  https.addHeader("X-Device-Signature", signRequest("POST", serverPath, timestamp, nonce, jsonPayload));
+
   Serial.print("JSON payload: ");
   Serial.println(jsonPayload);
 
-  // Send HTTP POST request
-  Serial.println("Sending POST request...");
   int httpResponseCode = https.POST(jsonPayload);
-
   Serial.print("HTTP Response code: ");
   Serial.println(httpResponseCode);
 
-  // Check if got a 502 Bad Gateway error
-  if (httpResponseCode == 502)
+  if (httpResponseCode != 200)
   {
-    Serial.println("Server returned 502 Bad Gateway.");
-    Serial.println("The server might be starting up. Waiting before retry.");
-    https.end();
+    if (httpResponseCode == 502)
+    {
+      Serial.println("Server returned 502 Bad Gateway. It might be starting up.");
+    }
+    else if (httpResponseCode < 0)
+    {
+      Serial.print("Error on sending POST: ");
+      Serial.println(https.errorToString(httpResponseCode));
+    }
+    else
+    {
+      Serial.println(https.getString());
+    }
+
+    // A 400 means the batch itself is malformed and will never be accepted
+    if (httpResponseCode == 400)
+    {
+      pendingScanCount = 0;
+    }
+
+    Serial.println("Scans kept for the next attempt");
     blinkLED(RED_LED_PIN, 2);
-    return false;
+    https.end();
+    return;
   }
 
-  if (httpResponseCode > 0)
-  {
-    String response = https.getString();
-    Serial.print("Response: ");
-    Serial.println(response);
+  String response = https.getString();
+  https.end();
 
-    // Parse response
-    DynamicJsonDocument responseDoc(1024);
-    DeserializationError error = deserializeJson(responseDoc, response);
+  Serial.print("Response: ");
+  Serial.println(response);
 
-    if (!error)
-    {
-      bool success = responseDoc["success"];
-      if (success)
-      {
-        // Product successfully added to cart
-        Serial.println("Product successfully added to cart!");
-        blinkLED(GREEN_LED_PIN, 3);
-        https.end();
-        return true;
-      }
-      else
-      {
-        // Failed to add product
-        Serial.println("Failed to add product to cart");
-        Serial.print("Error message: ");
-        if (responseDoc.containsKey("message"))
-        {
-          Serial.println(responseDoc["message"].as<String>());
-        }
-        blinkLED(RED_LED_PIN, 3);
-        https.end();
-        return false;
-      }
-    }
-    else
+  // The server has recorded every scan in the batch, so the queue can be
+  // emptied even if the response cannot be read
+  int sentCount = pendingScanCount;
+  pendingScanCount = 0;
+
+  DynamicJsonDocument responseDoc(1024 + sentCount * 160);
+  DeserializationError error = deserializeJson(responseDoc, response);
+
+  if (error)
+  {
+    Serial.print("JSON parsing error: ");
+    Serial.println(error.c_str());
+    return;
+  }
+
+  int failed = 0;
+  for (JsonObject result : responseDoc["results"].as<JsonArray>())
+  {
+    if (!result["success"])
     {
-      Serial.print("JSON parsing error: ");
-      Serial.println(error.c_str());
-      blinkLED(RED_LED_PIN, 2);
-      https.end();
-      return false;
+      failed++;
+      Serial.print("Scan #");
+      Serial.print(result["sequence"].as<unsigned long>());
+      Serial.print(" failed: ");
+      Serial.println(result["message"].as<String>());
     }
   }
+
+  if (failed == 0)
+  {
+    Serial.println("All queued scans added to cart!");
+    blinkLED(GREEN_LED_PIN, 3);
+  }
   else
   {
-    Serial.print("Error on sending POST: ");
-    Serial.println(https.errorToString(httpResponseCode));
     blinkLED(RED_LED_PIN, 3);
-    https.end();
-    return false;
   }
 }
 
+float readBatteryVoltage()
+{
+  return analogRead(BATTERY_PIN) / 1023.0 * batteryFullScaleVolts;
+}
+
+void sendHeartbeat()
+{
+  WiFiClientSecure client;
+  client.setInsecure(); // Skip certificate verification
+  HTTPClient https;
+
+  String path = "/api/devices/" + String(deviceId) + "/heartbeat";
+  String url = "https://" + String(serverHost) + path;
+  https.begin(client, url);
+  https.addHeader("Content-Type", "application/json");
+  https.setTimeout(15000);
+
+  DynamicJsonDocument doc(256);
+  doc["uptime"] = millis() / 1000;
+  doc["rssi"] = WiFi.RSSI();
+  doc["batteryVoltage"] = readBatteryVoltage();
+  doc["freeHeap"] = ESP.getFreeHeap();
+  doc["firmwareVersion"] = firmwareVersion;
+
+  String jsonPayload;
+  serializeJson(doc, jsonPayload);
+
+  String timestamp = currentTimestamp();
+  String nonce = newNonce();
+  https.addHeader("X-Device-Id", deviceId);
+  https.addHeader("X-Device-Timestamp", timestamp);
+  https.addHeader("X-Device-Nonce", nonce);
+  https.addHeader("X-Device-Signature", signRequest("POST", path, timestamp, nonce, jsonPayload));
+
+  int httpResponseCode = https.POST(jsonPayload);
+  Serial.print("Heartbeat response code: ");
+  Serial.println(httpResponseCode);
+
+  https.end();
+}
+
 void blinkLED(int pin, int times)
 {
   for (int i = 0; i < times; i++)
@@ -404,4 +494,53 @@ void blinkLED(int pin, int times)
     digitalWrite(pin, LOW);
     delay(200);
   }
-}
\ No newline at end of file
+}
+
+// Sign "<METHOD>\n<path>\n<timestamp>\n<nonce>\n<payload>" with the device
+// secret (HMAC-SHA256, hex)
+String signRequest(const String &method, const String &path, const String &timestamp, const String &nonce, const String &payload)
+{
+  br_hmac_key_context keyContext;
+  br_hmac_context hmacContext;
+  uint8_t digest[32];
+  String message = method + "\n" + path + "\n" + timestamp + "\n" + nonce + "\n" + payload;
+
+  br_hmac_key_init(&keyContext, &br_sha256_vtable, deviceSecret, strlen(deviceSecret));
+  br_hmac_init(&hmacContext, &keyContext, 0);
+  br_hmac_update(&hmacContext, message.c_str(), message.length());
+  br_hmac_out(&hmacContext, digest);
+
+  String signature = "";
+  for (int i = 0; i < 32; i++)
+  {
+    signature += (digest[i] < 0x10 ? "0" : "");
+    signature += String(digest[i], HEX);
+  }
+  return signature;
+}
+
+// A random value for each signed request; the server accepts each one once
+String newNonce()
+{
+  char nonce[17];
+  snprintf(nonce, sizeof(nonce), "%08x%08x", ESP.random(), ESP.random());
+  return String(nonce);
+}
+
+// Signed requests carry a Unix timestamp, so the clock must be set via NTP
+void syncClock()
+{
+  Serial.print("Syncing clock with NTP");
+  configTime(0, 0, "pool.ntp.org", "time.nist.gov");
+  while (time(nullptr) < 1600000000)
+  {
+    delay(500);
+    Serial.print(".");
+  }
+  Serial.println(" done");
+}
+
+String currentTimestamp()
+{
+  return String((unsigned long)time(nullptr));
+}
@@ -2,6 +2,8 @@
 #include <ESP8266HTTPClient.h>
 #include <WebSocketsClient.h>
 #include <ArduinoJson.h>
+#include <time.h>
+#include <bearssl/bearssl_hmac.h>
 #include <SPI.h>
 #include <MFRC522.h>
 #include <LiquidCrystal_I2C.h>
@@ -17,6 +19,8 @@ const char *websocketPath = "/";
 
 // Device ID for cart (make unique for each cart)
 const char *deviceId = "cart_001";
+const char *deviceSecret = "YOUR_DEVICE_SECRET"; // Issued when the device is registered
+const char *firmwareVersion = "1.1.0";             // Shown on the admin devices page
 
 // RFID pins
 #define SS_PIN D8
@@ -31,6 +35,20 @@ const char *deviceId = "cart_001";
 #define RED_LED_PIN D4
 #define BLUE_LED_PIN D5
 
+// Battery voltage is read on A0 through a divider
+#define BATTERY_PIN A0
+const float batteryFullScaleVolts = 4.2; // Battery voltage that reads 1023
+
+// Heartbeat
+const unsigned long heartbeatInterval = 30000; // 30 seconds
+unsigned long lastHeartbeatTime = 0;
+
+// Pairing code shown while the cart is free. The server issues a new one when
+// asked; codes are valid for 5 minutes by default.
+const unsigned long pairingCodeLifetime = 290000; // Refresh a little early
+String pairingCode = "";
+unsigned long pairingCodeReceivedTime = 0;
+
 // RFID
 MFRC522 rfid(SS_PIN, RST_PIN);
 String lastReadRFID = "";
@@ -95,6 +113,7 @@ void setup()
 
   // Connect to WiFi
   connectToWiFi();
+  syncClock();
 
   // Setup WebSocket
   setupWebSocket();
@@ -129,6 +148,21 @@ void loop()
     return;
   }
 
+  // Report health to the server so it knows the cart is alive
+  if (millis() - lastHeartbeatTime > heartbeatInterval)
+  {
+    lastHeartbeatTime = millis();
+    sendHeartbeat();
+  }
+
+  // Ask for a new pairing code before the one on screen expires
+  if (!cartConnected && pairingCode.length() > 0 &&
+      millis() - pairingCodeReceivedTime > pairingCodeLifetime)
+  {
+    pairingCode = "";
+    webSocket.sendTXT("nodemcu_pairing_code");
+  }
+
   // Read button states
   bool currentCheckoutButtonState = digitalRead(CHECKOUT_BUTTON_PIN);
   bool currentRemoveButtonState = digitalRead(REMOVE_BUTTON_PIN);
@@ -281,8 +315,16 @@ void webSocketEvent(WStype_t type, uint8_t *payload, size_t length)
     connected = true;
 
     // Send a connection message to register as a NodeMCU device
-    DynamicJsonDocument doc(200);
+    // The server verifies the signature before accepting scans from this socket
+    // The nonce makes each handshake usable only once
+    String timestamp = currentTimestamp();
+    String nonce = newNonce();
+    DynamicJsonDocument doc(320);
     doc["deviceId"] = deviceId;
+    doc["timestamp"] = timestamp;
+    doc["nonce"] = nonce;
+    doc["signature"] = signRequest("SOCKET", "nodemcu_connect", timestamp, nonce, deviceId);
+    doc["firmwareVersion"] = firmwareVersion;
 
     String message;
     serializeJson(doc, message);
@@ -343,6 +385,10 @@ void handleWebSocketMessage(uint8_t *payload, size_t length)
     {
       handleProductNotFound(doc);
     }
+    else if (strcmp(event, "pairing_code") == 0)
+    {
+      handlePairingCode(doc);
+    }
   }
 
   delete[] message;
@@ -357,6 +403,7 @@ void handleCartConnected(const DynamicJsonDocument &doc)
   {
     cartConnected = true;
     connectedUserId = userId;
+    pairingCode = "";
 
     digitalWrite(GREEN_LED_PIN, HIGH);
     delay(1000);
@@ -372,6 +419,24 @@ void handleCartConnected(const DynamicJsonDocument &doc)
   }
 }
 
+void handlePairingCode(const DynamicJsonDocument &doc)
+{
+  const char *code = doc["code"];
+
+  // The server only sends codes to free carts, so this also means the
+  // previous shopper has been released
+  cartConnected = false;
+  connectedUserId = "";
+  itemCount = 0;
+  cartTotal = 0.0;
+
+  pairingCode = code;
+  pairingCodeReceivedTime = millis();
+
+  Serial.println("Pairing code: " + pairingCode);
+  updateLCDStatus();
+}
+
 void handleProductScanned(const DynamicJsonDocument &doc)
 {
   const char *action = doc["action"];
@@ -477,7 +542,15 @@ void updateLCDStatus()
     lcd.print("Cart ID: ");
     lcd.print(deviceId);
     lcd.setCursor(0, 1);
-    lcd.print("Ready to connect");
+    if (pairingCode.length() > 0)
+    {
+      lcd.print("Code: ");
+      lcd.print(pairingCode);
+    }
+    else
+    {
+      lcd.print("Ready to connect");
+    }
   }
   else
   {
@@ -531,6 +604,27 @@ void sendRFIDData(String rfidTag, String action)
   webSocket.sendTXT(message.c_str());
 }
 
+float readBatteryVoltage()
+{
+  return analogRead(BATTERY_PIN) / 1023.0 * batteryFullScaleVolts;
+}
+
+void sendHeartbeat()
+{
+  DynamicJsonDocument doc(256);
+  doc["uptime"] = millis() / 1000;
+  doc["rssi"] = WiFi.RSSI();
+  doc["batteryVoltage"] = readBatteryVoltage();
+  doc["freeHeap"] = ESP.getFreeHeap();
+  doc["firmwareVersion"] = firmwareVersion;
+
+  String message;
+  serializeJson(doc, message);
+
+  webSocket.sendTXT("nodemcu_heartbeat");
+  webSocket.sendTXT(message.c_str());
+}
+
 void requestCheckout()
 {
   if (!cartConnected)
@@ -558,4 +652,53 @@ void blinkLED(int pin, int times)
     digitalWrite(pin, LOW);
     delay(200);
   }
-}
\ No newline at end of file
+}
+
+// Sign "<METHOD>\n<path>\n<timestamp>\n<nonce>\n<payload>" with the device
+// secret (HMAC-SHA256, hex)
+String signRequest(const String &method, const String &path, const String &timestamp, const String &nonce, const String &payload)
+{
+  br_hmac_key_context keyContext;
+  br_hmac_context hmacContext;
+  uint8_t digest[32];
+  String message = method + "\n" + path + "\n" + timestamp + "\n" + nonce + "\n" + payload;
+
+  br_hmac_key_init(&keyContext, &br_sha256_vtable, deviceSecret, strlen(deviceSecret));
+  br_hmac_init(&hmacContext, &keyContext, 0);
+  br_hmac_update(&hmacContext, message.c_str(), message.length());
+  br_hmac_out(&hmacContext, digest);
+
+  String signature = "";
+  for (int i = 0; i < 32; i++)
+  {
+    signature += (digest[i] < 0x10 ? "0" : "");
+    signature += String(digest[i], HEX);
+  }
+  return signature;
+}
+
+// A random value for each signed request; the server accepts each one once
+String newNonce()
+{
+  char nonce[17];
+  snprintf(nonce, sizeof(nonce), "%08x%08x", ESP.random(), ESP.random());
+  return String(nonce);
+}
+
+// Signed requests carry a Unix timestamp, so the clock must be set via NTP
+void syncClock()
+{
+  Serial.print("Syncing clock with NTP");
+  configTime(0, 0, "pool.ntp.org", "time.nist.gov");
+  while (time(nullptr) < 1600000000)
+  {
+    delay(500);
+    Serial.print(".");
+  }
+  Serial.println(" done");
+}
+
+String currentTimestamp()
+{
+  return String((unsigned long)time(nullptr));
+}
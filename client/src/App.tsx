@@ -9,10 +9,20 @@ import ProtectedRoute from './components/ProtectedRoute.tsx';
 import Login from './pages/Login.tsx';
 import AdminHome from './pages/AdminHome.tsx';
 import AdminProducts from './pages/AdminProducts.tsx';
+import AdminUsers from './pages/AdminUsers.tsx';
+import AdminPromotions from './pages/AdminPromotions.tsx';
+import AdminLoyalty from './pages/AdminLoyalty.tsx';
+import AdminDevices from './pages/AdminDevices.tsx';
+import AdminOrders from './pages/AdminOrders.tsx';
+import AdminCounter from './pages/AdminCounter.tsx';
 import RfidSimulator from './pages/RfidSimulator.tsx';
 import CustomerHome from './pages/CustomerHome.tsx';
 import Cart from './pages/Cart.tsx';
+import Rewards from './pages/Rewards.tsx';
+import Orders from './pages/Orders.tsx';
+import PairCart from './pages/PairCart.tsx';
 import socketService from './services/socket.ts';
+import { ROLES, isStaff } from './utils/permissions.ts';
 
 // Data initialization component
 const DataInitializer: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -45,8 +55,8 @@ const DataInitializer: React.FC<{ children: React.ReactNode }> = ({ children })
 const RoleBasedHome: React.FC = () => {
   const { authState } = useAuth();
   
-  // If user is an admin, show admin home page
-  if (authState.user?.role === 'admin') {
+  // Staff roles get the management dashboard
+  if (isStaff(authState.user?.role)) {
     return <AdminHome />;
   }
   
@@ -69,19 +79,40 @@ const App: React.FC = () => {
                     <Route path="/login" element={<Login />} />
                     
                     {/* Protected routes - shared */}
-                    <Route element={<ProtectedRoute allowedRoles={['customer', 'admin']} />}>
+                    <Route element={<ProtectedRoute allowedRoles={ROLES} />}>
                       <Route path="/" element={<RoleBasedHome />} />
                     </Route>
                     
                     {/* Customer routes */}
                     <Route element={<ProtectedRoute allowedRoles={['customer']} />}>
                       <Route path="/cart" element={<Cart />} />
+                      <Route path="/pair" element={<PairCart />} />
+                      <Route path="/rewards" element={<Rewards />} />
+                      <Route path="/orders" element={<Orders />} />
                     </Route>
                     
-                    {/* Admin routes */}
-                    <Route element={<ProtectedRoute allowedRoles={['admin']} />}>
+                    {/* Staff routes, gated by the permissions of each role */}
+                    <Route element={<ProtectedRoute requiredPermissions={['dashboard:view']} />}>
                       <Route path="/admin" element={<AdminHome />} />
+                    </Route>
+                    <Route element={<ProtectedRoute requiredPermissions={['products:write', 'inventory:adjust']} />}>
                       <Route path="/admin/products" element={<AdminProducts />} />
+                    </Route>
+                    <Route element={<ProtectedRoute requiredPermissions={['orders:view']} />}>
+                      <Route path="/admin/orders" element={<AdminOrders />} />
+                    </Route>
+                    <Route element={<ProtectedRoute requiredPermissions={['payments:take']} />}>
+                      <Route path="/admin/counter" element={<AdminCounter />} />
+                    </Route>
+                    <Route element={<ProtectedRoute requiredPermissions={['promotions:manage']} />}>
+                      <Route path="/admin/promotions" element={<AdminPromotions />} />
+                      <Route path="/admin/loyalty" element={<AdminLoyalty />} />
+                    </Route>
+                    <Route element={<ProtectedRoute requiredPermissions={['users:manage']} />}>
+                      <Route path="/admin/users" element={<AdminUsers />} />
+                    </Route>
+                    <Route element={<ProtectedRoute requiredPermissions={['devices:manage']} />}>
+                      <Route path="/admin/devices" element={<AdminDevices />} />
                       <Route path="/admin/simulator" element={<RfidSimulator />} />
                     </Route>
                     
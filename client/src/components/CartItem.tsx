@@ -1,6 +1,8 @@
 import React from 'react';
 import { CartItem as CartItemType } from '../types';
 import { useCart } from '../context/CartContext.tsx';
+import { formatMinor } from '../utils/money.ts';
+import { formatQuantity, formatUnitPrice, isSoldByWeight } from '../utils/units.ts';
 
 interface CartItemProps {
   item: CartItemType;
@@ -17,33 +19,65 @@ const CartItem: React.FC<CartItemProps> = ({ item }) => {
     removeFromCart(item.id, 1);
   };
 
+  // A weighed line can only be removed whole; more is added by weighing again
+  const handleRemoveLine = () => {
+    removeFromCart(item.id);
+  };
+
+  const soldByWeight = isSoldByWeight(item);
+
   return (
     <div className="flex items-center py-4 border-b border-gray-200">
       <div className="flex-1">
         <h3 className="text-lg font-medium text-gray-800">{item.name}</h3>
-        <p className="text-sm text-gray-500">RFID: {item.rfidTag}</p>
+        {item.unavailable ? (
+          <p className="text-sm text-red-600">No longer available - not charged</p>
+        ) : (
+          <p className="text-sm text-gray-500">RFID: {item.rfidTag}</p>
+        )}
+        {soldByWeight && (
+          <p className="text-sm text-gray-500">
+            {formatQuantity(item, item.quantity)} × {formatUnitPrice(item)}
+          </p>
+        )}
+        {item.discounts?.map(discount => (
+          <p key={discount.promotionId || discount.label} className="text-sm text-green-600">
+            {discount.label}: -{formatMinor(discount.amountMinor)}
+          </p>
+        ))}
       </div>
       
       <div className="flex items-center">
-        <div className="flex items-center border border-gray-300 rounded-md">
-          <button 
-            onClick={handleDecreaseQuantity}
-            className="px-3 py-1 text-gray-600 hover:bg-gray-100 transition"
-          >
-            -
-          </button>
-          <span className="px-3 py-1 text-gray-800">{item.quantity}</span>
-          <button 
-            onClick={handleIncreaseQuantity}
-            className="px-3 py-1 text-gray-600 hover:bg-gray-100 transition"
+        {soldByWeight ? (
+          <button
+            onClick={handleRemoveLine}
+            className="px-3 py-1 text-sm text-red-600 border border-gray-300 rounded-md hover:bg-gray-100 transition"
           >
-            +
+            Remove
           </button>
-        </div>
+        ) : (
+          <div className="flex items-center border border-gray-300 rounded-md">
+            <button 
+              onClick={handleDecreaseQuantity}
+              className="px-3 py-1 text-gray-600 hover:bg-gray-100 transition"
+            >
+              -
+            </button>
+            <span className="px-3 py-1 text-gray-800">{item.quantity}</span>
+            <button 
+              onClick={handleIncreaseQuantity}
+              className="px-3 py-1 text-gray-600 hover:bg-gray-100 transition"
+            >
+              +
+            </button>
+          </div>
+        )}
       </div>
       
       <div className="w-24 text-right">
-        <span className="font-medium text-gray-800">₹{(item.price * item.quantity).toFixed(2)}</span>
+        <span className="font-medium text-gray-800">
+          {item.lineTotalMinor !== undefined ? formatMinor(item.lineTotalMinor) : `₹${(item.price * item.quantity).toFixed(2)}`}
+        </span>
       </div>
     </div>
   );
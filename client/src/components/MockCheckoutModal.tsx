@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { paymentAPI } from '../services/api.ts';
+import { MockPaymentOutcome, Order, PaymentConfirmation, PaymentInfo } from '../types';
+import { formatMinor } from '../utils/money.ts';
+
+interface MockCheckoutModalProps {
+  payment: PaymentInfo;
+  // The gateway signed the payment; it still has to be verified
+  onPaid: (confirmation: PaymentConfirmation) => void;
+  // A status check found the order already paid
+  onConfirmed: (order: Order) => void;
+  onClose: () => void;
+}
+
+// Stand-in for Razorpay Checkout when the server runs the mock payment
+// gateway. The customer picks how the payment ends, so declines and
+// gateway timeouts can be tried without a real account.
+const MockCheckoutModal: React.FC<MockCheckoutModalProps> = ({ payment, onPaid, onConfirmed, onClose }) => {
+  const [busy, setBusy] = useState<MockPaymentOutcome | 'status' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+
+  const pay = async (outcome: MockPaymentOutcome) => {
+    setBusy(outcome);
+    setError(null);
+    try {
+      onPaid(await paymentAPI.mockCheckout(payment.orderId, outcome));
+    } catch (err: any) {
+      if (outcome === 'timeout') {
+        setTimedOut(true);
+      }
+      setError(err.message || 'Payment failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // A timed out payment may still have gone through; ask the server, which
+  // checks with the gateway and completes the order if it was paid
+  const checkStatus = async () => {
+    setBusy('status');
+    setError(null);
+    try {
+      const { order } = await paymentAPI.getStatus(payment.orderId);
+      if (order.status === 'pending_payment' || order.status === 'cancelled') {
+        setError('The payment has not gone through. You can try paying again.');
+        setTimedOut(false);
+      } else {
+        onConfirmed(order);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Could not check the payment status');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-md">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold text-gray-800">Mock Payment Gateway</h2>
+            <button onClick={onClose} disabled={busy !== null} className="text-gray-500 hover:text-gray-700">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-600 mb-1">Order {payment.orderId}</p>
+          <p className="text-2xl font-bold text-gray-800 mb-4">{formatMinor(Math.round(payment.amount * 100))}</p>
+          <p className="text-sm text-gray-500 mb-4">
+            No money is taken. Choose how this payment should end.
+          </p>
+
+          {error && (
+            <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4 text-sm">
+              {error}
+            </div>
+          )}
+
+          {timedOut ? (
+            <button
+              onClick={checkStatus}
+              disabled={busy !== null}
+              className="w-full py-2 px-4 rounded-md text-white font-medium bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400"
+            >
+              {busy === 'status' ? 'Checking...' : 'Check payment status'}
+            </button>
+          ) : (
+            <div className="space-y-2">
+              <button
+                onClick={() => pay('success')}
+                disabled={busy !== null}
+                className="w-full py-2 px-4 rounded-md text-white font-medium bg-green-600 hover:bg-green-700 disabled:bg-gray-400"
+              >
+                {busy === 'success' ? 'Paying...' : 'Pay'}
+              </button>
+              <button
+                onClick={() => pay('failure')}
+                disabled={busy !== null}
+                className="w-full py-2 px-4 rounded-md text-white font-medium bg-red-600 hover:bg-red-700 disabled:bg-gray-400"
+              >
+                {busy === 'failure' ? 'Declining...' : 'Decline'}
+              </button>
+              <button
+                onClick={() => pay('timeout')}
+                disabled={busy !== null}
+                className="w-full py-2 px-4 rounded-md text-gray-700 font-medium bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100"
+              >
+                {busy === 'timeout' ? 'Waiting for the gateway...' : 'Time out'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MockCheckoutModal;
@@ -1,10 +1,12 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext.tsx';
+import { hasPermission, isStaff } from '../utils/permissions.ts';
 
 const Navbar: React.FC = () => {
   const { authState, logout } = useAuth();
   const navigate = useNavigate();
+  const role = authState.user?.role;
   
   const handleLogout = () => {
     logout();
@@ -27,15 +29,39 @@ const Navbar: React.FC = () => {
               <>
                 <Link to="/" className="hover:text-blue-200 transition">Home</Link>
                 
-                {authState.user?.role === 'admin' ? (
+                {isStaff(role) ? (
                   <>
                     <Link to="/" className="hover:text-blue-200 transition">Dashboard</Link>
-                    <Link to="/admin/products" className="hover:text-blue-200 transition">Products</Link>
-                    <Link to="/admin/simulator" className="hover:text-blue-200 transition">RFID Simulator</Link>
+                    {hasPermission(role, 'products:write', 'inventory:adjust') && (
+                      <Link to="/admin/products" className="hover:text-blue-200 transition">Products</Link>
+                    )}
+                    {hasPermission(role, 'orders:view') && (
+                      <Link to="/admin/orders" className="hover:text-blue-200 transition">Orders</Link>
+                    )}
+                    {hasPermission(role, 'payments:take') && (
+                      <Link to="/admin/counter" className="hover:text-blue-200 transition">Counter</Link>
+                    )}
+                    {hasPermission(role, 'promotions:manage') && (
+                      <>
+                        <Link to="/admin/promotions" className="hover:text-blue-200 transition">Promotions</Link>
+                        <Link to="/admin/loyalty" className="hover:text-blue-200 transition">Loyalty</Link>
+                      </>
+                    )}
+                    {hasPermission(role, 'users:manage') && (
+                      <Link to="/admin/users" className="hover:text-blue-200 transition">Users</Link>
+                    )}
+                    {hasPermission(role, 'devices:manage') && (
+                      <>
+                        <Link to="/admin/devices" className="hover:text-blue-200 transition">Devices</Link>
+                        <Link to="/admin/simulator" className="hover:text-blue-200 transition">RFID Simulator</Link>
+                      </>
+                    )}
                   </>
                 ) : (
                   <>
                     <Link to="/cart" className="hover:text-blue-200 transition">Cart</Link>
+                    <Link to="/orders" className="hover:text-blue-200 transition">Orders</Link>
+                    <Link to="/rewards" className="hover:text-blue-200 transition">Rewards</Link>
                   </>
                 )}
                 
@@ -76,15 +102,39 @@ const Navbar: React.FC = () => {
             
             {authState.isAuthenticated && (
               <>
-                {authState.user?.role === 'admin' ? (
+                {isStaff(role) ? (
                   <>
                     <li><Link to="/" className="block px-2 py-3 hover:bg-primary-800 transition">Dashboard</Link></li>
-                    <li><Link to="/admin/products" className="block px-2 py-3 hover:bg-primary-800 transition">Products</Link></li>
-                    <li><Link to="/admin/simulator" className="block px-2 py-3 hover:bg-primary-800 transition">RFID Simulator</Link></li>
+                    {hasPermission(role, 'products:write', 'inventory:adjust') && (
+                      <li><Link to="/admin/products" className="block px-2 py-3 hover:bg-primary-800 transition">Products</Link></li>
+                    )}
+                    {hasPermission(role, 'orders:view') && (
+                      <li><Link to="/admin/orders" className="block px-2 py-3 hover:bg-primary-800 transition">Orders</Link></li>
+                    )}
+                    {hasPermission(role, 'payments:take') && (
+                      <li><Link to="/admin/counter" className="block px-2 py-3 hover:bg-primary-800 transition">Counter</Link></li>
+                    )}
+                    {hasPermission(role, 'promotions:manage') && (
+                      <>
+                        <li><Link to="/admin/promotions" className="block px-2 py-3 hover:bg-primary-800 transition">Promotions</Link></li>
+                        <li><Link to="/admin/loyalty" className="block px-2 py-3 hover:bg-primary-800 transition">Loyalty</Link></li>
+                      </>
+                    )}
+                    {hasPermission(role, 'users:manage') && (
+                      <li><Link to="/admin/users" className="block px-2 py-3 hover:bg-primary-800 transition">Users</Link></li>
+                    )}
+                    {hasPermission(role, 'devices:manage') && (
+                      <>
+                        <li><Link to="/admin/devices" className="block px-2 py-3 hover:bg-primary-800 transition">Devices</Link></li>
+                        <li><Link to="/admin/simulator" className="block px-2 py-3 hover:bg-primary-800 transition">RFID Simulator</Link></li>
+                      </>
+                    )}
                   </>
                 ) : (
                   <>
                     <li><Link to="/cart" className="block px-2 py-3 hover:bg-primary-800 transition">Cart</Link></li>
+                    <li><Link to="/orders" className="block px-2 py-3 hover:bg-primary-800 transition">Orders</Link></li>
+                    <li><Link to="/rewards" className="block px-2 py-3 hover:bg-primary-800 transition">Rewards</Link></li>
                   </>
                 )}
                 <li>
@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { Product } from '../types';
 import { useAuth } from '../context/AuthContext.tsx';
 import { useCart } from '../context/CartContext.tsx';
+import { isStaff } from '../utils/permissions.ts';
+import { formatStock, formatUnitPrice, isSoldByWeight } from '../utils/units.ts';
 
 interface ProductCardProps {
   product: Product;
@@ -13,9 +15,20 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onEdit, onDelete })
   const { authState } = useAuth();
   const { addToCart } = useCart();
   const [imageError, setImageError] = useState(false);
+  const [grams, setGrams] = useState('');
 
+  const soldByWeight = isSoldByWeight(product);
+  const weighedGrams = parseFloat(grams);
+  const canAdd = product.quantity > 0 && (!soldByWeight || weighedGrams > 0);
+
+  // Products sold by weight are added by the grams weighed out
   const handleAddToCart = () => {
-    addToCart(product.id);
+    if (soldByWeight) {
+      addToCart(product.id, undefined, weighedGrams);
+      setGrams('');
+    } else {
+      addToCart(product.id);
+    }
   };
 
   // Default image fallback - using inline data URL
@@ -56,7 +69,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onEdit, onDelete })
         <div className="flex justify-between items-start">
           <h3 className="text-lg font-semibold text-gray-800">{product.name}</h3>
           <span className="bg-primary-100 text-primary-800 text-xs px-2 py-1 rounded-full">
-            ₹{product.price.toFixed(2)}
+            {formatUnitPrice(product)}
           </span>
         </div>
         
@@ -65,16 +78,19 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onEdit, onDelete })
           <p className="mt-1">
             Stock: 
             <span className={`font-medium ${product.quantity > 5 ? 'text-green-600' : 'text-red-600'}`}>
-              {' '}{product.quantity} units
+              {' '}{formatStock(product, product.quantity)}
             </span>
           </p>
-          {product.weight && (
+          {soldByWeight && (
+            <p className="mt-1">Sold by weight</p>
+          )}
+          {!soldByWeight && product.weight && (
             <p className="mt-1">Weight: {product.weight}g</p>
           )}
         </div>
         
         <div className="mt-4 flex justify-between items-center">
-          {authState.user?.role === 'admin' ? (
+          {isStaff(authState.user?.role) ? (
             <div className="flex space-x-2">
               {onEdit && (
                 <button 
@@ -94,20 +110,34 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onEdit, onDelete })
               )}
             </div>
           ) : (
-            <button 
-              onClick={handleAddToCart}
-              disabled={product.quantity === 0}
-              className={`flex items-center text-sm px-3 py-1 rounded-md transition ${
-                product.quantity === 0 
-                  ? 'bg-gray-300 cursor-not-allowed' 
-                  : 'bg-primary-500 hover:bg-primary-600 text-white'
-              }`}
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" viewBox="0 0 20 20" fill="currentColor">
-                <path d="M3 1a1 1 0 000 2h1.22l.305 1.222a.997.997 0 00.01.042l1.358 5.43-.893.892C3.74 11.846 4.632 14 6.414 14H15a1 1 0 000-2H6.414l1-1H14a1 1 0 00.894-.553l3-6A1 1 0 0017 3H6.28l-.31-1.243A1 1 0 005 1H3zM16 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zM6.5 18a1.5 1.5 0 100-3 1.5 1.5 0 000 3z" />
-              </svg>
-              {product.quantity === 0 ? 'Out of stock' : 'Add to cart'}
-            </button>
+            <div className="flex items-center space-x-2">
+              {soldByWeight && product.quantity > 0 && (
+                <input
+                  type="number"
+                  value={grams}
+                  onChange={(e) => setGrams(e.target.value)}
+                  min="1"
+                  step="1"
+                  placeholder="Grams"
+                  aria-label={`Weight of ${product.name} in grams`}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                />
+              )}
+              <button 
+                onClick={handleAddToCart}
+                disabled={!canAdd}
+                className={`flex items-center text-sm px-3 py-1 rounded-md transition ${
+                  !canAdd 
+                    ? 'bg-gray-300 cursor-not-allowed' 
+                    : 'bg-primary-500 hover:bg-primary-600 text-white'
+                }`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M3 1a1 1 0 000 2h1.22l.305 1.222a.997.997 0 00.01.042l1.358 5.43-.893.892C3.74 11.846 4.632 14 6.414 14H15a1 1 0 000-2H6.414l1-1H14a1 1 0 00.894-.553l3-6A1 1 0 0017 3H6.28l-.31-1.243A1 1 0 005 1H3zM16 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zM6.5 18a1.5 1.5 0 100-3 1.5 1.5 0 000 3z" />
+                </svg>
+                {product.quantity === 0 ? 'Out of stock' : 'Add to cart'}
+              </button>
+            </div>
           )}
         </div>
       </div>
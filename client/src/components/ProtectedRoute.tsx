@@ -1,15 +1,20 @@
 import React, { useEffect } from 'react';
-import { Navigate, Outlet } from 'react-router-dom';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext.tsx';
 import socketService from '../services/socket.ts';
+import { hasPermission } from '../utils/permissions.ts';
+import { Permission, Role } from '../types';
 
 interface ProtectedRouteProps {
-  allowedRoles?: string[];
+  allowedRoles?: Role[];
+  // The user's role needs at least one of these permissions
+  requiredPermissions?: Permission[];
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ allowedRoles = [] }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ allowedRoles = [], requiredPermissions = [] }) => {
   const { authState } = useAuth();
   const { isAuthenticated, user, token, loading } = authState;
+  const location = useLocation();
 
   useEffect(() => {
     // Debug info
@@ -18,6 +23,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ allowedRoles = [] }) =>
       role: user?.role, 
       loading, 
       allowedRoles,
+      requiredPermissions,
       hasToken: !!token,
       socketConnected: socketService.isConnected()
     });
@@ -27,7 +33,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ allowedRoles = [] }) =>
       console.log("Connecting socket from ProtectedRoute");
       socketService.connect(token);
     }
-  }, [isAuthenticated, user, token, loading, allowedRoles]);
+  }, [isAuthenticated, user, token, loading, allowedRoles, requiredPermissions]);
 
   // Show loading state
   if (loading) {
@@ -41,7 +47,8 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ allowedRoles = [] }) =>
   // Check if user is authenticated
   if (!isAuthenticated) {
     console.log("Not authenticated, redirecting to login");
-    return <Navigate to="/login" replace />;
+    // Remember where the user was going, e.g. a scanned pairing link
+    return <Navigate to="/login" replace state={{ from: location }} />;
   }
 
   // Check if user has required role
@@ -50,6 +57,12 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ allowedRoles = [] }) =>
     return <Navigate to="/" replace />;
   }
 
+  // Check if user's role grants a required permission
+  if (requiredPermissions.length > 0 && user && !hasPermission(user.role, ...requiredPermissions)) {
+    console.log(`User role ${user.role} lacks ${requiredPermissions.join(' or ')}, redirecting to home`);
+    return <Navigate to="/" replace />;
+  }
+
   // Ensure socket is connected
   if (!socketService.isConnected() && token) {
     socketService.connect(token);
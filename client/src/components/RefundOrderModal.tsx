@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { ordersAPI } from '../services/api.ts';
+import { Order } from '../types';
+import { formatMinor } from '../utils/money.ts';
+import { formatQuantity, isSoldByWeight } from '../utils/units.ts';
+import { returnedQuantities } from '../utils/orders.ts';
+
+interface RefundOrderModalProps {
+  order: Order;
+  onRefunded: (order: Order) => void;
+  onClose: () => void;
+}
+
+// Staff pick how much of each line comes back and why. The server works out
+// the money, leaving out any part paid with points, and refunds it the way
+// the order was paid.
+const RefundOrderModal: React.FC<RefundOrderModalProps> = ({ order, onRefunded, onClose }) => {
+  const returned = returnedQuantities(order);
+  const remaining = (id: string, quantity: number) =>
+    Math.round((quantity - (returned[id] || 0)) * 1000) / 1000;
+
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const lines = order.items
+    .map(item => ({ id: item.id, quantity: parseFloat(quantities[item.id]) || 0 }))
+    .filter(line => line.quantity > 0);
+
+  // What the chosen items cost; the refund can be less if points were used
+  const goodsMinor = order.items.reduce((sum, item) => {
+    const quantity = parseFloat(quantities[item.id]) || 0;
+    return sum + Math.round(((item.lineTotalMinor || 0) * quantity) / item.quantity);
+  }, 0);
+
+  const returnEverything = () => {
+    setQuantities(
+      Object.fromEntries(order.items.map(item => [item.id, String(remaining(item.id, item.quantity))]))
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lines.length === 0) {
+      setFormError('Choose at least one item to return');
+      return;
+    }
+    if (!reason.trim()) {
+      setFormError('Enter a reason for the refund');
+      return;
+    }
+
+    setSubmitting(true);
+    setFormError(null);
+    try {
+      const { order: updated } = await ordersAPI.refund(order.orderId, { lines, reason: reason.trim(), restock });
+      onRefunded(updated);
+    } catch (error: any) {
+      console.error('Error refunding order:', error);
+      setFormError(error.response?.data?.message || 'Failed to refund order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold text-gray-800">Refund Order</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-600 mb-4 font-mono">{order.orderId}</p>
+
+          {formError && (
+            <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4 text-sm">
+              {formError}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4">
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <span className="block text-sm font-medium text-gray-700">Items returned</span>
+                  <button type="button" onClick={returnEverything} className="text-sm text-primary-600 hover:text-primary-900">
+                    Return everything
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {order.items.map(item => {
+                    const left = remaining(item.id, item.quantity);
+                    return (
+                      <div key={item.id} className="flex items-center justify-between text-sm text-gray-700">
+                        <span>
+                          {item.name}
+                          <span className="block text-xs text-gray-500">
+                            {formatQuantity(item, item.quantity)} bought
+                            {returned[item.id] ? `, ${formatQuantity(item, returned[item.id])} returned` : ''}
+                          </span>
+                        </span>
+                        <input
+                          type="number"
+                          min="0"
+                          max={left}
+                          step={isSoldByWeight(item) ? '0.001' : '1'}
+                          value={quantities[item.id] || ''}
+                          onChange={e => setQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                          disabled={left <= 0}
+                          placeholder="0"
+                          className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right disabled:bg-gray-100"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <input
+                  type="text"
+                  id="reason"
+                  value={reason}
+                  onChange={e => setReason(e.target.value)}
+                  maxLength={200}
+                  placeholder="e.g. Damaged, wrong item, changed mind"
+                  className={inputClass}
+                />
+              </div>
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={restock}
+                  onChange={e => setRestock(e.target.checked)}
+                  className="mr-2"
+                />
+                Put returned items back in stock
+              </label>
+
+              {goodsMinor > 0 && (
+                <p className="text-sm text-gray-600">
+                  Items worth {formatMinor(goodsMinor)}
+                  {order.loyalty && order.loyalty.pointsRedeemed > 0 && ', less the share paid with points'}
+                  {order.payment.method === 'direct' && ', with no money back since none was taken'}
+                </p>
+              )}
+            </div>
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-md transition"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition disabled:bg-gray-400"
+              >
+                {submitting ? 'Refunding...' : 'Refund'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RefundOrderModal;
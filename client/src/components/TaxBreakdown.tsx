@@ -0,0 +1,62 @@
+import React from 'react';
+import { CartPricing } from '../types';
+import { formatMinor } from '../utils/money.ts';
+
+interface TaxBreakdownProps {
+  pricing: CartPricing;
+}
+
+// GST summary by HSN code and rate, as printed on a tax invoice. Intra-state
+// sales show CGST and SGST, inter-state sales show IGST.
+const TaxBreakdown: React.FC<TaxBreakdownProps> = ({ pricing }) => {
+  if (!pricing.taxSummary || pricing.taxSummary.length === 0) {
+    return null;
+  }
+
+  const interState = pricing.supplyType === 'inter-state';
+
+  return (
+    <div className="text-xs text-gray-600">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-gray-200 text-left">
+            <th className="py-1 font-medium">HSN</th>
+            <th className="py-1 font-medium text-right">Rate</th>
+            <th className="py-1 font-medium text-right">Taxable</th>
+            {interState ? (
+              <th className="py-1 font-medium text-right">IGST</th>
+            ) : (
+              <>
+                <th className="py-1 font-medium text-right">CGST</th>
+                <th className="py-1 font-medium text-right">SGST</th>
+              </>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {pricing.taxSummary.map(row => (
+            <tr key={`${row.hsnCode || ''}:${row.gstRate}`}>
+              <td className="py-1">{row.hsnCode || '-'}</td>
+              <td className="py-1 text-right">{row.gstRate}%</td>
+              <td className="py-1 text-right">{formatMinor(row.taxableMinor)}</td>
+              {interState ? (
+                <td className="py-1 text-right">{formatMinor(row.igstMinor)}</td>
+              ) : (
+                <>
+                  <td className="py-1 text-right">{formatMinor(row.cgstMinor)}</td>
+                  <td className="py-1 text-right">{formatMinor(row.sgstMinor)}</td>
+                </>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-1">
+        {interState ? 'Inter-state' : 'Intra-state'} supply
+        {pricing.placeOfSupply && ` (place of supply: ${pricing.placeOfSupply})`}
+      </p>
+    </div>
+  );
+};
+
+export default TaxBreakdown;
@@ -1,12 +1,12 @@
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
 import { AuthContextType, AuthState } from '../types';
-import { authAPI } from '../services/api.ts';
+import { authAPI, tokenStorage, setSessionExpiredHandler } from '../services/api.ts';
 
 // Initial state
 const initialState: AuthState = {
   isAuthenticated: false,
   user: null,
-  token: localStorage.getItem('token'),
+  token: tokenStorage.getAccessToken(),
   loading: true,
   error: null
 };
@@ -70,12 +70,16 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
+  // Sign out locally when the API can no longer refresh the session
+  useEffect(() => {
+    setSessionExpiredHandler(() => dispatch({ type: 'LOGOUT' }));
+    return () => setSessionExpiredHandler(null);
+  }, []);
+
   // Check if user is already logged in
   useEffect(() => {
     const loadUser = async () => {
-      const token = localStorage.getItem('token');
-      
-      if (!token) {
+      if (!tokenStorage.getAccessToken() && !tokenStorage.getRefreshToken()) {
         dispatch({ type: 'LOGIN_FAILURE', payload: 'No token found' });
         return;
       }
@@ -84,10 +88,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         const { user } = await authAPI.getCurrentUser();
         dispatch({
           type: 'LOGIN_SUCCESS',
-          payload: { user, token }
+          // The request may have refreshed the access token, so read it back
+          payload: { user, token: tokenStorage.getAccessToken() as string }
         });
       } catch (error) {
-        localStorage.removeItem('token');
+        tokenStorage.clear();
         dispatch({
           type: 'LOGIN_FAILURE',
           payload: 'Authentication failed. Please login again.'
@@ -103,9 +108,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     dispatch({ type: 'LOGIN_REQUEST' });
 
     try {
-      const { token, user } = await authAPI.login(username, password);
+      const { token, refreshToken, user } = await authAPI.login(username, password);
       
-      localStorage.setItem('token', token);
+      tokenStorage.setTokens(token, refreshToken);
       
       dispatch({
         type: 'LOGIN_SUCCESS',
@@ -119,15 +124,43 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  // Logout user
+  // Register a new customer account and sign in
+  const register = async (username: string, password: string) => {
+    dispatch({ type: 'LOGIN_REQUEST' });
+
+    try {
+      const { token, refreshToken, user } = await authAPI.register(username, password);
+      
+      tokenStorage.setTokens(token, refreshToken);
+      
+      dispatch({
+        type: 'LOGIN_SUCCESS',
+        payload: { user, token }
+      });
+    } catch (error: any) {
+      dispatch({
+        type: 'LOGIN_FAILURE',
+        payload: error.response?.data?.message || 'Registration failed'
+      });
+    }
+  };
+
+  // Logout user and revoke the session on the server
   const logout = () => {
-    localStorage.removeItem('token');
+    const refreshToken = tokenStorage.getRefreshToken();
+    if (refreshToken) {
+      authAPI.logout(refreshToken).catch(error => {
+        console.error('Error revoking session:', error);
+      });
+    }
+    tokenStorage.clear();
     dispatch({ type: 'LOGOUT' });
   };
 
   const value: AuthContextType = {
     authState: state,
     login,
+    register,
     logout
   };
 
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
 import { CartContextType, Cart, RfidResponse } from '../types';
-import { cartAPI } from '../services/api.ts';
+import { cartAPI, createIdempotencyKey } from '../services/api.ts';
 import socketService from '../services/socket.ts';
 import { useAuth } from './AuthContext.tsx';
 
@@ -131,11 +131,11 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   // Add item to cart
-  const addToCart = async (productId: string, quantity: number = 1) => {
+  const addToCart = async (productId: string, quantity: number = 1, grams?: number) => {
     dispatch({ type: 'FETCH_CART_REQUEST' });
 
     try {
-      const updatedCart = await cartAPI.addItem(productId, quantity);
+      const updatedCart = await cartAPI.addItem(productId, quantity, grams);
       dispatch({
         type: 'UPDATE_CART',
         payload: updatedCart
@@ -149,11 +149,11 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   // Remove item from cart
-  const removeFromCart = async (productId: string, quantity: number = 1) => {
+  const removeFromCart = async (productId: string, quantity: number = 1, grams?: number) => {
     dispatch({ type: 'FETCH_CART_REQUEST' });
 
     try {
-      const updatedCart = await cartAPI.removeItem(productId, quantity);
+      const updatedCart = await cartAPI.removeItem(productId, quantity, grams);
       dispatch({
         type: 'UPDATE_CART',
         payload: updatedCart
@@ -231,7 +231,9 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       console.log(`Processing device RFID request: ${rfidTag}, action: ${action}, device: ${deviceId}`);
       
-      // Retry logic for 502 errors
+      // Retry logic for 502 errors. Every attempt carries the same key so a scan
+      // that reached the server before the error is not added twice.
+      const idempotencyKey = createIdempotencyKey();
       let retries = 0;
       const maxRetries = 3;
       let success = false;
@@ -239,7 +241,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
       
       while (!success && retries < maxRetries) {
         try {
-          result = await cartAPI.handleDeviceRequest(rfidTag, action, deviceId);
+          result = await cartAPI.handleDeviceRequest(rfidTag, action, deviceId, idempotencyKey);
           success = true;
         } catch (retryError: any) {
           if (retryError.response && retryError.response.status === 502 && retries < maxRetries - 1) {
@@ -300,12 +302,12 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  // Connect to physical cart
-  const connectToCart = async (deviceId: string) => {
+  // Connect to physical cart using the pairing code it is showing
+  const connectToCart = async (deviceId: string, code: string) => {
     dispatch({ type: 'FETCH_CART_REQUEST' });
 
     try {
-      const result = await cartAPI.connectCart(deviceId);
+      const result = await cartAPI.connectCart(deviceId, code);
       if (result.success) {
         dispatch({
           type: 'UPDATE_CART',
@@ -322,6 +324,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         type: 'FETCH_CART_FAILURE',
         payload: error.response?.data?.message || 'Failed to connect to cart'
       });
+      throw error;
     }
   };
 
@@ -341,11 +344,11 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   // Checkout process
-  const checkout = async () => {
+  const checkout = async (redeemPoints?: number) => {
     dispatch({ type: 'FETCH_CART_REQUEST' });
 
     try {
-      const result = await cartAPI.checkout();
+      const result = await cartAPI.checkout(redeemPoints);
       dispatch({ type: 'CLEAR_CART_SUCCESS' });
       return result;
     } catch (error: any) {
@@ -357,6 +360,24 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Apply a coupon code. Errors are left to the caller to show next to the
+  // code field rather than replacing the whole cart view.
+  const applyCoupon = async (code: string) => {
+    const updatedCart = await cartAPI.applyCoupon(code);
+    dispatch({
+      type: 'UPDATE_CART',
+      payload: updatedCart
+    });
+  };
+
+  const removeCoupon = async () => {
+    const updatedCart = await cartAPI.removeCoupon();
+    dispatch({
+      type: 'UPDATE_CART',
+      payload: updatedCart
+    });
+  };
+
   const value: CartContextType = {
     cart: state.cart,
     loading: state.loading,
@@ -370,6 +391,8 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     disconnectCart,
     checkout,
     handleDeviceRequest,
+    applyCoupon,
+    removeCoupon,
     clearError: () => dispatch({ type: 'CLEAR_ERROR' })
   };
 
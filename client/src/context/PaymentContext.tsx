@@ -62,11 +62,11 @@ export const PaymentProvider: React.FC<{ children: React.ReactNode }> = ({ child
   const { authState } = useAuth();
 
   // Create order for payment
-  const createOrder = async (): Promise<PaymentInfo> => {
+  const createOrder = async (redeemPoints?: number): Promise<PaymentInfo> => {
     dispatch({ type: 'PAYMENT_REQUEST' });
 
     try {
-      const orderData = await paymentAPI.createOrder();
+      const orderData = await paymentAPI.createOrder(redeemPoints);
       dispatch({ type: 'PAYMENT_SUCCESS' });
       return orderData;
     } catch (error: any) {
@@ -0,0 +1,332 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cartAPI } from '../services/api.ts';
+import socketService from '../services/socket.ts';
+import { CounterCart, Order, OrderTender, TenderMethod } from '../types/index.ts';
+import { formatMinor } from '../utils/money.ts';
+import { formatQuantity } from '../utils/units.ts';
+import { maxRedeemablePoints, pointsValueMinor } from '../utils/loyalty.ts';
+import { TENDER_METHOD_LABELS } from '../utils/orders.ts';
+import { WEIGHT_STATUS_LABELS, describeWeightCheck } from '../utils/weight.ts';
+
+// One tender as the cashier types it; amount is in rupees
+interface TenderRow {
+  method: TenderMethod;
+  amount: string;
+  reference: string;
+}
+
+const NEW_TENDER: TenderRow = { method: 'cash', amount: '', reference: '' };
+
+const toMinor = (amount: string) => Math.round((parseFloat(amount) || 0) * 100);
+
+// Staff-assisted checkout: the cashier looks up the cart on a device, takes
+// cash, card or UPI at the counter (split across several if the shopper
+// wants) and closes the order. Change only comes out of cash.
+const AdminCounter: React.FC = () => {
+  const [deviceId, setDeviceId] = useState('');
+  const [counterCart, setCounterCart] = useState<CounterCart | null>(null);
+  const [tenders, setTenders] = useState<TenderRow[]>([NEW_TENDER]);
+  const [redeemPoints, setRedeemPoints] = useState('');
+  const [completed, setCompleted] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The device being served, for refreshing its cart as the shopper scans
+  const currentDevice = useRef<string | null>(null);
+
+  const loadCart = async (id: string, showSpinner = true) => {
+    if (showSpinner) setLoading(true);
+    try {
+      setCounterCart(await cartAPI.getForCounter(id));
+      currentDevice.current = id;
+      setError(null);
+    } catch (error: any) {
+      console.error('Error looking up cart:', error);
+      setCounterCart(null);
+      currentDevice.current = null;
+      setError(error.response?.data?.message || 'Failed to look up cart');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    // Keep the cart current if the shopper scans more while at the counter
+    const handleCartUpdated = () => {
+      if (currentDevice.current) loadCart(currentDevice.current, false);
+    };
+    socketService.on('cart_updated', handleCartUpdated);
+
+    return () => {
+      socketService.off('cart_updated', handleCartUpdated);
+    };
+  }, []);
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deviceId.trim()) return;
+
+    setCompleted(null);
+    setTenders([NEW_TENDER]);
+    setRedeemPoints('');
+    loadCart(deviceId.trim());
+  };
+
+  const cart = counterCart?.cart;
+  const loyalty = counterCart?.loyalty;
+  const maxPoints = cart && loyalty
+    ? maxRedeemablePoints(loyalty.balance, cart.pricing.totalMinor, loyalty.settings)
+    : 0;
+  const pointsToRedeem = Math.min(parseInt(redeemPoints) || 0, maxPoints);
+  const pointsMinor = loyalty ? pointsValueMinor(pointsToRedeem, loyalty.settings) : 0;
+
+  const dueMinor = cart ? cart.pricing.totalMinor - pointsMinor : 0;
+  const tenderedMinor = tenders.reduce((sum, tender) => sum + toMinor(tender.amount), 0);
+  const changeMinor = Math.max(0, tenderedMinor - dueMinor);
+  const leftMinor = Math.max(0, dueMinor - tenderedMinor);
+
+  const updateTender = (index: number, changes: Partial<TenderRow>) => {
+    setTenders(prev => prev.map((tender, i) => (i === index ? { ...tender, ...changes } : tender)));
+  };
+
+  // Fill a tender with whatever is still left to pay
+  const fillRemaining = (index: number) => {
+    const others = tenders.reduce((sum, tender, i) => (i === index ? sum : sum + toMinor(tender.amount)), 0);
+    updateTender(index, { amount: (Math.max(0, dueMinor - others) / 100).toFixed(2) });
+  };
+
+  const handleTakePayment = async () => {
+    if (!counterCart) return;
+
+    const taken: OrderTender[] = tenders
+      .filter(tender => toMinor(tender.amount) > 0)
+      .map(tender => ({
+        method: tender.method,
+        amountMinor: toMinor(tender.amount),
+        ...(tender.method !== 'cash' && tender.reference.trim() && { reference: tender.reference.trim() })
+      }));
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const { order } = await cartAPI.counterCheckout(counterCart.deviceId, taken, pointsToRedeem || undefined);
+      setCompleted(order);
+      setCounterCart(null);
+      currentDevice.current = null;
+      setDeviceId('');
+    } catch (error: any) {
+      console.error('Error taking payment:', error);
+      setError(error.response?.data?.message || 'Failed to take payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">Counter</h1>
+        <p className="text-gray-600 mt-1">Take payment for a shopper's cart at the counter</p>
+      </div>
+
+      <form onSubmit={handleLookup} className="bg-white rounded-lg shadow p-4 mb-6 flex items-end space-x-4 max-w-xl">
+        <div className="flex-1">
+          <label htmlFor="deviceId" className="block text-sm font-medium text-gray-700 mb-1">Cart device ID</label>
+          <input
+            type="text"
+            id="deviceId"
+            value={deviceId}
+            onChange={e => setDeviceId(e.target.value)}
+            placeholder="e.g. cart_001"
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-md transition disabled:bg-gray-400"
+        >
+          {loading ? 'Looking up...' : 'Look up'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-100 text-red-700 p-4 rounded-md mb-6 max-w-3xl">
+          {error}
+        </div>
+      )}
+
+      {completed && (
+        <div className="bg-green-100 text-green-800 p-4 rounded-md mb-6 max-w-3xl">
+          <p className="font-medium">Order {completed.orderId} completed</p>
+          <ul className="mt-2 text-sm space-y-1">
+            {(completed.payment.tenders || []).map((tender, index) => (
+              <li key={index}>
+                {TENDER_METHOD_LABELS[tender.method]}: {formatMinor(tender.amountMinor)}
+                {tender.reference && <span className="font-mono"> ({tender.reference})</span>}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-2xl font-bold">Change: {formatMinor(completed.payment.changeMinor || 0)}</p>
+        </div>
+      )}
+
+      {counterCart && cart && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 max-w-5xl">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-1">
+              {counterCart.user ? counterCart.user.username : 'Unknown shopper'}
+            </h2>
+            <p className="text-sm text-gray-500 font-mono mb-4">{counterCart.deviceId}</p>
+
+            {cart.items.length === 0 ? (
+              <p className="text-gray-600">This cart is empty.</p>
+            ) : (
+              <div className="space-y-1">
+                {cart.items.map(item => (
+                  <div key={item.id} className="flex justify-between text-sm text-gray-700">
+                    <span>{formatQuantity(item, item.quantity)} × {item.name}</span>
+                    <span>{formatMinor(item.lineTotalMinor || 0)}</span>
+                  </div>
+                ))}
+                {cart.pricing.discountMinor > 0 && (
+                  <div className="flex justify-between text-sm text-green-600 pt-1">
+                    <span>Discounts</span>
+                    <span>-{formatMinor(cart.pricing.discountMinor)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-bold text-gray-800 border-t border-gray-200 pt-2 mt-2">
+                  <span>Total</span>
+                  <span>{formatMinor(cart.pricing.totalMinor)}</span>
+                </div>
+              </div>
+            )}
+
+            {cart.weightMismatch && (
+              <div className="mt-4 p-3 rounded-md bg-red-100 text-red-800 text-sm">
+                <p className="font-medium">Checkout on hold: {WEIGHT_STATUS_LABELS[cart.weightMismatch.status].toLowerCase()}</p>
+                <p className="mt-1">{describeWeightCheck(cart.weightMismatch)}. Check the cart and override it from the dashboard first.</p>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Payment</h2>
+
+            {loyalty && maxPoints > 0 && (
+              <div className="mb-4">
+                <label htmlFor="redeemPoints" className="block text-sm font-medium text-gray-700 mb-1">
+                  Pay with points ({loyalty.balance} available, up to {maxPoints})
+                </label>
+                <input
+                  type="number"
+                  id="redeemPoints"
+                  min="0"
+                  max={maxPoints}
+                  value={redeemPoints}
+                  onChange={e => setRedeemPoints(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {tenders.map((tender, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <select
+                    value={tender.method}
+                    onChange={e => updateTender(index, { method: e.target.value as TenderMethod })}
+                    className="px-2 py-2 border border-gray-300 rounded-md"
+                  >
+                    {(Object.keys(TENDER_METHOD_LABELS) as TenderMethod[]).map(method => (
+                      <option key={method} value={method}>{TENDER_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={tender.amount}
+                    onChange={e => updateTender(index, { amount: e.target.value })}
+                    placeholder="₹"
+                    className="w-28 px-2 py-2 border border-gray-300 rounded-md text-right"
+                  />
+                  {tender.method !== 'cash' && (
+                    <input
+                      type="text"
+                      value={tender.reference}
+                      onChange={e => updateTender(index, { reference: e.target.value })}
+                      placeholder={tender.method === 'upi' ? 'UPI ref.' : 'Approval code'}
+                      maxLength={100}
+                      className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                    />
+                  )}
+                  <button type="button" onClick={() => fillRemaining(index)} className="text-sm text-primary-600 hover:text-primary-900">
+                    Exact
+                  </button>
+                  {tenders.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setTenders(prev => prev.filter((_, i) => i !== index))}
+                      className="text-sm text-red-600 hover:text-red-900"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setTenders(prev => [...prev, NEW_TENDER])}
+                className="text-sm text-primary-600 hover:text-primary-900"
+              >
+                + Split with another tender
+              </button>
+            </div>
+
+            <div className="mt-6 border-t border-gray-200 pt-4 space-y-1">
+              {pointsMinor > 0 && (
+                <div className="flex justify-between text-sm text-green-600">
+                  <span>Paid with {pointsToRedeem} points</span>
+                  <span>-{formatMinor(pointsMinor)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-gray-700">
+                <span>Due</span>
+                <span>{formatMinor(dueMinor)}</span>
+              </div>
+              <div className="flex justify-between text-gray-700">
+                <span>Tendered</span>
+                <span>{formatMinor(tenderedMinor)}</span>
+              </div>
+              {leftMinor > 0 ? (
+                <div className="flex justify-between font-bold text-red-600">
+                  <span>Still to pay</span>
+                  <span>{formatMinor(leftMinor)}</span>
+                </div>
+              ) : (
+                <div className="flex justify-between text-xl font-bold text-gray-800">
+                  <span>Change</span>
+                  <span>{formatMinor(changeMinor)}</span>
+                </div>
+              )}
+            </div>
+
+            <button
+              onClick={handleTakePayment}
+              disabled={submitting || leftMinor > 0 || cart.items.length === 0 || !!cart.weightMismatch}
+              className="mt-6 w-full py-3 px-4 rounded-md text-white font-medium transition bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Taking payment...' : 'Take payment and complete order'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminCounter;
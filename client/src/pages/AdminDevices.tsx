@@ -0,0 +1,612 @@
+import React, { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { devicesAPI } from '../services/api.ts';
+import socketService from '../services/socket.ts';
+import { Device, DeviceTelemetry } from '../types/index.ts';
+import {
+  DEVICE_STATUS_LABELS,
+  DEVICE_STATUS_STYLES,
+  deviceWarnings,
+  formatUptime
+} from '../utils/devices.ts';
+
+interface DeviceFormData {
+  id: string;
+  label: string;
+  store: string;
+  firmwareVersion: string;
+}
+
+const emptyForm: DeviceFormData = { id: '', label: '', store: '', firmwareVersion: '' };
+
+const AdminDevices: React.FC = () => {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingDevice, setEditingDevice] = useState<Device | null>(null);
+  const [formData, setFormData] = useState<DeviceFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  // A newly issued secret, shown once so it can be flashed onto the cart
+  const [issuedSecret, setIssuedSecret] = useState<{ deviceId: string; secret: string } | null>(null);
+  const [telemetryDevice, setTelemetryDevice] = useState<Device | null>(null);
+  const [telemetryHistory, setTelemetryHistory] = useState<DeviceTelemetry[]>([]);
+  // Pairing code being shown as a QR code for shoppers to scan
+  const [pairing, setPairing] = useState<{ device: Device; code: string; expiresAt: string } | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Extract the server's message from an axios error
+  const errorMessage = (error: any, fallback: string) =>
+    error.response?.data?.message || error.message || fallback;
+
+  const loadDevices = async () => {
+    try {
+      setLoading(true);
+      const data = await devicesAPI.getAll();
+      setDevices(data);
+      setError(null);
+    } catch (error: any) {
+      console.error('Error fetching devices:', error);
+      setError(errorMessage(error, 'Failed to load devices'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Replace a device in the list, or add it if it is new
+  const upsertDevice = (updated: Device) => {
+    setDevices(prev =>
+      prev.some(device => device.id === updated.id)
+        ? prev.map(device => (device.id === updated.id ? updated : device))
+        : [...prev, updated]
+    );
+  };
+
+  // Fetch devices on mount and keep their status live from socket updates
+  useEffect(() => {
+    loadDevices();
+
+    const handleDeviceStatus = (data: { device: Device }) => {
+      upsertDevice(data.device);
+    };
+
+    socketService.on('device_status', handleDeviceStatus);
+
+    return () => {
+      socketService.off('device_status', handleDeviceStatus);
+    };
+  }, []);
+
+  const filteredDevices = devices.filter(device =>
+    [device.id, device.label, device.store]
+      .some(value => value?.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  const onlineCount = devices.filter(device => device.status === 'online').length;
+
+  // Open modal for registering a new device
+  const openAddModal = () => {
+    setEditingDevice(null);
+    setFormData(emptyForm);
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  // Open modal for editing a device's details
+  const openEditModal = (device: Device) => {
+    setEditingDevice(device);
+    setFormData({
+      id: device.id,
+      label: device.label || '',
+      store: device.store || '',
+      firmwareVersion: device.firmwareVersion || ''
+    });
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  // Handle form submission (register or update)
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (editingDevice) {
+        const { label, store, firmwareVersion } = formData;
+        const data = await devicesAPI.update(editingDevice.id, { label, store, firmwareVersion });
+        upsertDevice(data.device);
+      } else {
+        const data = await devicesAPI.create(formData);
+        upsertDevice(data.device);
+        setIssuedSecret({ deviceId: data.device.id, secret: data.secret });
+      }
+      closeModal();
+    } catch (error: any) {
+      console.error('Error saving device:', error);
+      setFormError(errorMessage(error, 'Failed to save device'));
+    }
+  };
+
+  // Issue a new secret; the cart must be reflashed before it can connect again
+  const handleRotateSecret = async (device: Device) => {
+    if (window.confirm(`Issue a new secret for ${device.id}? The cart will stop working until it is updated.`)) {
+      try {
+        const data = await devicesAPI.rotateSecret(device.id);
+        upsertDevice(data.device);
+        setIssuedSecret({ deviceId: device.id, secret: data.secret });
+      } catch (error: any) {
+        console.error('Error rotating secret:', error);
+        alert(errorMessage(error, 'Failed to rotate secret'));
+      }
+    }
+  };
+
+  // Block a lost or compromised device
+  const handleRevoke = async (device: Device) => {
+    if (window.confirm(`Revoke ${device.id}? It will no longer be able to scan products.`)) {
+      try {
+        const data = await devicesAPI.revoke(device.id);
+        upsertDevice(data.device);
+      } catch (error: any) {
+        console.error('Error revoking device:', error);
+        alert(errorMessage(error, 'Failed to revoke device'));
+      }
+    }
+  };
+
+  // Fetch a pairing code for a free cart and show it as a QR code
+  const showPairingCode = async (device: Device) => {
+    try {
+      const data = await devicesAPI.getPairingCode(device.id);
+      setPairing({ device, code: data.code, expiresAt: data.expiresAt });
+    } catch (error: any) {
+      console.error('Error getting pairing code:', error);
+      setPairing(null);
+      alert(errorMessage(error, 'Failed to get pairing code'));
+    }
+  };
+
+  // Count down to expiry and fetch a new code when the current one runs out
+  useEffect(() => {
+    if (!pairing) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pairing]);
+
+  const pairingSecondsLeft = pairing
+    ? Math.max(0, Math.ceil((new Date(pairing.expiresAt).getTime() - now) / 1000))
+    : 0;
+
+  useEffect(() => {
+    if (pairing && pairingSecondsLeft === 0) {
+      showPairingCode(pairing.device);
+    }
+  }, [pairing, pairingSecondsLeft]);
+
+  // Close the QR code once a shopper has claimed the cart
+  useEffect(() => {
+    const paired = devices.find(device => device.id === pairing?.device.id);
+    if (paired?.assignedUser) {
+      setPairing(null);
+    }
+  }, [devices, pairing]);
+
+  const pairingUrl = pairing
+    ? `${window.location.origin}/pair?device=${encodeURIComponent(pairing.device.id)}&code=${pairing.code}`
+    : '';
+
+  // Free a cart that a shopper left behind
+  const handleRelease = async (device: Device) => {
+    if (window.confirm(`Release ${device.id} from ${device.assignedUser?.username}? Their items stay in their online cart.`)) {
+      try {
+        const data = await devicesAPI.release(device.id);
+        upsertDevice(data.device);
+      } catch (error: any) {
+        console.error('Error releasing device:', error);
+        alert(errorMessage(error, 'Failed to release device'));
+      }
+    }
+  };
+
+  // Show the recent heartbeat readings of a device
+  const openTelemetryModal = async (device: Device) => {
+    try {
+      const data = await devicesAPI.getTelemetry(device.id);
+      setTelemetryHistory(data.history);
+      setTelemetryDevice(device);
+    } catch (error: any) {
+      console.error('Error fetching telemetry:', error);
+      alert(errorMessage(error, 'Failed to load telemetry'));
+    }
+  };
+
+  // Handle device deletion
+  const handleDelete = async (device: Device) => {
+    if (window.confirm(`Are you sure you want to delete ${device.id}?`)) {
+      try {
+        await devicesAPI.delete(device.id);
+        setDevices(prev => prev.filter(d => d.id !== device.id));
+      } catch (error: any) {
+        console.error('Error deleting device:', error);
+        alert(errorMessage(error, 'Failed to delete device'));
+      }
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">Device Fleet</h1>
+          <p className="text-gray-600 mt-1">
+            {onlineCount} of {devices.length} carts online
+          </p>
+        </div>
+
+        <div className="mt-4 md:mt-0">
+          <button
+            onClick={openAddModal}
+            className="bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-md flex items-center transition"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" />
+            </svg>
+            Register Device
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <input
+          type="text"
+          placeholder="Search devices..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full md:w-1/3 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-100 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      ) : filteredDevices.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <p className="text-gray-600">No devices found.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Device</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Firmware</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Health</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Seen</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned To</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredDevices.map(device => (
+                  <tr key={device.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{device.label || device.id}</div>
+                      {device.label && <div className="text-xs text-gray-500">{device.id}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-500">{device.store || '—'}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-500">{device.firmwareVersion || '—'}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${DEVICE_STATUS_STYLES[device.status]}`}>
+                        {DEVICE_STATUS_LABELS[device.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {device.telemetry ? (
+                        <div className="text-sm text-gray-500">
+                          {device.telemetry.batteryVoltage !== undefined && <div>{device.telemetry.batteryVoltage.toFixed(2)}V</div>}
+                          {device.telemetry.rssi !== undefined && <div>{device.telemetry.rssi} dBm</div>}
+                        </div>
+                      ) : (
+                        <div className="text-sm text-gray-500">—</div>
+                      )}
+                      {deviceWarnings(device).map(warning => (
+                        <div key={warning} className="text-xs text-yellow-700">{warning}</div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-500">
+                        {device.lastSeenAt ? new Date(device.lastSeenAt).toLocaleString() : 'Never'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-500">{device.assignedUser?.username || '—'}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {device.assignedUser ? (
+                        <button
+                          onClick={() => handleRelease(device)}
+                          className="text-primary-600 hover:text-primary-900 mr-3"
+                        >
+                          Release
+                        </button>
+                      ) : device.status !== 'revoked' && (
+                        <button
+                          onClick={() => showPairingCode(device)}
+                          className="text-primary-600 hover:text-primary-900 mr-3"
+                        >
+                          Pairing QR
+                        </button>
+                      )}
+                      <button
+                        onClick={() => openTelemetryModal(device)}
+                        className="text-primary-600 hover:text-primary-900 mr-3"
+                      >
+                        Telemetry
+                      </button>
+                      <button
+                        onClick={() => openEditModal(device)}
+                        className="text-primary-600 hover:text-primary-900 mr-3"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleRotateSecret(device)}
+                        className="text-primary-600 hover:text-primary-900 mr-3"
+                      >
+                        {device.status === 'revoked' ? 'Reinstate' : 'Rotate Secret'}
+                      </button>
+                      {device.status !== 'revoked' && (
+                        <button
+                          onClick={() => handleRevoke(device)}
+                          className="text-yellow-600 hover:text-yellow-900 mr-3"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(device)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Register/Edit Device Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-md">
+            <div className="p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-800">
+                  {editingDevice ? `Edit ${editingDevice.id}` : 'Register Device'}
+                </h2>
+                <button onClick={closeModal} className="text-gray-500 hover:text-gray-700">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {formError && (
+                <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4 text-sm">
+                  {formError}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit}>
+                <div className="space-y-4">
+                  {!editingDevice && (
+                    <div>
+                      <label htmlFor="id" className="block text-sm font-medium text-gray-700 mb-1">Device ID</label>
+                      <input
+                        type="text"
+                        id="id"
+                        name="id"
+                        value={formData.id}
+                        onChange={handleChange}
+                        required
+                        pattern="[a-zA-Z0-9_\-]{3,64}"
+                        placeholder="cart_001"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">Must match the deviceId flashed onto the cart</p>
+                    </div>
+                  )}
+
+                  <div>
+                    <label htmlFor="label" className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+                    <input
+                      type="text"
+                      id="label"
+                      name="label"
+                      value={formData.label}
+                      onChange={handleChange}
+                      maxLength={100}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="store" className="block text-sm font-medium text-gray-700 mb-1">Store</label>
+                    <input
+                      type="text"
+                      id="store"
+                      name="store"
+                      value={formData.store}
+                      onChange={handleChange}
+                      maxLength={100}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="firmwareVersion" className="block text-sm font-medium text-gray-700 mb-1">Firmware Version</label>
+                    <input
+                      type="text"
+                      id="firmwareVersion"
+                      name="firmwareVersion"
+                      value={formData.firmwareVersion}
+                      onChange={handleChange}
+                      maxLength={100}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">Updated automatically when the cart connects</p>
+                  </div>
+                </div>
+
+                <div className="mt-6 flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={closeModal}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-primary-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  >
+                    {editingDevice ? 'Save Changes' : 'Register Device'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Pairing QR Modal */}
+      {pairing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-sm">
+            <div className="p-6 text-center">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-800">Pair with {pairing.device.label || pairing.device.id}</h2>
+                <button onClick={() => setPairing(null)} className="text-gray-500 hover:text-gray-700">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              <div className="flex justify-center mb-4">
+                <QRCodeSVG value={pairingUrl} size={220} />
+              </div>
+              <p className="text-sm text-gray-600">Scan with a phone camera, or enter cart ID</p>
+              <p className="font-medium text-gray-800">{pairing.device.id}</p>
+              <p className="text-sm text-gray-600 mt-2">and pairing code</p>
+              <p className="font-mono text-3xl font-bold tracking-widest text-gray-800">{pairing.code}</p>
+              <p className="text-xs text-gray-500 mt-4">
+                New code in {Math.floor(pairingSecondsLeft / 60)}:{String(pairingSecondsLeft % 60).padStart(2, '0')}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Telemetry Modal */}
+      {telemetryDevice && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-2xl">
+            <div className="p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-800">Telemetry for {telemetryDevice.label || telemetryDevice.id}</h2>
+                <button onClick={() => setTelemetryDevice(null)} className="text-gray-500 hover:text-gray-700">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {telemetryHistory.length === 0 ? (
+                <p className="text-sm text-gray-500">No heartbeats received yet.</p>
+              ) : (
+                <div className="max-h-96 overflow-y-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                        <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Uptime</th>
+                        <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Battery</th>
+                        <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Wi-Fi</th>
+                        <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Free Heap</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {[...telemetryHistory].reverse().map(reading => (
+                        <tr key={reading.at}>
+                          <td className="px-4 py-2 text-sm text-gray-900">{new Date(reading.at).toLocaleTimeString()}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500">{reading.uptime !== undefined ? formatUptime(reading.uptime) : '—'}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500">{reading.batteryVoltage !== undefined ? `${reading.batteryVoltage.toFixed(2)}V` : '—'}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500">{reading.rssi !== undefined ? `${reading.rssi} dBm` : '—'}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500">{reading.freeHeap !== undefined ? `${(reading.freeHeap / 1024).toFixed(1)} KB` : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Device Secret Modal */}
+      {issuedSecret && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-md">
+            <div className="p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Secret for {issuedSecret.deviceId}</h2>
+              <p className="text-sm text-gray-600 mb-3">
+                Copy this into <code>deviceSecret</code> in the cart firmware. It will not be shown again.
+              </p>
+              <div className="bg-gray-100 p-3 rounded-md font-mono text-sm break-all select-all">
+                {issuedSecret.secret}
+              </div>
+
+              <div className="mt-6 flex justify-end">
+                <button
+                  onClick={() => setIssuedSecret(null)}
+                  className="px-4 py-2 bg-primary-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminDevices;
@@ -2,15 +2,31 @@ import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useProducts } from '../context/ProductContext.tsx';
 import socketService from '../services/socket.ts';
+import { cartAPI, devicesAPI } from '../services/api.ts';
+import { useAuth } from '../context/AuthContext.tsx';
+import { Device, WeightAlert } from '../types/index.ts';
+import { hasPermission } from '../utils/permissions.ts';
+import { DEVICE_STATUS_LABELS, deviceWarnings } from '../utils/devices.ts';
+import { WEIGHT_STATUS_LABELS, describeWeightCheck } from '../utils/weight.ts';
+import { formatStock, isSoldByWeight } from '../utils/units.ts';
 
 const AdminHome: React.FC = () => {
   const { products, loading, error } = useProducts();
+  const { authState } = useAuth();
+  const role = authState.user?.role;
   const [socketStatus, setSocketStatus] = useState<'connected' | 'disconnected'>('disconnected');
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const canManageDevices = hasPermission(role, 'devices:manage');
+  const [devices, setDevices] = useState<Device[]>([]);
+  const canOverrideWeight = hasPermission(role, 'carts:override');
+  const [weightAlerts, setWeightAlerts] = useState<WeightAlert[]>([]);
 
   // Calculate dashboard metrics
   const totalProducts = products.length;
-  const totalInventory = products.reduce((sum, product) => sum + product.quantity, 0);
+  // Stock of products sold by weight is in kg, so it is not counted as units
+  const totalInventory = products
+    .filter(product => !isSoldByWeight(product))
+    .reduce((sum, product) => sum + product.quantity, 0);
   const lowStockItems = products.filter(product => product.quantity > 0 && product.quantity <= 5).length;
   const outOfStockItems = products.filter(product => product.quantity === 0).length;
   const totalValue = products.reduce((sum, product) => sum + (product.price * product.quantity), 0);
@@ -47,6 +63,71 @@ const AdminHome: React.FC = () => {
     };
   }, []);
 
+  // Load the device fleet and follow heartbeats and connection changes
+  useEffect(() => {
+    if (!canManageDevices) return;
+
+    devicesAPI.getAll()
+      .then(setDevices)
+      .catch(error => console.error('Error fetching devices:', error));
+
+    const handleDeviceStatus = (data: { device: Device }) => {
+      setDevices(prev =>
+        prev.some(device => device.id === data.device.id)
+          ? prev.map(device => (device.id === data.device.id ? data.device : device))
+          : [...prev, data.device]
+      );
+      setLastUpdated(new Date());
+    };
+
+    socketService.on('device_status', handleDeviceStatus);
+
+    return () => {
+      socketService.off('device_status', handleDeviceStatus);
+    };
+  }, [canManageDevices]);
+
+  // Load carts held by their load cell and refresh when a new one is flagged
+  // or a cart changes, e.g. after another staff member overrides it
+  useEffect(() => {
+    if (!canOverrideWeight) return;
+
+    const loadWeightAlerts = () => {
+      cartAPI.getWeightMismatches()
+        .then(setWeightAlerts)
+        .catch(error => console.error('Error fetching weight alerts:', error));
+    };
+
+    loadWeightAlerts();
+    socketService.on('weight_mismatch', loadWeightAlerts);
+    socketService.on('cart_updated', loadWeightAlerts);
+
+    return () => {
+      socketService.off('weight_mismatch', loadWeightAlerts);
+      socketService.off('cart_updated', loadWeightAlerts);
+    };
+  }, [canOverrideWeight]);
+
+  // Let a held cart check out after staff have looked at its contents
+  const handleOverrideWeight = async (alert: WeightAlert) => {
+    const note = window.prompt(
+      `Override the weight check for ${alert.username || alert.userId}'s cart? Add a note (optional):`
+    );
+    if (note === null) return;
+
+    try {
+      await cartAPI.overrideWeight(alert.userId, note.trim() || undefined);
+      setWeightAlerts(prev => prev.filter(item => item.userId !== alert.userId));
+    } catch (error: any) {
+      console.error('Error overriding weight check:', error);
+      window.alert(error.response?.data?.message || 'Failed to override weight check');
+    }
+  };
+
+  const countByStatus = (status: Device['status']) =>
+    devices.filter(device => device.status === status).length;
+  const devicesNeedingAttention = devices.filter(device => deviceWarnings(device).length > 0);
+
   // Recent low stock products
   const recentLowStockProducts = products
     .filter(product => product.quantity <= 5)
@@ -72,8 +153,70 @@ const AdminHome: React.FC = () => {
             {socketStatus === 'connected' ? 'System Online' : 'System Offline'}
           </span>
         </div>
+
+        {canManageDevices && (
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="font-medium text-gray-700">Carts:</span>
+              <span className="text-green-600">{countByStatus('online')} {DEVICE_STATUS_LABELS.online.toLowerCase()}</span>
+              <span className="text-yellow-600">{countByStatus('stale')} {DEVICE_STATUS_LABELS.stale.toLowerCase()}</span>
+              <span className="text-gray-500">{countByStatus('offline')} {DEVICE_STATUS_LABELS.offline.toLowerCase()}</span>
+              <Link to="/admin/devices" className="text-primary-600 hover:text-primary-700 font-medium">
+                Manage devices →
+              </Link>
+            </div>
+
+            {devicesNeedingAttention.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {devicesNeedingAttention.map(device => (
+                  <li key={device.id} className="flex items-center space-x-2 text-sm">
+                    <div className="w-2 h-2 rounded-full bg-yellow-500"></div>
+                    <span className="font-medium text-gray-800">{device.label || device.id}</span>
+                    <span className="text-gray-500">{deviceWarnings(device).join(', ')}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
       
+      {canOverrideWeight && (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden mb-8">
+          <div className="bg-red-50 px-6 py-4 border-b border-red-100">
+            <h3 className="text-lg font-semibold text-gray-800">Weight Alerts</h3>
+          </div>
+          <div className="p-6">
+            {weightAlerts.length > 0 ? (
+              <div className="divide-y divide-gray-200">
+                {weightAlerts.map(alert => (
+                  <div key={alert.userId} className="py-3 flex justify-between items-center">
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-800">
+                        {WEIGHT_STATUS_LABELS[alert.mismatch.status]}
+                      </h4>
+                      <p className="text-xs text-gray-500">
+                        {alert.username || `User ${alert.userId}`}
+                        {alert.deviceId && ` on ${alert.deviceId}`} · {describeWeightCheck(alert.mismatch)} ·{' '}
+                        {new Date(alert.mismatch.checkedAt).toLocaleTimeString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleOverrideWeight(alert)}
+                      className="text-sm bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded-md transition"
+                    >
+                      Override
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No carts are held for a weight check.</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Dashboard Summary */}
       <div className="mb-8">
         <h2 className="text-xl font-semibold text-gray-800 mb-4">Inventory Overview</h2>
@@ -164,7 +307,7 @@ const AdminHome: React.FC = () => {
                           ? 'bg-red-100 text-red-800' 
                           : 'bg-yellow-100 text-yellow-800'
                       }`}>
-                        {product.quantity} units
+                        {formatStock(product, product.quantity)}
                       </span>
                     </div>
                   </div>
@@ -188,6 +331,7 @@ const AdminHome: React.FC = () => {
           </div>
           <div className="p-6">
             <div className="grid grid-cols-2 gap-4">
+              {hasPermission(role, 'products:write', 'inventory:adjust') && (
               <Link to="/admin/products" className="bg-white border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition flex flex-col items-center text-center">
                 <div className="p-3 rounded-full bg-blue-100 mb-3">
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -197,7 +341,9 @@ const AdminHome: React.FC = () => {
                 <h4 className="font-medium text-gray-800">Manage Products</h4>
                 <p className="text-xs text-gray-500 mt-1">Add, edit, or remove products</p>
               </Link>
+              )}
               
+              {hasPermission(role, 'devices:manage') && (
               <Link to="/admin/simulator" className="bg-white border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition flex flex-col items-center text-center">
                 <div className="p-3 rounded-full bg-green-100 mb-3">
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -207,6 +353,7 @@ const AdminHome: React.FC = () => {
                 <h4 className="font-medium text-gray-800">RFID Simulator</h4>
                 <p className="text-xs text-gray-500 mt-1">Test RFID scanning</p>
               </Link>
+              )}
               
               <div className="bg-white border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition flex flex-col items-center text-center">
                 <div className="p-3 rounded-full bg-purple-100 mb-3">
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext.tsx';
+import { loyaltyAPI } from '../services/api.ts';
+import { LoyaltySettings } from '../types/index.ts';
+import { hasPermission } from '../utils/permissions.ts';
+
+interface SettingsFormData {
+  earnRate: string;
+  burnRate: string;
+  maxRedeemPercent: string;
+}
+
+const AdminLoyalty: React.FC = () => {
+  const { authState } = useAuth();
+  const [formData, setFormData] = useState<SettingsFormData>({ earnRate: '', burnRate: '', maxRedeemPercent: '' });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [reverseOrderId, setReverseOrderId] = useState('');
+  const [reverseNote, setReverseNote] = useState('');
+  const [reverseResult, setReverseResult] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const canReverse = hasPermission(authState.user?.role, 'orders:refund');
+
+  // Extract the server's message from an axios error
+  const errorMessage = (error: any, fallback: string) =>
+    error.response?.data?.message || error.message || fallback;
+
+  const fillForm = (settings: LoyaltySettings) => {
+    setFormData({
+      earnRate: String(settings.earnRate),
+      burnRate: String(settings.burnRate),
+      maxRedeemPercent: String(settings.maxRedeemPercent)
+    });
+  };
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        fillForm(await loyaltyAPI.getSettings());
+      } catch (error: any) {
+        console.error('Error fetching loyalty settings:', error);
+        setError(errorMessage(error, 'Failed to load loyalty settings'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    try {
+      const data = await loyaltyAPI.updateSettings({
+        earnRate: parseFloat(formData.earnRate),
+        burnRate: parseFloat(formData.burnRate),
+        maxRedeemPercent: parseFloat(formData.maxRedeemPercent)
+      });
+      fillForm(data.settings);
+      setError(null);
+      setMessage(data.message);
+    } catch (error: any) {
+      console.error('Error saving loyalty settings:', error);
+      setError(errorMessage(error, 'Failed to save loyalty settings'));
+    }
+  };
+
+  // Take back the points of an order refunded outside the app
+  const handleReverse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const orderId = reverseOrderId.trim();
+    if (!orderId) return;
+
+    if (!window.confirm(`Reverse all points for order ${orderId}?`)) return;
+
+    try {
+      const data = await loyaltyAPI.reverseOrder(orderId, reverseNote.trim() || undefined);
+      setReverseResult({ ok: true, text: data.message });
+      setReverseOrderId('');
+      setReverseNote('');
+    } catch (error: any) {
+      console.error('Error reversing points:', error);
+      setReverseResult({ ok: false, text: errorMessage(error, 'Failed to reverse points') });
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">Loyalty</h1>
+        <p className="text-gray-600 mt-1">Set how customers earn and spend points</p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-medium text-gray-800 mb-4">Rates</h2>
+
+            {error && (
+              <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4 text-sm">
+                {error}
+              </div>
+            )}
+            {message && (
+              <div className="bg-green-100 text-green-800 p-3 rounded-md mb-4 text-sm">
+                {message}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="earnRate" className="block text-sm font-medium text-gray-700 mb-1">Points earned per ₹100 paid</label>
+                <input
+                  type="number"
+                  id="earnRate"
+                  name="earnRate"
+                  value={formData.earnRate}
+                  onChange={handleChange}
+                  min="0"
+                  max="100"
+                  step="any"
+                  required
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">0 stops customers earning points</p>
+              </div>
+
+              <div>
+                <label htmlFor="burnRate" className="block text-sm font-medium text-gray-700 mb-1">Value of one point (₹)</label>
+                <input
+                  type="number"
+                  id="burnRate"
+                  name="burnRate"
+                  value={formData.burnRate}
+                  onChange={handleChange}
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  required
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">0 stops customers paying with points</p>
+              </div>
+
+              <div>
+                <label htmlFor="maxRedeemPercent" className="block text-sm font-medium text-gray-700 mb-1">Most of an order points can pay for (%)</label>
+                <input
+                  type="number"
+                  id="maxRedeemPercent"
+                  name="maxRedeemPercent"
+                  value={formData.maxRedeemPercent}
+                  onChange={handleChange}
+                  min="0"
+                  max="100"
+                  step="any"
+                  required
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-md transition"
+                >
+                  Save Rates
+                </button>
+              </div>
+            </form>
+          </div>
+
+          {canReverse && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-xl font-medium text-gray-800 mb-1">Reverse Order Points</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Takes back the points an order earned and returns any points spent on it. Use this for orders refunded outside the app.
+              </p>
+
+              {reverseResult && (
+                <div className={`p-3 rounded-md mb-4 text-sm ${
+                  reverseResult.ok ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-700'
+                }`}>
+                  {reverseResult.text}
+                </div>
+              )}
+
+              <form onSubmit={handleReverse} className="space-y-4">
+                <div>
+                  <label htmlFor="reverseOrderId" className="block text-sm font-medium text-gray-700 mb-1">Order ID</label>
+                  <input
+                    type="text"
+                    id="reverseOrderId"
+                    value={reverseOrderId}
+                    onChange={(e) => setReverseOrderId(e.target.value)}
+                    required
+                    className={`${inputClass} font-mono`}
+                    placeholder="e.g. order_9b2f6c1e-4d3a-4b8e-a1f7-2c5d8e9f0a1b"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="reverseNote" className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+                  <input
+                    type="text"
+                    id="reverseNote"
+                    value={reverseNote}
+                    onChange={(e) => setReverseNote(e.target.value)}
+                    className={inputClass}
+                    placeholder="Optional, shown in the customer's history"
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={!reverseOrderId.trim()}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition disabled:bg-gray-400"
+                  >
+                    Reverse Points
+                  </button>
+                </div>
+              </form>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminLoyalty;
@@ -0,0 +1,358 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../context/AuthContext.tsx';
+import { ordersAPI } from '../services/api.ts';
+import socketService from '../services/socket.ts';
+import RefundOrderModal from '../components/RefundOrderModal.tsx';
+import { Order, OrderStatus } from '../types/index.ts';
+import { formatMinor } from '../utils/money.ts';
+import { formatQuantity } from '../utils/units.ts';
+import { hasPermission } from '../utils/permissions.ts';
+import {
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_STYLES,
+  PAYMENT_METHOD_LABELS,
+  REFUNDABLE_STATUSES,
+  REFUND_SOURCE_LABELS,
+  STAFF_TRANSITIONS,
+  STATUS_ACTION_LABELS,
+  TENDER_METHOD_LABELS
+} from '../utils/orders.ts';
+
+interface OrderFilterForm {
+  status: OrderStatus | '';
+  deviceId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: OrderFilterForm = { status: '', deviceId: '', from: '', to: '' };
+
+const AdminOrders: React.FC = () => {
+  const { authState } = useAuth();
+  const canManage = hasPermission(authState.user?.role, 'orders:manage');
+  const canRefund = hasPermission(authState.user?.role, 'orders:refund');
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [filters, setFilters] = useState<OrderFilterForm>(EMPTY_FILTERS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [refunding, setRefunding] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The filters the current list was loaded with, for refreshing it
+  const appliedFilters = useRef<OrderFilterForm>(EMPTY_FILTERS);
+
+  // Dates are picked as whole days, so "to" runs to the end of its day
+  const loadOrders = async (form: OrderFilterForm, showSpinner = true) => {
+    const params: Record<string, string> = {};
+    if (form.status) params.status = form.status;
+    if (form.deviceId.trim()) params.deviceId = form.deviceId.trim();
+    if (form.from) params.from = new Date(`${form.from}T00:00:00`).toISOString();
+    if (form.to) params.to = new Date(`${form.to}T23:59:59.999`).toISOString();
+
+    appliedFilters.current = form;
+    if (showSpinner) setLoading(true);
+    try {
+      setOrders(await ordersAPI.getAll(params));
+      setError(null);
+    } catch (error: any) {
+      console.error('Error fetching orders:', error);
+      setError(error.response?.data?.message || 'Failed to load orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadOrders(EMPTY_FILTERS);
+
+    // Keep the list current as orders are paid, checked out and refunded
+    const handleOrderUpdated = () => loadOrders(appliedFilters.current, false);
+    socketService.on('order_updated', handleOrderUpdated);
+
+    return () => {
+      socketService.off('order_updated', handleOrderUpdated);
+    };
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadOrders(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS);
+    loadOrders(EMPTY_FILTERS);
+  };
+
+  const handleStatusChange = async (order: Order, status: OrderStatus) => {
+    const note = window.prompt(
+      `Mark order ${order.orderId} as ${ORDER_STATUS_LABELS[status].toLowerCase()}? Add a note (optional):`
+    );
+    if (note === null) return;
+
+    try {
+      const { order: updated } = await ordersAPI.updateStatus(order.orderId, status, note.trim() || undefined);
+      setOrders(prev => prev.map(item => (item.orderId === updated.orderId ? updated : item)));
+    } catch (error: any) {
+      console.error('Error updating order status:', error);
+      window.alert(error.response?.data?.message || 'Failed to update order status');
+    }
+  };
+
+  const handleRefunded = (updated: Order) => {
+    setOrders(prev => prev.map(item => (item.orderId === updated.orderId ? updated : item)));
+    setRefunding(null);
+    setExpandedId(updated.orderId);
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">Orders</h1>
+        <p className="text-gray-600 mt-1">Every checkout, with how it was paid and which cart it came from</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-4 mb-6 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <div>
+          <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+          <select id="status" name="status" value={filters.status} onChange={handleChange} className={inputClass}>
+            <option value="">All</option>
+            {(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map(status => (
+              <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="deviceId" className="block text-sm font-medium text-gray-700 mb-1">Device ID</label>
+          <input
+            type="text"
+            id="deviceId"
+            name="deviceId"
+            value={filters.deviceId}
+            onChange={handleChange}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div>
+          <label htmlFor="from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input type="date" id="from" name="from" value={filters.from} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input type="date" id="to" name="to" value={filters.to} onChange={handleChange} className={inputClass} />
+        </div>
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-md transition"
+          >
+            Filter
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-md transition"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="bg-red-100 text-red-700 p-4 rounded-md mb-6">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          {orders.length === 0 ? (
+            <p className="p-6 text-gray-600">No orders match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Device</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                    <th scope="col" className="relative px-6 py-3"><span className="sr-only">Actions</span></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {orders.map(order => (
+                    <React.Fragment key={order.orderId}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(order.date).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">{order.orderId}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{order.username || order.userId}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">{order.deviceId || '-'}</td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${ORDER_STATUS_STYLES[order.status]}`}>
+                            {ORDER_STATUS_LABELS[order.status]}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {PAYMENT_METHOD_LABELS[order.payment.method]}
+                          {order.payment.paymentId && (
+                            <span className="block text-xs font-mono text-gray-500">{order.payment.paymentId}</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                          {formatMinor(order.pricing.totalMinor)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                          {canManage && STAFF_TRANSITIONS[order.status].map(status => (
+                            <button
+                              key={status}
+                              onClick={() => handleStatusChange(order, status)}
+                              className={status === 'cancelled' ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}
+                            >
+                              {STATUS_ACTION_LABELS[status]}
+                            </button>
+                          ))}
+                          {canRefund && REFUNDABLE_STATUSES.includes(order.status) && (
+                            <button
+                              onClick={() => setRefunding(order)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Refund
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setExpandedId(expandedId === order.orderId ? null : order.orderId)}
+                            className="text-primary-600 hover:text-primary-900"
+                          >
+                            {expandedId === order.orderId ? 'Hide details' : `${order.items.length} items`}
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedId === order.orderId && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={8} className="px-6 py-4">
+                            <div className="space-y-1 max-w-xl">
+                              {order.items.map(item => (
+                                <div key={item.id} className="flex justify-between text-sm text-gray-700">
+                                  <span>{formatQuantity(item, item.quantity)} × {item.name}</span>
+                                  <span>{item.lineTotalMinor !== undefined ? formatMinor(item.lineTotalMinor) : `₹${(item.price * item.quantity).toFixed(2)}`}</span>
+                                </div>
+                              ))}
+                              {order.loyalty && order.loyalty.pointsRedeemed > 0 && (
+                                <div className="flex justify-between text-sm text-green-600 pt-1">
+                                  <span>Paid with {order.loyalty.pointsRedeemed} points</span>
+                                  <span>-{formatMinor(order.loyalty.redeemedMinor)}</span>
+                                </div>
+                              )}
+                            </div>
+                            {order.payment.tenders && (
+                              <div className="mt-4 max-w-xl">
+                                <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
+                                  Paid at the counter{order.payment.takenBy && ` by ${order.payment.takenBy.username}`}
+                                </h3>
+                                {order.payment.tenders.map((tender, index) => (
+                                  <div key={index} className="flex justify-between text-sm text-gray-700">
+                                    <span>
+                                      {TENDER_METHOD_LABELS[tender.method]}
+                                      {tender.reference && <span className="font-mono text-gray-500"> {tender.reference}</span>}
+                                    </span>
+                                    <span>{formatMinor(tender.amountMinor)}</span>
+                                  </div>
+                                ))}
+                                {(order.payment.changeMinor || 0) > 0 && (
+                                  <div className="flex justify-between text-sm text-gray-500">
+                                    <span>Change given</span>
+                                    <span>-{formatMinor(order.payment.changeMinor || 0)}</span>
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                            {order.refunds && order.refunds.length > 0 && (
+                              <div className="mt-4 max-w-xl">
+                                <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
+                                  Refunds ({formatMinor(order.refundedMinor || 0)} of {formatMinor(order.payment.amountMinor)})
+                                </h3>
+                                <ol className="space-y-2">
+                                  {order.refunds.map(refund => (
+                                    <li key={refund.refundId} className="text-sm text-gray-700">
+                                      <div className="flex justify-between">
+                                        <span>
+                                          <span className="text-gray-500">{new Date(refund.at).toLocaleString()}</span>
+                                          {' · '}
+                                          {REFUND_SOURCE_LABELS[refund.source] || refund.source}
+                                          {refund.by && <span className="text-gray-500"> by {refund.by.username}</span>}
+                                        </span>
+                                        <span className="font-medium">{formatMinor(refund.amountMinor)}</span>
+                                      </div>
+                                      {refund.lines && (
+                                        <div className="text-gray-500">
+                                          {refund.lines.map(line => {
+                                            const item = order.items.find(entry => entry.id === line.id);
+                                            return `${item ? formatQuantity(item, line.quantity) : line.quantity} × ${line.name}`;
+                                          }).join(', ')}
+                                          {!refund.restock && ' (not restocked)'}
+                                        </div>
+                                      )}
+                                      {refund.reason && <div className="text-gray-500">Reason: {refund.reason}</div>}
+                                      <div className="text-xs font-mono text-gray-400">{refund.refundId}</div>
+                                    </li>
+                                  ))}
+                                </ol>
+                              </div>
+                            )}
+                            {order.statusHistory && order.statusHistory.length > 0 && (
+                              <div className="mt-4 max-w-xl">
+                                <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">History</h3>
+                                <ol className="space-y-1">
+                                  {order.statusHistory.map((change, index) => (
+                                    <li key={index} className="text-sm text-gray-700">
+                                      <span className="text-gray-500">{new Date(change.at).toLocaleString()}</span>
+                                      {' · '}
+                                      {ORDER_STATUS_LABELS[change.status]}
+                                      {change.by && <span className="text-gray-500"> by {change.by.username}</span>}
+                                      {change.note && <span className="text-gray-500"> ({change.note})</span>}
+                                    </li>
+                                  ))}
+                                </ol>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {refunding && (
+        <RefundOrderModal
+          order={refunding}
+          onRefunded={handleRefunded}
+          onClose={() => setRefunding(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminOrders;
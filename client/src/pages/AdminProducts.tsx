@@ -1,6 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { useProducts } from '../context/ProductContext.tsx';
+import { useAuth } from '../context/AuthContext.tsx';
+import { hasPermission } from '../utils/permissions.ts';
 import ProductCard from '../components/ProductCard.tsx';
+import { GST_RATES, DEFAULT_GST_RATE } from '../utils/tax.ts';
+import { categoriesOf } from '../utils/products.ts';
+import { formatStock, formatUnitPrice, isSoldByWeight } from '../utils/units.ts';
+import { SoldBy } from '../types/index.ts';
 
 interface ProductFormData {
   id?: string;
@@ -8,19 +14,28 @@ interface ProductFormData {
   price: string;
   rfidTag: string;
   quantity: string;
+  soldBy: SoldBy;
   weight: string;
+  category: string;
+  hsnCode: string;
+  gstRate: string;
+  priceIncludesTax: boolean;
   image?: string;
 }
 
 interface InventoryUpdate {
   id: string;
   name: string;
+  soldBy?: SoldBy;
   currentQuantity: number;
   newQuantity: number;
 }
 
 const AdminProducts: React.FC = () => {
   const { products, loading, error, getProducts, addProduct, updateProduct, deleteProduct } = useProducts();
+  const { authState } = useAuth();
+  // Inventory clerks can only adjust stock levels
+  const canWriteProducts = hasPermission(authState.user?.role, 'products:write');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isBatchUpdateModalOpen, setBatchUpdateModalOpen] = useState(false);
   const [formData, setFormData] = useState<ProductFormData>({
@@ -28,7 +43,12 @@ const AdminProducts: React.FC = () => {
     price: '',
     rfidTag: '',
     quantity: '',
+    soldBy: 'unit',
     weight: '',
+    category: '',
+    hsnCode: '',
+    gstRate: String(DEFAULT_GST_RATE),
+    priceIncludesTax: true,
     image: ''
   });
   const [isEditing, setIsEditing] = useState(false);
@@ -57,9 +77,12 @@ const AdminProducts: React.FC = () => {
       return true;
     });
 
+  const productCategories = categoriesOf(products);
+
   // Handle form input changes
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, files } = e.target;
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    const { files, checked, type } = e.target as HTMLInputElement;
     
     // Handle file input separately
     if (name === 'imageUpload' && files && files.length > 0) {
@@ -69,6 +92,8 @@ const AdminProducts: React.FC = () => {
       // Create a preview URL
       const previewUrl = URL.createObjectURL(file);
       setImagePreview(previewUrl);
+    } else if (type === 'checkbox') {
+      setFormData(prev => ({ ...prev, [name]: checked }));
     } else {
       // Handle text inputs
       setFormData(prev => ({ ...prev, [name]: value }));
@@ -80,12 +105,19 @@ const AdminProducts: React.FC = () => {
     e.preventDefault();
     
     try {
+      // Products sold by weight are priced per kg and stocked in kg
+      const soldByWeight = isSoldByWeight(formData);
       const productData = {
         name: formData.name,
         price: parseFloat(formData.price),
         rfidTag: formData.rfidTag,
-        quantity: parseInt(formData.quantity),
-        weight: formData.weight ? parseFloat(formData.weight) : undefined,
+        soldBy: formData.soldBy,
+        quantity: soldByWeight ? parseFloat(formData.quantity) : parseInt(formData.quantity),
+        weight: !soldByWeight && formData.weight ? parseFloat(formData.weight) : undefined,
+        category: formData.category,
+        hsnCode: formData.hsnCode,
+        gstRate: parseFloat(formData.gstRate),
+        priceIncludesTax: formData.priceIncludesTax,
         image: formData.image
       };
       
@@ -188,7 +220,12 @@ const AdminProducts: React.FC = () => {
       price: '',
       rfidTag: '',
       quantity: '',
+      soldBy: 'unit',
       weight: '',
+      category: '',
+      hsnCode: '',
+      gstRate: String(DEFAULT_GST_RATE),
+      priceIncludesTax: true,
       image: ''
     });
     setIsEditing(false);
@@ -205,7 +242,12 @@ const AdminProducts: React.FC = () => {
       price: product.price.toString(),
       rfidTag: product.rfidTag,
       quantity: product.quantity.toString(),
+      soldBy: product.soldBy || 'unit',
       weight: product.weight ? product.weight.toString() : '',
+      category: product.category || '',
+      hsnCode: product.hsnCode || '',
+      gstRate: String(product.gstRate ?? DEFAULT_GST_RATE),
+      priceIncludesTax: product.priceIncludesTax !== false,
       image: product.image || ''
     });
     setIsEditing(true);
@@ -224,6 +266,7 @@ const AdminProducts: React.FC = () => {
     const updates = products.map(product => ({
       id: product.id,
       name: product.name,
+      soldBy: product.soldBy,
       currentQuantity: product.quantity,
       newQuantity: product.quantity
     }));
@@ -317,6 +360,7 @@ const AdminProducts: React.FC = () => {
             </svg>
             Batch Update
           </button>
+        {canWriteProducts && (
         <button
           onClick={openAddModal}
             className="bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-md flex items-center transition"
@@ -326,6 +370,7 @@ const AdminProducts: React.FC = () => {
           </svg>
           Add Product
         </button>
+        )}
         </div>
       </div>
       
@@ -430,7 +475,7 @@ const AdminProducts: React.FC = () => {
                       <div className="text-sm text-gray-500">{product.rfidTag}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">${product.price.toFixed(2)}</div>
+                      <div className="text-sm text-gray-900">{formatUnitPrice(product)}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
@@ -440,22 +485,26 @@ const AdminProducts: React.FC = () => {
                             ? 'bg-yellow-100 text-yellow-800' 
                             : 'bg-green-100 text-green-800'
                       }`}>
-                        {product.quantity} units
+                        {formatStock(product, product.quantity)}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <button 
-                        onClick={() => openEditModal(product)}
-                        className="text-primary-600 hover:text-primary-900 mr-3"
-                      >
-                        Edit
-                      </button>
-                      <button 
-                        onClick={() => handleDelete(product.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        Delete
-                      </button>
+                      {canWriteProducts && (
+                        <>
+                          <button 
+                            onClick={() => openEditModal(product)}
+                            className="text-primary-600 hover:text-primary-900 mr-3"
+                          >
+                            Edit
+                          </button>
+                          <button 
+                            onClick={() => handleDelete(product.id)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -470,8 +519,8 @@ const AdminProducts: React.FC = () => {
             <ProductCard
               key={product.id}
               product={product}
-              onEdit={openEditModal}
-              onDelete={handleDelete}
+              onEdit={canWriteProducts ? openEditModal : undefined}
+              onDelete={canWriteProducts ? handleDelete : undefined}
             />
           ))}
         </div>
@@ -509,7 +558,23 @@ const AdminProducts: React.FC = () => {
                   </div>
                   
                   <div>
-                    <label htmlFor="price" className="block text-sm font-medium text-gray-700 mb-1">Price (₹)</label>
+                    <label htmlFor="soldBy" className="block text-sm font-medium text-gray-700 mb-1">Sold By</label>
+                    <select
+                      id="soldBy"
+                      name="soldBy"
+                      value={formData.soldBy}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    >
+                      <option value="unit">Unit</option>
+                      <option value="weight">Weight (per kg)</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label htmlFor="price" className="block text-sm font-medium text-gray-700 mb-1">
+                      {isSoldByWeight(formData) ? 'Price per kg (₹)' : 'Price (₹)'}
+                    </label>
                     <input
                       type="number"
                       id="price"
@@ -523,6 +588,49 @@ const AdminProducts: React.FC = () => {
                     />
                   </div>
                   
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="gstRate" className="block text-sm font-medium text-gray-700 mb-1">GST Rate</label>
+                      <select
+                        id="gstRate"
+                        name="gstRate"
+                        value={formData.gstRate}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        {GST_RATES.map(rate => (
+                          <option key={rate} value={rate}>{rate}%</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="hsnCode" className="block text-sm font-medium text-gray-700 mb-1">HSN Code</label>
+                      <input
+                        type="text"
+                        id="hsnCode"
+                        name="hsnCode"
+                        value={formData.hsnCode}
+                        onChange={handleChange}
+                        pattern="\d{4}(\d{2}){0,2}"
+                        title="4, 6 or 8 digits"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        placeholder="e.g. 0401"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="priceIncludesTax"
+                      name="priceIncludesTax"
+                      checked={formData.priceIncludesTax}
+                      onChange={handleChange}
+                      className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                    />
+                    <label htmlFor="priceIncludesTax" className="ml-2 text-sm text-gray-700">Price includes GST</label>
+                  </div>
+                  
                   <div>
                     <label htmlFor="rfidTag" className="block text-sm font-medium text-gray-700 mb-1">RFID Tag</label>
                     <input
@@ -537,7 +645,9 @@ const AdminProducts: React.FC = () => {
                   </div>
                   
                   <div>
-                    <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+                    <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-1">
+                      {isSoldByWeight(formData) ? 'Quantity (kg)' : 'Quantity'}
+                    </label>
                     <input
                       type="number"
                       id="quantity"
@@ -546,22 +656,44 @@ const AdminProducts: React.FC = () => {
                       onChange={handleChange}
                       required
                       min="0"
+                      step={isSoldByWeight(formData) ? '0.001' : '1'}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
                     />
                   </div>
                   
+                  {!isSoldByWeight(formData) && (
+                    <div>
+                      <label htmlFor="weight" className="block text-sm font-medium text-gray-700 mb-1">Weight (grams)</label>
+                      <input
+                        type="number"
+                        id="weight"
+                        name="weight"
+                        value={formData.weight}
+                        onChange={handleChange}
+                        min="0"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        placeholder="Product weight in grams"
+                      />
+                    </div>
+                  )}
+                  
                   <div>
-                    <label htmlFor="weight" className="block text-sm font-medium text-gray-700 mb-1">Weight (grams)</label>
+                    <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">Category</label>
                     <input
-                      type="number"
-                      id="weight"
-                      name="weight"
-                      value={formData.weight}
+                      type="text"
+                      id="category"
+                      name="category"
+                      value={formData.category}
                       onChange={handleChange}
-                      min="0"
+                      list="productCategories"
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                      placeholder="Product weight in grams"
+                      placeholder="e.g. Dairy"
                     />
+                    <datalist id="productCategories">
+                      {productCategories.map(category => (
+                        <option key={category} value={category} />
+                      ))}
+                    </datalist>
                   </div>
                   
                   <div>
@@ -665,7 +797,7 @@ const AdminProducts: React.FC = () => {
                                 ? 'bg-yellow-100 text-yellow-800' 
                                 : 'bg-green-100 text-green-800'
                           }`}>
-                            {item.currentQuantity} units
+                            {formatStock(item, item.currentQuantity)}
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
@@ -682,8 +814,9 @@ const AdminProducts: React.FC = () => {
                             <input
                               type="number"
                               min="0"
+                              step={isSoldByWeight(item) ? '0.001' : '1'}
                               value={item.newQuantity}
-                              onChange={(e) => handleInventoryChange(item.id, Math.max(0, parseInt(e.target.value) || 0))}
+                              onChange={(e) => handleInventoryChange(item.id, Math.max(0, (isSoldByWeight(item) ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0))}
                               className="mx-2 w-16 px-2 py-1 text-center border border-gray-300 rounded"
                             />
                             <button
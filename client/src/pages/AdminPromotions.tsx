@@ -0,0 +1,538 @@
+import React, { useEffect, useState } from 'react';
+import { useProducts } from '../context/ProductContext.tsx';
+import { promotionsAPI } from '../services/api.ts';
+import { Promotion, PromotionType } from '../types/index.ts';
+import { categoriesOf } from '../utils/products.ts';
+import {
+  PROMOTION_TYPES,
+  PROMOTION_TYPE_LABELS,
+  PROMOTION_STATUS_STYLES,
+  PROMOTION_STATUS_LABELS,
+  describeDiscount,
+  toDateTimeInput
+} from '../utils/promotions.ts';
+
+interface PromotionFormData {
+  name: string;
+  type: PromotionType;
+  value: string;
+  buyQuantity: string;
+  getQuantity: string;
+  code: string;
+  productIds: string[];
+  categories: string[];
+  startsAt: string;
+  endsAt: string;
+  usageLimit: string;
+  active: boolean;
+}
+
+const emptyForm: PromotionFormData = {
+  name: '',
+  type: 'percentage',
+  value: '',
+  buyQuantity: '1',
+  getQuantity: '1',
+  code: '',
+  productIds: [],
+  categories: [],
+  startsAt: '',
+  endsAt: '',
+  usageLimit: '',
+  active: true
+};
+
+const AdminPromotions: React.FC = () => {
+  const { products, getProducts } = useProducts();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const [formData, setFormData] = useState<PromotionFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const categories = categoriesOf(products);
+
+  // Extract the server's message from an axios error
+  const errorMessage = (error: any, fallback: string) =>
+    error.response?.data?.message || error.message || fallback;
+
+  const loadPromotions = async () => {
+    try {
+      setLoading(true);
+      const data = await promotionsAPI.getAll();
+      setPromotions(data);
+      setError(null);
+    } catch (error: any) {
+      console.error('Error fetching promotions:', error);
+      setError(errorMessage(error, 'Failed to load promotions'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch promotions, and products to target, on component mount
+  useEffect(() => {
+    loadPromotions();
+    getProducts();
+  }, []);
+
+  // Replace a promotion in the list after the server returns the updated record
+  const replacePromotion = (updated: Promotion) => {
+    setPromotions(prev => prev.map(promotion => (promotion.id === updated.id ? updated : promotion)));
+  };
+
+  const openAddModal = () => {
+    setEditing(null);
+    setFormData(emptyForm);
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (promotion: Promotion) => {
+    setEditing(promotion);
+    setFormData({
+      name: promotion.name,
+      type: promotion.type,
+      value: String(promotion.value),
+      buyQuantity: String(promotion.buyQuantity ?? 1),
+      getQuantity: String(promotion.getQuantity ?? 1),
+      code: promotion.code || '',
+      productIds: promotion.productIds || [],
+      categories: promotion.categories || [],
+      startsAt: toDateTimeInput(promotion.startsAt),
+      endsAt: toDateTimeInput(promotion.endsAt),
+      usageLimit: promotion.usageLimit ? String(promotion.usageLimit) : '',
+      active: promotion.active
+    });
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    const { checked, type } = e.target as HTMLInputElement;
+    setFormData(prev => ({ ...prev, [name]: type === 'checkbox' ? checked : value }));
+  };
+
+  // Add or remove a product ID or category from the promotion's targets
+  const toggleTarget = (field: 'productIds' | 'categories', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value)
+        ? prev[field].filter(item => item !== value)
+        : [...prev[field], value]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Empty optional fields are sent as null so editing can clear them
+    const promotion = {
+      name: formData.name,
+      type: formData.type,
+      // Buy X get Y offers make the free items free unless a value is given
+      value: formData.value ? parseFloat(formData.value) : undefined,
+      ...(formData.type === 'buy_x_get_y' && {
+        buyQuantity: parseInt(formData.buyQuantity),
+        getQuantity: parseInt(formData.getQuantity)
+      }),
+      code: formData.code.trim() || null,
+      productIds: formData.productIds,
+      categories: formData.categories,
+      startsAt: formData.startsAt ? new Date(formData.startsAt).toISOString() : null,
+      endsAt: formData.endsAt ? new Date(formData.endsAt).toISOString() : null,
+      usageLimit: formData.usageLimit ? parseInt(formData.usageLimit) : null,
+      active: formData.active
+    };
+
+    try {
+      if (editing) {
+        const data = await promotionsAPI.update(editing.id, promotion);
+        replacePromotion(data.promotion);
+      } else {
+        const data = await promotionsAPI.create(promotion);
+        setPromotions(prev => [data.promotion, ...prev]);
+      }
+      closeModal();
+    } catch (error: any) {
+      console.error('Error saving promotion:', error);
+      setFormError(errorMessage(error, 'Failed to save promotion'));
+    }
+  };
+
+  // Switch a promotion on or off without deleting it
+  const handleToggleActive = async (promotion: Promotion) => {
+    try {
+      const data = await promotionsAPI.update(promotion.id, { active: !promotion.active });
+      replacePromotion(data.promotion);
+    } catch (error: any) {
+      console.error('Error updating promotion:', error);
+      alert(errorMessage(error, 'Failed to update promotion'));
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (window.confirm(`Are you sure you want to delete ${promotion.name}?`)) {
+      try {
+        await promotionsAPI.delete(promotion.id);
+        setPromotions(prev => prev.filter(p => p.id !== promotion.id));
+      } catch (error: any) {
+        console.error('Error deleting promotion:', error);
+        alert(errorMessage(error, 'Failed to delete promotion'));
+      }
+    }
+  };
+
+  // Products and categories a promotion is limited to, or the whole cart
+  const describeTargets = (promotion: Promotion) => {
+    const names = (promotion.productIds || []).map(
+      id => products.find(product => product.id === id)?.name || `#${id}`
+    );
+    const targets = [...names, ...(promotion.categories || [])];
+    return targets.length > 0 ? targets.join(', ') : 'Whole cart';
+  };
+
+  const describeDates = (promotion: Promotion) => {
+    if (!promotion.startsAt && !promotion.endsAt) return 'Always';
+    const format = (iso?: string) => (iso ? new Date(iso).toLocaleDateString() : '…');
+    return `${format(promotion.startsAt)} – ${format(promotion.endsAt)}`;
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">Promotions</h1>
+          <p className="text-gray-600 mt-1">Run sales, coupon codes and multi-buy offers</p>
+        </div>
+
+        <div className="mt-4 md:mt-0">
+          <button
+            onClick={openAddModal}
+            className="bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-md flex items-center transition"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" />
+            </svg>
+            Add Promotion
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-100 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      ) : promotions.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <p className="text-gray-600">No promotions yet.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Promotion</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dates</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Uses</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {promotions.map(promotion => (
+                  <tr key={promotion.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{promotion.name}</div>
+                      <div className="text-sm text-gray-500">
+                        {describeDiscount(promotion)}
+                        {promotion.code ? (
+                          <span className="ml-2 px-2 py-0.5 bg-gray-100 rounded font-mono text-xs">{promotion.code}</span>
+                        ) : (
+                          <span className="ml-2 text-xs">(automatic)</span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-500">{describeTargets(promotion)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-500">{describeDates(promotion)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-500">
+                        {promotion.usageCount}{promotion.usageLimit ? ` / ${promotion.usageLimit}` : ''}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${PROMOTION_STATUS_STYLES[promotion.status]}`}>
+                        {PROMOTION_STATUS_LABELS[promotion.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => openEditModal(promotion)}
+                        className="text-primary-600 hover:text-primary-900 mr-3"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(promotion)}
+                        className="text-yellow-600 hover:text-yellow-900 mr-3"
+                      >
+                        {promotion.active ? 'Deactivate' : 'Activate'}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(promotion)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Add/Edit Promotion Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-800">{editing ? 'Edit Promotion' : 'Add New Promotion'}</h2>
+                <button onClick={closeModal} className="text-gray-500 hover:text-gray-700">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {formError && (
+                <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4 text-sm">
+                  {formError}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit}>
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                    <input
+                      type="text"
+                      id="name"
+                      name="name"
+                      value={formData.name}
+                      onChange={handleChange}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      placeholder="e.g. Dairy Week"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="type" className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                      <select
+                        id="type"
+                        name="type"
+                        value={formData.type}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        {PROMOTION_TYPES.map(type => (
+                          <option key={type} value={type}>{PROMOTION_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="value" className="block text-sm font-medium text-gray-700 mb-1">
+                        {formData.type === 'flat' ? 'Amount (₹)' : formData.type === 'buy_x_get_y' ? '% Off Free Items' : 'Percent Off'}
+                      </label>
+                      <input
+                        type="number"
+                        id="value"
+                        name="value"
+                        value={formData.value}
+                        onChange={handleChange}
+                        required={formData.type !== 'buy_x_get_y'}
+                        min="0.01"
+                        max={formData.type === 'flat' ? undefined : 100}
+                        step="0.01"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        placeholder={formData.type === 'buy_x_get_y' ? '100' : ''}
+                      />
+                    </div>
+                  </div>
+
+                  {formData.type === 'buy_x_get_y' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="buyQuantity" className="block text-sm font-medium text-gray-700 mb-1">Buy</label>
+                        <input
+                          type="number"
+                          id="buyQuantity"
+                          name="buyQuantity"
+                          value={formData.buyQuantity}
+                          onChange={handleChange}
+                          required
+                          min="1"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="getQuantity" className="block text-sm font-medium text-gray-700 mb-1">Get</label>
+                        <input
+                          type="number"
+                          id="getQuantity"
+                          name="getQuantity"
+                          value={formData.getQuantity}
+                          onChange={handleChange}
+                          required
+                          min="1"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-1">Coupon Code</label>
+                    <input
+                      type="text"
+                      id="code"
+                      name="code"
+                      value={formData.code}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md uppercase focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      placeholder="Leave empty to apply automatically"
+                    />
+                  </div>
+
+                  <div>
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Applies To</span>
+                    <p className="text-xs text-gray-500 mb-2">Pick nothing to apply to the whole cart.</p>
+                    {categories.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-2">
+                        {categories.map(category => (
+                          <label key={category} className="flex items-center text-sm text-gray-700 border border-gray-200 rounded-md px-2 py-1">
+                            <input
+                              type="checkbox"
+                              checked={formData.categories.includes(category)}
+                              onChange={() => toggleTarget('categories', category)}
+                              className="h-4 w-4 mr-1 text-primary-600 border-gray-300 rounded"
+                            />
+                            {category}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <div className="max-h-32 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1">
+                      {products.map(product => (
+                        <label key={product.id} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={formData.productIds.includes(product.id)}
+                            onChange={() => toggleTarget('productIds', product.id)}
+                            className="h-4 w-4 mr-2 text-primary-600 border-gray-300 rounded"
+                          />
+                          {product.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="startsAt" className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                      <input
+                        type="datetime-local"
+                        id="startsAt"
+                        name="startsAt"
+                        value={formData.startsAt}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="endsAt" className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+                      <input
+                        type="datetime-local"
+                        id="endsAt"
+                        name="endsAt"
+                        value={formData.endsAt}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4 items-end">
+                    <div>
+                      <label htmlFor="usageLimit" className="block text-sm font-medium text-gray-700 mb-1">Usage Limit</label>
+                      <input
+                        type="number"
+                        id="usageLimit"
+                        name="usageLimit"
+                        value={formData.usageLimit}
+                        onChange={handleChange}
+                        min="1"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        placeholder="Unlimited"
+                      />
+                    </div>
+                    <div className="flex items-center pb-2">
+                      <input
+                        type="checkbox"
+                        id="active"
+                        name="active"
+                        checked={formData.active}
+                        onChange={handleChange}
+                        className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                      />
+                      <label htmlFor="active" className="ml-2 text-sm text-gray-700">Active</label>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="mt-6 flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={closeModal}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-primary-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  >
+                    {editing ? 'Save Changes' : 'Add Promotion'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminPromotions;
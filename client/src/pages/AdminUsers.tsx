@@ -0,0 +1,425 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext.tsx';
+import { usersAPI } from '../services/api.ts';
+import { User } from '../types/index.ts';
+import { ROLES, ROLE_LABELS } from '../utils/permissions.ts';
+
+interface UserFormData {
+  username: string;
+  password: string;
+  role: User['role'];
+}
+
+const AdminUsers: React.FC = () => {
+  const { authState } = useAuth();
+  // Only admins may create or manage admin accounts
+  const isAdmin = authState.user?.role === 'admin';
+  const assignableRoles = ROLES.filter(role => isAdmin || role !== 'admin');
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<UserFormData>({
+    username: '',
+    password: '',
+    role: 'customer'
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+  const [resetUser, setResetUser] = useState<User | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  // Extract the server's message from an axios error
+  const errorMessage = (error: any, fallback: string) =>
+    error.response?.data?.message || error.message || fallback;
+
+  const loadUsers = async () => {
+    try {
+      setLoading(true);
+      const data = await usersAPI.getAll();
+      setUsers(data);
+      setError(null);
+    } catch (error: any) {
+      console.error('Error fetching users:', error);
+      setError(errorMessage(error, 'Failed to load users'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch users on component mount
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const filteredUsers = users.filter(user =>
+    user.username.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  // Replace a user in the list after the server returns the updated record
+  const replaceUser = (updated: User) => {
+    setUsers(prev => prev.map(user => (user.id === updated.id ? updated : user)));
+  };
+
+  // Open modal for adding a new user
+  const openAddModal = () => {
+    setFormData({ username: '', password: '', role: 'customer' });
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  // Handle new user submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const data = await usersAPI.create(formData);
+      setUsers(prev => [...prev, data.user]);
+      closeModal();
+    } catch (error: any) {
+      console.error('Error creating user:', error);
+      setFormError(errorMessage(error, 'Failed to create user'));
+    }
+  };
+
+  // Change a user's role
+  const handleRoleChange = async (user: User, role: User['role']) => {
+    try {
+      const data = await usersAPI.update(user.id, { role });
+      replaceUser(data.user);
+    } catch (error: any) {
+      console.error('Error updating role:', error);
+      alert(errorMessage(error, 'Failed to update role'));
+    }
+  };
+
+  // Enable or disable an account
+  const handleToggleDisabled = async (user: User) => {
+    try {
+      const data = await usersAPI.update(user.id, { disabled: !user.disabled });
+      replaceUser(data.user);
+    } catch (error: any) {
+      console.error('Error updating user:', error);
+      alert(errorMessage(error, 'Failed to update user'));
+    }
+  };
+
+  // Open modal for resetting a user's password
+  const openResetModal = (user: User) => {
+    setResetUser(user);
+    setNewPassword('');
+    setFormError(null);
+  };
+
+  const closeResetModal = () => {
+    setResetUser(null);
+  };
+
+  const handleResetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetUser) return;
+
+    try {
+      await usersAPI.resetPassword(resetUser.id, newPassword);
+      closeResetModal();
+    } catch (error: any) {
+      console.error('Error resetting password:', error);
+      setFormError(errorMessage(error, 'Failed to reset password'));
+    }
+  };
+
+  // Handle user deletion
+  const handleDelete = async (user: User) => {
+    if (window.confirm(`Are you sure you want to delete ${user.username}?`)) {
+      try {
+        await usersAPI.delete(user.id);
+        setUsers(prev => prev.filter(u => u.id !== user.id));
+      } catch (error: any) {
+        console.error('Error deleting user:', error);
+        alert(errorMessage(error, 'Failed to delete user'));
+      }
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">User Management</h1>
+          <p className="text-gray-600 mt-1">Create accounts, change roles, and manage access</p>
+        </div>
+
+        <div className="mt-4 md:mt-0">
+          <button
+            onClick={openAddModal}
+            className="bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-md flex items-center transition"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" />
+            </svg>
+            Add User
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <input
+          type="text"
+          placeholder="Search users..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full md:w-1/3 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-100 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      ) : filteredUsers.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <p className="text-gray-600">No users found.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Username</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredUsers.map(user => {
+                  const isSelf = user.id === authState.user?.id;
+                  const isLocked = isSelf || (!isAdmin && user.role === 'admin');
+
+                  return (
+                    <tr key={user.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">
+                          {user.username}
+                          {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <select
+                          value={user.role}
+                          onChange={(e) => handleRoleChange(user, e.target.value as User['role'])}
+                          disabled={isLocked}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+                        >
+                          {(isLocked ? ROLES : assignableRoles).map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          user.disabled ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                        }`}>
+                          {user.disabled ? 'Disabled' : 'Active'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-500">
+                          {user.createdAt ? new Date(user.createdAt).toLocaleDateString() : '—'}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {(isSelf || !isLocked) && (
+                          <button
+                            onClick={() => openResetModal(user)}
+                            className="text-primary-600 hover:text-primary-900 mr-3"
+                          >
+                            Reset Password
+                          </button>
+                        )}
+                        {!isLocked && (
+                          <>
+                            <button
+                              onClick={() => handleToggleDisabled(user)}
+                              className="text-yellow-600 hover:text-yellow-900 mr-3"
+                            >
+                              {user.disabled ? 'Enable' : 'Disable'}
+                            </button>
+                            <button
+                              onClick={() => handleDelete(user)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Add User Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-md">
+            <div className="p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-800">Add New User</h2>
+                <button onClick={closeModal} className="text-gray-500 hover:text-gray-700">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {formError && (
+                <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4 text-sm">
+                  {formError}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit}>
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+                    <input
+                      type="text"
+                      id="username"
+                      name="username"
+                      value={formData.username}
+                      onChange={handleChange}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+                    <input
+                      type="password"
+                      id="password"
+                      name="password"
+                      value={formData.password}
+                      onChange={handleChange}
+                      required
+                      minLength={6}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                    <select
+                      id="role"
+                      name="role"
+                      value={formData.role}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    >
+                      {assignableRoles.map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="mt-6 flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={closeModal}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-primary-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  >
+                    Add User
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reset Password Modal */}
+      {resetUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-md">
+            <div className="p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-800">Reset Password for {resetUser.username}</h2>
+                <button onClick={closeResetModal} className="text-gray-500 hover:text-gray-700">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {formError && (
+                <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4 text-sm">
+                  {formError}
+                </div>
+              )}
+
+              <form onSubmit={handleResetSubmit}>
+                <div>
+                  <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-1">New Password</label>
+                  <input
+                    type="password"
+                    id="newPassword"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    required
+                    minLength={6}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </div>
+
+                <div className="mt-6 flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={closeResetModal}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-primary-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  >
+                    Reset Password
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminUsers;
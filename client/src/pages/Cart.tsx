@@ -3,8 +3,20 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useCart } from '../context/CartContext.tsx';
 import { usePayment } from '../context/PaymentContext.tsx';
 import CartItem from '../components/CartItem.tsx';
-import { paymentAPI } from '../services/api.ts';
-import { PaymentInfo } from '../types';
+import TaxBreakdown from '../components/TaxBreakdown.tsx';
+import MockCheckoutModal from '../components/MockCheckoutModal.tsx';
+import { loyaltyAPI, paymentAPI } from '../services/api.ts';
+import { CartItem as CartItemType, CartPricing, LoyaltyAccount, OrderPoints, PaymentInfo, PaymentProviderName } from '../types';
+import { formatMinor } from '../utils/money.ts';
+import { maxRedeemablePoints, pointsValueMinor } from '../utils/loyalty.ts';
+import { WEIGHT_STATUS_LABELS, describeWeightCheck } from '../utils/weight.ts';
+import { formatQuantity } from '../utils/units.ts';
+
+interface Receipt {
+  items: CartItemType[];
+  pricing: CartPricing;
+  loyalty?: OrderPoints;
+}
 
 declare global {
   interface Window {
@@ -13,16 +25,25 @@ declare global {
 }
 
 const Cart: React.FC = () => {
-  const { cart, loading, error, clearCart, fetchCart, clearError } = useCart();
+  const { cart, loading, error, clearCart, fetchCart, clearError, applyCoupon, removeCoupon } = useCart();
   const { createOrder, verifyPayment, loading: paymentLoading, error: paymentError } = usePayment();
   const [razorpayKey, setRazorpayKey] = useState('');
+  const [paymentProvider, setPaymentProvider] = useState<PaymentProviderName>('razorpay');
+  const [mockPayment, setMockPayment] = useState<PaymentInfo | null>(null);
   const [paymentStatus, setPaymentStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle');
   const [paymentMessage, setPaymentMessage] = useState('');
   const navigate = useNavigate();
   const [refreshCounter, setRefreshCounter] = useState(0);
   const [retryAttempt, setRetryAttempt] = useState(0);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [couponCode, setCouponCode] = useState('');
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [loyalty, setLoyalty] = useState<LoyaltyAccount | null>(null);
+  const [redeemPoints, setRedeemPoints] = useState('');
 
-  // Load Razorpay script and key on mount
+  // Load the payment key, and the Razorpay script unless the server uses the
+  // mock gateway, on mount
   useEffect(() => {
     const loadRazorpayScript = () => {
       return new Promise((resolve) => {
@@ -40,16 +61,21 @@ const Cart: React.FC = () => {
 
     const getRazorpayKey = async () => {
       try {
-        const { key } = await paymentAPI.getKey();
+        const { key, provider } = await paymentAPI.getKey();
         setRazorpayKey(key);
+        setPaymentProvider(provider);
+        return provider;
       } catch (error) {
-        console.error('Failed to get Razorpay key:', error);
+        console.error('Failed to get payment key:', error);
+        return null;
       }
     };
 
     const initPayment = async () => {
-      await loadRazorpayScript();
-      await getRazorpayKey();
+      const provider = await getRazorpayKey();
+      if (provider !== 'mock') {
+        await loadRazorpayScript();
+      }
     };
 
     initPayment();
@@ -60,6 +86,21 @@ const Cart: React.FC = () => {
     console.log('Cart page: Initial cart data fetch');
     fetchCart();
   }, []);
+
+  // Load the points balance; paying with points is optional, so a failure
+  // just hides that option
+  useEffect(() => {
+    loyaltyAPI
+      .getMine()
+      .then(setLoyalty)
+      .catch((error) => console.error('Failed to load loyalty points:', error));
+  }, []);
+
+  const maxPoints = loyalty && cart?.pricing
+    ? maxRedeemablePoints(loyalty.balance, cart.pricing.totalMinor, loyalty.settings)
+    : 0;
+  const pointsToRedeem = Math.min(parseInt(redeemPoints) || 0, maxPoints);
+  const pointsMinor = loyalty ? pointsValueMinor(pointsToRedeem, loyalty.settings) : 0;
   
   // This effect runs when the refresh counter changes (manual refresh only)
   useEffect(() => {
@@ -83,6 +124,50 @@ const Cart: React.FC = () => {
     }
   }, [error, retryAttempt, clearError, fetchCart]);
 
+  // Show the receipt and empty the cart once an order has been paid
+  const completePayment = async (orderData: PaymentInfo) => {
+    setPaymentStatus('success');
+    setPaymentMessage('Payment successful! Your order has been placed.');
+    // Keep what was paid for to show as the receipt
+    const pricing = orderData.pricing || cart?.pricing;
+    if (cart && pricing) {
+      setReceipt({ items: cart.items, pricing, loyalty: orderData.loyalty });
+    }
+    setRedeemPoints('');
+    // Reset cart after successful payment
+    await clearCart();
+    if (!pricing) {
+      // Redirect to home page after 2 seconds
+      setTimeout(() => {
+        navigate('/');
+      }, 2000);
+    }
+  };
+
+  // Verify the signature the gateway gave for a payment, then complete it
+  const confirmPayment = async (orderData: PaymentInfo, paymentId: string, orderId: string, signature: string) => {
+    setPaymentMessage('Verifying payment...');
+
+    try {
+      // Verify payment
+      const isVerified = await verifyPayment(paymentId, orderId, signature);
+
+      if (isVerified) {
+        console.log("Payment verification successful");
+        await completePayment(orderData);
+      } else {
+        console.error("Payment verification failed without error");
+        setPaymentStatus('error');
+        setPaymentMessage('Payment verification failed. Please contact support if your account was charged.');
+      }
+    } catch (error) {
+      console.error("Payment verification error:", error);
+      setPaymentStatus('error');
+      const errorMessage = error instanceof Error && error.message ? error.message : 'Unknown error';
+      setPaymentMessage(`Payment verification failed: ${errorMessage}`);
+    }
+  };
+
   // Handle payment
   const handlePayment = async () => {
     if (!cart || cart.items.length === 0) {
@@ -104,8 +189,24 @@ const Cart: React.FC = () => {
         throw new Error('Your cart is empty or could not be loaded.');
       }
       
+      // Check if we have the payment key, which also says which gateway to use
+      let key = razorpayKey;
+      let provider = paymentProvider;
+      if (!key) {
+        setPaymentMessage('Getting payment configuration...');
+        try {
+          ({ key, provider } = await paymentAPI.getKey());
+          console.log("Received payment key:", key ? "Valid key received" : "No key received");
+          setRazorpayKey(key);
+          setPaymentProvider(provider);
+        } catch (keyError) {
+          console.error("Failed to get payment key:", keyError);
+          throw new Error('Unable to retrieve payment configuration. Please try again later.');
+        }
+      }
+
       // Check if Razorpay script is loaded
-      if (!window.Razorpay) {
+      if (provider === 'razorpay' && !window.Razorpay) {
         console.log('Razorpay SDK not loaded, attempting to load it now...');
         // Try loading again
         const script = document.createElement('script');
@@ -126,19 +227,6 @@ const Cart: React.FC = () => {
         }
       }
 
-      // Check if we have the Razorpay key
-      if (!razorpayKey) {
-        setPaymentMessage('Getting payment configuration...');
-        try {
-          const { key } = await paymentAPI.getKey();
-          console.log("Received Razorpay key:", key ? "Valid key received" : "No key received");
-          setRazorpayKey(key);
-        } catch (keyError) {
-          console.error("Failed to get Razorpay key:", keyError);
-          throw new Error('Unable to retrieve payment configuration. Please try again later.');
-        }
-      }
-
       // Try to create the order with retry logic
       let orderData: PaymentInfo | null = null;
       let attempts = 0;
@@ -156,7 +244,7 @@ const Cart: React.FC = () => {
             await new Promise(resolve => setTimeout(resolve, 1000));
           }
           
-          orderData = await createOrder();
+          orderData = await createOrder(pointsToRedeem || undefined);
           console.log("Order created successfully:", orderData);
           break; // Success, exit the loop
         } catch (orderError) {
@@ -175,13 +263,23 @@ const Cart: React.FC = () => {
       if (!orderData) {
         throw new Error('Failed to create order after multiple attempts');
       }
+      // orderData is reassigned above, so the Razorpay handler keeps its own
+      // non-null copy
+      const payment = orderData;
+
+      // The mock gateway's checkout is part of this page
+      if (provider === 'mock') {
+        setPaymentMessage('Waiting for the mock payment...');
+        setMockPayment(orderData);
+        return;
+      }
       
       // Verify we have everything needed for Razorpay
       if (!window.Razorpay) {
         throw new Error('Payment gateway failed to load');
       }
       
-      if (!razorpayKey) {
+      if (!key) {
         throw new Error('Missing payment configuration');
       }
 
@@ -194,7 +292,7 @@ const Cart: React.FC = () => {
 
       // Create and open Razorpay checkout
       const razorpay = new window.Razorpay({
-        key: razorpayKey,
+        key,
         amount: orderData.amount * 100, // in smallest currency unit
         currency: orderData.currency || 'INR',
         name: 'Smart Cart',
@@ -202,36 +300,12 @@ const Cart: React.FC = () => {
         order_id: orderData.orderId,
         handler: async (response) => {
           console.log("Payment successful, verifying:", response);
-          setPaymentMessage('Verifying payment...');
-          
-          try {
-            // Verify payment
-            const isVerified = await verifyPayment(
-              response.razorpay_payment_id,
-              response.razorpay_order_id,
-              response.razorpay_signature
-            );
-            
-            if (isVerified) {
-              console.log("Payment verification successful");
-              setPaymentStatus('success');
-              setPaymentMessage('Payment successful! Your order has been placed.');
-              // Reset cart after successful payment
-              await clearCart();
-              // Redirect to home page after 2 seconds
-              setTimeout(() => {
-                navigate('/');
-              }, 2000);
-            } else {
-              console.error("Payment verification failed without error");
-              setPaymentStatus('error');
-              setPaymentMessage('Payment verification failed. Please contact support if your account was charged.');
-            }
-          } catch (error) {
-            console.error("Payment verification error:", error);
-            setPaymentStatus('error');
-            setPaymentMessage(`Payment verification failed: ${error.message || 'Unknown error'}`);
-          }
+          await confirmPayment(
+            payment,
+            response.razorpay_payment_id,
+            response.razorpay_order_id,
+            response.razorpay_signature
+          );
         },
         prefill: {
           name: 'Customer',
@@ -262,7 +336,8 @@ const Cart: React.FC = () => {
     } catch (error) {
       console.error('Payment process error:', error);
       setPaymentStatus('error');
-      const errorMessage = error.message || 'Unknown error occurred';
+      const errorMessage =
+        error instanceof Error && error.message ? error.message : 'Unknown error occurred';
       setPaymentMessage(`Failed to process payment: ${errorMessage}`);
     }
   };
@@ -275,6 +350,32 @@ const Cart: React.FC = () => {
     setRefreshCounter(prev => prev + 1);
   };
 
+  // Apply the code entered in the coupon field
+  const handleApplyCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!couponCode.trim()) return;
+
+    setApplyingCoupon(true);
+    setCouponError(null);
+    try {
+      await applyCoupon(couponCode.trim());
+      setCouponCode('');
+    } catch (error: any) {
+      setCouponError(error.response?.data?.message || 'Failed to apply coupon');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = async () => {
+    setCouponError(null);
+    try {
+      await removeCoupon();
+    } catch (error: any) {
+      setCouponError(error.response?.data?.message || 'Failed to remove coupon');
+    }
+  };
+
   // Handle clear cart
   const handleClearCart = () => {
     clearCart();
@@ -286,15 +387,20 @@ const Cart: React.FC = () => {
       setPaymentStatus('processing');
       setPaymentMessage('Processing checkout...');
       
+      const paidCart = cart;
       await clearCart();
       
       setPaymentStatus('success');
       setPaymentMessage('Checkout successful! Cart has been reset.');
       
-      // Redirect to home page after 2 seconds
-      setTimeout(() => {
-        navigate('/');
-      }, 2000);
+      if (paidCart?.pricing) {
+        setReceipt({ items: paidCart.items, pricing: paidCart.pricing });
+      } else {
+        // Redirect to home page after 2 seconds
+        setTimeout(() => {
+          navigate('/');
+        }, 2000);
+      }
     } catch (error) {
       setPaymentStatus('error');
       setPaymentMessage('Failed to complete checkout');
@@ -339,7 +445,66 @@ const Cart: React.FC = () => {
         </div>
       </div>
       
-      {loading ? (
+      {receipt ? (
+        <div className="bg-white rounded-lg shadow-md p-6 max-w-lg mx-auto">
+          <div className="mb-4 p-3 rounded-md bg-green-100 text-green-800">{paymentMessage}</div>
+          <h2 className="text-xl font-medium text-gray-800 mb-4">Receipt</h2>
+
+          <div className="space-y-2 mb-4">
+            {receipt.items.map(item => (
+              <div key={item.id} className="flex justify-between text-gray-700">
+                <span>{formatQuantity(item, item.quantity)} × {item.name}</span>
+                <span>{item.lineTotalMinor !== undefined ? formatMinor(item.lineTotalMinor) : `₹${(item.price * item.quantity).toFixed(2)}`}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2 border-t border-gray-200 pt-3">
+            <div className="flex justify-between text-gray-600">
+              <span>Subtotal (excl. GST)</span>
+              <span>{formatMinor(receipt.pricing.subtotalMinor)}</span>
+            </div>
+            {receipt.pricing.discounts.map(discount => (
+              <div key={discount.promotionId || discount.label} className="flex justify-between text-green-600">
+                <span>{discount.label}</span>
+                <span>-{formatMinor(discount.amountMinor)}</span>
+              </div>
+            ))}
+            {receipt.pricing.taxes.map(tax => (
+              <div key={tax.label} className="flex justify-between text-gray-600">
+                <span>{tax.label}</span>
+                <span>{formatMinor(tax.amountMinor)}</span>
+              </div>
+            ))}
+            <div className="border-t border-gray-200 pt-2 flex justify-between font-medium text-lg">
+              <span>{receipt.loyalty?.pointsRedeemed ? 'Total' : 'Total paid'}</span>
+              <span>{formatMinor(receipt.pricing.totalMinor)}</span>
+            </div>
+            {receipt.loyalty && receipt.loyalty.pointsRedeemed > 0 && (
+              <>
+                <div className="flex justify-between text-gray-600">
+                  <span>Paid with {receipt.loyalty.pointsRedeemed} points</span>
+                  <span>-{formatMinor(receipt.loyalty.redeemedMinor)}</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>Total paid</span>
+                  <span>{formatMinor(receipt.pricing.totalMinor - receipt.loyalty.redeemedMinor)}</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="mt-4">
+            <TaxBreakdown pricing={receipt.pricing} />
+          </div>
+
+          <div className="mt-6 text-center">
+            <Link to="/" className="inline-block bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-md transition">
+              Continue Shopping
+            </Link>
+          </div>
+        </div>
+      ) : loading ? (
         <div className="flex flex-col justify-center items-center h-64">
           <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500 mb-4"></div>
           <p className="text-gray-600">Loading your cart...</p>
@@ -418,25 +583,116 @@ const Cart: React.FC = () => {
               
               <div className="space-y-3">
                 <div className="flex justify-between text-gray-600">
-                  <span>Subtotal</span>
-                  <span>₹{cart.total.toFixed(2)}</span>
+                  <span>{cart.pricing ? 'Subtotal (excl. GST)' : 'Subtotal'}</span>
+                  <span>{cart.pricing ? formatMinor(cart.pricing.subtotalMinor) : `₹${cart.total.toFixed(2)}`}</span>
                 </div>
+                {cart.pricing?.discounts.map(discount => (
+                  <div key={discount.promotionId || discount.label} className="flex justify-between text-green-600">
+                    <span>{discount.label}</span>
+                    <span>-{formatMinor(discount.amountMinor)}</span>
+                  </div>
+                ))}
+                {cart.pricing?.taxes.map(tax => (
+                  <div key={tax.label} className="flex justify-between text-gray-600">
+                    <span>{tax.label}</span>
+                    <span>{formatMinor(tax.amountMinor)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-gray-600">
                   <span>Shipping</span>
                   <span>Free</span>
                 </div>
                 <div className="border-t border-gray-200 pt-3 flex justify-between font-medium text-lg">
                   <span>Total</span>
-                  <span>₹{cart.total.toFixed(2)}</span>
+                  <span>{cart.pricing ? formatMinor(cart.pricing.totalMinor) : `₹${cart.total.toFixed(2)}`}</span>
                 </div>
+                {cart.pricing && <TaxBreakdown pricing={cart.pricing} />}
+              </div>
+
+              <div className="mt-6">
+                {cart.pricing?.coupon ? (
+                  <div className="flex justify-between items-start text-sm">
+                    <div>
+                      <span className="font-medium text-gray-800">Coupon {cart.pricing.coupon.code}</span>
+                      {cart.pricing.coupon.valid ? (
+                        <p className="text-green-600">{cart.pricing.coupon.name} applied</p>
+                      ) : (
+                        <p className="text-red-600">{cart.pricing.coupon.message}</p>
+                      )}
+                    </div>
+                    <button onClick={handleRemoveCoupon} className="text-red-600 hover:text-red-800 transition">
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <form onSubmit={handleApplyCoupon} className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={couponCode}
+                      onChange={(e) => setCouponCode(e.target.value)}
+                      placeholder="Coupon code"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm uppercase focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <button
+                      type="submit"
+                      disabled={applyingCoupon || !couponCode.trim()}
+                      className="px-4 py-2 bg-gray-800 hover:bg-gray-900 text-white text-sm rounded-md transition disabled:bg-gray-400"
+                    >
+                      {applyingCoupon ? 'Applying...' : 'Apply'}
+                    </button>
+                  </form>
+                )}
+                {couponError && <p className="mt-2 text-sm text-red-600">{couponError}</p>}
               </div>
+
+              {loyalty && loyalty.balance > 0 && cart.pricing && (
+                <div className="mt-6">
+                  <label htmlFor="redeemPoints" className="block text-sm font-medium text-gray-800">
+                    Pay with points
+                  </label>
+                  <p className="text-sm text-gray-600 mb-2">
+                    You have {loyalty.balance} points. Up to {maxPoints} can be used on this order.
+                  </p>
+                  <input
+                    id="redeemPoints"
+                    type="number"
+                    min="0"
+                    max={maxPoints}
+                    step="1"
+                    value={redeemPoints}
+                    onChange={(e) => setRedeemPoints(e.target.value)}
+                    disabled={maxPoints === 0}
+                    placeholder="Points to use"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  {pointsToRedeem > 0 && (
+                    <div className="mt-3 space-y-1 text-sm">
+                      <div className="flex justify-between text-gray-600">
+                        <span>{pointsToRedeem} points</span>
+                        <span>-{formatMinor(pointsMinor)}</span>
+                      </div>
+                      <div className="flex justify-between font-medium text-gray-800">
+                        <span>To pay</span>
+                        <span>{formatMinor(cart.pricing.totalMinor - pointsMinor)}</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+              
+              {cart.weightMismatch && (
+                <div className="mt-6 p-3 rounded-md bg-red-100 text-red-800 text-sm">
+                  <p className="font-medium">Checkout on hold: {WEIGHT_STATUS_LABELS[cart.weightMismatch.status].toLowerCase()}</p>
+                  <p className="mt-1">{describeWeightCheck(cart.weightMismatch)}. Please ask a staff member to check your cart.</p>
+                </div>
+              )}
               
               <div className="mt-6 space-y-3">
                 <button
                   onClick={handlePayment}
-                  disabled={paymentLoading || paymentStatus === 'processing' || cart.items.length === 0}
+                  disabled={paymentLoading || paymentStatus === 'processing' || cart.items.length === 0 || !!cart.weightMismatch}
                   className={`w-full py-3 px-4 rounded-md text-white font-medium transition ${
-                    paymentLoading || paymentStatus === 'processing' || cart.items.length === 0
+                    paymentLoading || paymentStatus === 'processing' || cart.items.length === 0 || cart.weightMismatch
                       ? 'bg-gray-400 cursor-not-allowed'
                       : 'bg-primary-600 hover:bg-primary-700'
                   }`}
@@ -457,9 +713,9 @@ const Cart: React.FC = () => {
                 {/* Test option to bypass Razorpay for demo purposes */}
                 <button
                   onClick={handleDirectCheckout}
-                  disabled={paymentLoading || paymentStatus === 'processing' || cart.items.length === 0}
+                  disabled={paymentLoading || paymentStatus === 'processing' || cart.items.length === 0 || !!cart.weightMismatch}
                   className={`w-full py-2 px-4 rounded-md text-white font-medium transition text-sm ${
-                    paymentLoading || paymentStatus === 'processing' || cart.items.length === 0
+                    paymentLoading || paymentStatus === 'processing' || cart.items.length === 0 || cart.weightMismatch
                       ? 'bg-gray-400 cursor-not-allowed'
                       : 'bg-green-600 hover:bg-green-700'
                   }`}
@@ -479,6 +735,25 @@ const Cart: React.FC = () => {
           </div>
         </div>
       )}
+
+      {mockPayment && (
+        <MockCheckoutModal
+          payment={mockPayment}
+          onPaid={({ orderId, paymentId, signature }) => {
+            setMockPayment(null);
+            confirmPayment(mockPayment, paymentId, orderId, signature);
+          }}
+          onConfirmed={() => {
+            setMockPayment(null);
+            completePayment(mockPayment);
+          }}
+          onClose={() => {
+            setMockPayment(null);
+            setPaymentStatus('idle');
+            setPaymentMessage('');
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -5,17 +5,17 @@ import { useAuth } from '../context/AuthContext.tsx';
 import { useCart } from '../context/CartContext.tsx';
 import ProductCard from '../components/ProductCard.tsx';
 import socketService from '../services/socket.ts';
-import api from '../services/api.ts';
 import { CartItem, Product } from '../types';
 
 const CustomerHome: React.FC = () => {
   const { products, loading, error, getProducts, clearError } = useProducts();
   const { authState } = useAuth();
-  const { cart, checkout, clearCart, fetchCart } = useCart();
+  const { cart, checkout, clearCart, fetchCart, connectToCart, disconnectCart } = useCart();
   const [rfidConnected, setRfidConnected] = useState(false);
   const [rfidStatus, setRfidStatus] = useState('Not connected');
   const [searchTerm, setSearchTerm] = useState('');
   const [cartId, setCartId] = useState('');
+  const [pairingCode, setPairingCode] = useState('');
   const [connecting, setConnecting] = useState(false);
   const [checkingOut, setCheckingOut] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
@@ -71,6 +71,16 @@ const CustomerHome: React.FC = () => {
     }
   }, [cart]);
 
+  // The cart stays paired across visits until it is released or checked out
+  useEffect(() => {
+    if (cart?.deviceId) {
+      setCartId(cart.deviceId);
+      setConnectionStatus('connected');
+    } else if (cart) {
+      setConnectionStatus(prev => (prev === 'connected' ? 'idle' : prev));
+    }
+  }, [cart?.deviceId]);
+
   // Initial cart fetch and infrequent auto-refresh (once per minute max)
   useEffect(() => {
     // Initial fetch on mount
@@ -160,10 +170,10 @@ const CustomerHome: React.FC = () => {
     };
   }, []);
 
-  // Connect to physical cart
+  // Connect to physical cart with the pairing code shown on it
   const handleConnectCart = async () => {
-    if (!cartId.trim()) {
-      showToastMessage('Please enter a cart ID');
+    if (!cartId.trim() || !pairingCode.trim()) {
+      showToastMessage('Please enter the cart ID and pairing code');
       return;
     }
 
@@ -171,30 +181,31 @@ const CustomerHome: React.FC = () => {
     setConnectionStatus('connecting');
     
     try {
-      // Send request to connect to physical cart
-      const response = await api.post('/cart/connect-device', { 
-        deviceId: cartId 
-      });
-
-      if (response.data.success) {
-        // Connection initiated, waiting for NodeMCU response
-        showToastMessage('Connection request sent. Waiting for physical cart...');
-        
-        // NodeMCU should respond through socket event 'cart_connected'
-        // The real connection status will be updated in the socket listener
-      } else {
-        setConnectionStatus('failed');
-        showToastMessage(`Failed to connect: ${response.data.message}`);
-        setConnecting(false);
-      }
-    } catch (error) {
+      await connectToCart(cartId.trim(), pairingCode.trim());
+      setConnectionStatus('connected');
+      setPairingCode('');
+      showToastMessage(`Connected to physical cart: ${cartId.trim()}`);
+    } catch (error: any) {
       console.error('Error connecting to physical cart:', error);
       setConnectionStatus('failed');
-      showToastMessage('Connection failed. Try again.');
+      showToastMessage(error.response?.data?.message || 'Connection failed. Try again.');
+    } finally {
       setConnecting(false);
     }
   };
 
+  // Release the physical cart so another shopper can use it
+  const handleReleaseCart = async () => {
+    if (!window.confirm('Release this cart? Your items stay in your online cart.')) {
+      return;
+    }
+
+    await disconnectCart();
+    setConnectionStatus('idle');
+    setCartId('');
+    showToastMessage('Cart released');
+  };
+
   // Handle checkout process
   const handleCheckout = async () => {
     if (!cartItems.length) {
@@ -347,11 +358,23 @@ const CustomerHome: React.FC = () => {
                   disabled={connecting || connectionStatus === 'connecting'}
                 />
               </div>
+              <div className="w-40">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="Pairing code"
+                  maxLength={6}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  value={pairingCode}
+                  onChange={(e) => setPairingCode(e.target.value.replace(/\D/g, ''))}
+                  disabled={connecting || connectionStatus === 'connecting'}
+                />
+              </div>
               <button
                 onClick={handleConnectCart}
-                disabled={connecting || !cartId.trim() || connectionStatus === 'connecting'}
+                disabled={connecting || !cartId.trim() || !pairingCode.trim() || connectionStatus === 'connecting'}
                 className={`px-4 py-2 rounded-md text-white font-medium transition ${
-                  connecting || !cartId.trim() || connectionStatus === 'connecting'
+                  connecting || !cartId.trim() || !pairingCode.trim() || connectionStatus === 'connecting'
                     ? 'bg-gray-400 cursor-not-allowed'
                     : 'bg-blue-600 hover:bg-blue-700'
                 }`}
@@ -389,21 +412,34 @@ const CustomerHome: React.FC = () => {
                 >
                   {checkingOut ? 'Processing...' : 'Checkout'}
                 </button>
+                <button
+                  onClick={handleReleaseCart}
+                  disabled={checkingOut}
+                  className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 transition"
+                >
+                  Release Cart
+                </button>
               </div>
             </>
           )}
         </div>
         
+        {connectionStatus !== 'connected' && (
+          <p className="mt-2 text-sm text-gray-600">
+            Enter the cart ID and the 6-digit code shown on the cart, or scan the cart's QR code with your phone camera.
+          </p>
+        )}
+        
         {connectionStatus === 'connecting' && (
           <div className="mt-3 flex items-center text-blue-700">
             <div className="animate-spin mr-2 h-4 w-4 border-2 border-blue-500 rounded-full border-t-transparent"></div>
-            Waiting for physical cart to respond...
+            Connecting to physical cart...
           </div>
         )}
         
         {connectionStatus === 'failed' && (
           <div className="mt-3 text-red-600">
-            Connection failed. Make sure the cart is powered on and try again.
+            Connection failed. Check the cart ID and pairing code, or ask staff to release the cart if someone else is using it.
           </div>
         )}
       </div>
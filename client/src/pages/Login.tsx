@@ -1,22 +1,39 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext.tsx';
 
 const Login: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'customer' | 'admin'>('customer');
+  const [mode, setMode] = useState<'signin' | 'register'>('signin');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const { authState, login } = useAuth();
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const { authState, login, register } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: { pathname: string; search: string } } | null)?.from;
+  const isRegistering = activeTab === 'customer' && mode === 'register';
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setFormError(null);
+    
+    if (isRegistering && password !== confirmPassword) {
+      setFormError('Passwords do not match');
+      return;
+    }
     
     try {
-      await login(username, password);
+      if (isRegistering) {
+        await register(username, password);
+      } else {
+        await login(username, password);
+      }
       
-      // Redirect all users to root path after login, routing will handle role-based views
-      navigate('/');
+      // Return to the page that needed a login, otherwise go to the root path
+      // and let routing handle role-based views
+      navigate(from ? `${from.pathname}${from.search}` : '/');
     } catch (error) {
       console.error('Login failed:', error);
     }
@@ -24,6 +41,8 @@ const Login: React.FC = () => {
   
   const handleTabChange = (tab: 'customer' | 'admin') => {
     setActiveTab(tab);
+    setMode('signin');
+    setFormError(null);
     
     // Set default credentials based on tab
     if (tab === 'customer') {
@@ -35,6 +54,14 @@ const Login: React.FC = () => {
     }
   };
   
+  const handleModeChange = (newMode: 'signin' | 'register') => {
+    setMode(newMode);
+    setFormError(null);
+    setUsername('');
+    setPassword('');
+    setConfirmPassword('');
+  };
+  
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-lg shadow-md">
@@ -46,7 +73,7 @@ const Login: React.FC = () => {
           </div>
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Smart Cart System</h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Select your role and sign in to continue
+            {isRegistering ? 'Create a customer account to start shopping' : 'Select your role and sign in to continue'}
           </p>
         </div>
         
@@ -70,7 +97,7 @@ const Login: React.FC = () => {
             }`}
             onClick={() => handleTabChange('admin')}
           >
-            Admin
+            Staff
           </button>
         </div>
         
@@ -97,16 +124,34 @@ const Login: React.FC = () => {
                 name="password"
                 type="password"
                 required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                className={`appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 ${
+                  isRegistering ? '' : 'rounded-b-md'
+                } focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm`}
                 placeholder="Password"
+                minLength={isRegistering ? 6 : undefined}
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
               />
             </div>
+            {isRegistering && (
+              <div>
+                <label htmlFor="confirmPassword" className="sr-only">Confirm password</label>
+                <input
+                  id="confirmPassword"
+                  name="confirmPassword"
+                  type="password"
+                  required
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                  placeholder="Confirm password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+              </div>
+            )}
           </div>
           
-          {authState.error && (
-            <div className="text-red-500 text-sm text-center">{authState.error}</div>
+          {(formError || authState.error) && (
+            <div className="text-red-500 text-sm text-center">{formError || authState.error}</div>
           )}
           
           <div>
@@ -133,12 +178,26 @@ const Login: React.FC = () => {
                   </svg>
                 </span>
               )}
-              Sign in as {activeTab === 'customer' ? 'Customer' : 'Admin'}
+              {isRegistering
+                ? 'Create account'
+                : `Sign in as ${activeTab === 'customer' ? 'Customer' : 'Staff'}`}
             </button>
           </div>
           
           <div className="text-center text-sm text-gray-500">
-            <p>Demo credentials are pre-filled for {activeTab} login</p>
+            {activeTab === 'customer' && (
+              <p className="mb-2">
+                {isRegistering ? 'Already have an account? ' : 'New here? '}
+                <button
+                  type="button"
+                  className="text-blue-600 hover:text-blue-800 font-medium"
+                  onClick={() => handleModeChange(isRegistering ? 'signin' : 'register')}
+                >
+                  {isRegistering ? 'Sign in' : 'Create an account'}
+                </button>
+              </p>
+            )}
+            {!isRegistering && <p>Demo credentials are pre-filled for {activeTab} login</p>}
           </div>
         </form>
       </div>
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ordersAPI } from '../services/api.ts';
+import socketService from '../services/socket.ts';
+import { useAuth } from '../context/AuthContext.tsx';
+import { Order } from '../types/index.ts';
+import { formatMinor } from '../utils/money.ts';
+import { formatQuantity } from '../utils/units.ts';
+import { ORDER_STATUS_LABELS, ORDER_STATUS_STYLES } from '../utils/orders.ts';
+
+const Orders: React.FC = () => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { authState } = useAuth();
+  const userId = authState.user?.id;
+
+  useEffect(() => {
+    const loadOrders = async () => {
+      try {
+        setOrders(await ordersAPI.getAll());
+      } catch (error: any) {
+        console.error('Error fetching orders:', error);
+        setError(error.response?.data?.message || 'Failed to load your orders');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadOrders();
+
+    // Pick up payments and exit checks on this customer's orders
+    const handleOrderUpdated = (data: { userId: string }) => {
+      if (data.userId === userId) loadOrders();
+    };
+    socketService.on('order_updated', handleOrderUpdated);
+
+    return () => {
+      socketService.off('order_updated', handleOrderUpdated);
+    };
+  }, [userId]);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">My Orders</h1>
+        <p className="text-gray-600 mt-1">Everything you have checked out, newest first</p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-100 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-gray-600">
+          No orders yet. <Link to="/cart" className="text-primary-600 hover:text-primary-700">Go to cart</Link>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {orders.map(order => (
+            <div key={order.orderId} className="bg-white rounded-lg shadow p-6">
+              <div className="flex flex-wrap justify-between items-start gap-2 mb-4">
+                <div>
+                  <p className="text-sm text-gray-500">{new Date(order.date).toLocaleString()}</p>
+                  <p className="text-sm font-mono text-gray-500">{order.orderId}</p>
+                </div>
+                <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${ORDER_STATUS_STYLES[order.status]}`}>
+                  {ORDER_STATUS_LABELS[order.status]}
+                </span>
+              </div>
+
+              <div className="space-y-2 mb-4">
+                {order.items.map(item => (
+                  <div key={item.id} className="flex justify-between text-gray-700">
+                    <span>{formatQuantity(item, item.quantity)} × {item.name}</span>
+                    <span>{item.lineTotalMinor !== undefined ? formatMinor(item.lineTotalMinor) : `₹${(item.price * item.quantity).toFixed(2)}`}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="border-t border-gray-200 pt-3 space-y-1">
+                {order.loyalty && order.loyalty.pointsRedeemed > 0 && (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Paid with {order.loyalty.pointsRedeemed} points</span>
+                    <span>-{formatMinor(order.loyalty.redeemedMinor)}</span>
+                  </div>
+                )}
+                {order.loyalty?.pointsEarned ? (
+                  <div className="flex justify-between text-sm text-gray-600">
+                    <span>Points earned</span>
+                    <span>+{order.loyalty.pointsEarned}</span>
+                  </div>
+                ) : null}
+                <div className="flex justify-between font-bold text-gray-800">
+                  <span>Total</span>
+                  <span>{formatMinor(order.pricing.totalMinor)}</span>
+                </div>
+                {order.refundedMinor ? (
+                  <div className="flex justify-between text-sm text-red-600">
+                    <span>Refunded</span>
+                    <span>-{formatMinor(order.refundedMinor)}</span>
+                  </div>
+                ) : null}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Orders;
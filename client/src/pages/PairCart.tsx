@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useCart } from '../context/CartContext.tsx';
+
+// Landing page for the QR code shown by a free cart. The code encodes
+// /pair?device=<deviceId>&code=<pairingCode>, so scanning it with a phone
+// camera opens this page and claims the cart.
+const PairCart: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { connectToCart } = useCart();
+  const deviceId = searchParams.get('device') || '';
+  const code = searchParams.get('code') || '';
+  const [status, setStatus] = useState<'pairing' | 'paired' | 'failed'>('pairing');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!deviceId || !code) {
+      setStatus('failed');
+      setMessage('This pairing link is incomplete. Scan the QR code on the cart again.');
+      return;
+    }
+
+    connectToCart(deviceId, code)
+      .then(() => {
+        setStatus('paired');
+        setTimeout(() => navigate('/', { replace: true }), 1500);
+      })
+      .catch((error: any) => {
+        setStatus('failed');
+        setMessage(error.response?.data?.message || 'Failed to connect to cart');
+      });
+  }, [deviceId, code]);
+
+  return (
+    <div className="container mx-auto px-4 py-16 flex justify-center">
+      <div className="bg-white rounded-lg shadow-md p-8 w-full max-w-md text-center">
+        {status === 'pairing' && (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500 mx-auto mb-4"></div>
+            <h1 className="text-xl font-semibold text-gray-800">Connecting to cart {deviceId}...</h1>
+          </>
+        )}
+
+        {status === 'paired' && (
+          <>
+            <div className="h-12 w-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7" />
+              </svg>
+            </div>
+            <h1 className="text-xl font-semibold text-gray-800">Connected to cart {deviceId}</h1>
+            <p className="text-gray-600 mt-2">Start scanning items to add them to your cart.</p>
+          </>
+        )}
+
+        {status === 'failed' && (
+          <>
+            <h1 className="text-xl font-semibold text-red-600">Could not connect to the cart</h1>
+            <p className="text-gray-600 mt-2">{message}</p>
+            <Link to="/" className="inline-block mt-6 text-primary-600 hover:text-primary-700 font-medium">
+              Enter the code manually →
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PairCart;
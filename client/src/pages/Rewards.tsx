@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { loyaltyAPI } from '../services/api.ts';
+import { LoyaltyAccount } from '../types/index.ts';
+import { formatMinor } from '../utils/money.ts';
+import { LOYALTY_ENTRY_LABELS, pointsValueMinor } from '../utils/loyalty.ts';
+
+const Rewards: React.FC = () => {
+  const [account, setAccount] = useState<LoyaltyAccount | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAccount = async () => {
+      try {
+        setAccount(await loyaltyAPI.getMine());
+      } catch (error: any) {
+        console.error('Error fetching loyalty points:', error);
+        setError(error.response?.data?.message || 'Failed to load your points');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAccount();
+  }, []);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">Rewards</h1>
+        <p className="text-gray-600 mt-1">Earn points on every order and use them to pay for the next one</p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : error || !account ? (
+        <div className="bg-red-100 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <p className="text-sm text-gray-500 uppercase tracking-wider">Points balance</p>
+            <p className="text-4xl font-bold text-gray-800 mt-1">{account.balance}</p>
+            <p className="text-gray-600 mt-1">
+              Worth {formatMinor(pointsValueMinor(account.balance, account.settings))} at checkout
+            </p>
+            <p className="text-sm text-gray-500 mt-4">
+              You earn {account.settings.earnRate} {account.settings.earnRate === 1 ? 'point' : 'points'} for
+              every ₹100 you pay. Points can pay for up to {account.settings.maxRedeemPercent}% of an order.
+            </p>
+            <Link to="/cart" className="inline-block mt-4 text-primary-600 hover:text-primary-700">
+              Go to cart
+            </Link>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-medium text-gray-800">History</h2>
+            </div>
+            {account.history.length === 0 ? (
+              <p className="p-6 text-gray-600">No points yet. Check out an order to start earning.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                      <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Points</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {account.history.map(entry => (
+                      <tr key={entry.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">{entry.orderId}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {LOYALTY_ENTRY_LABELS[entry.type]}
+                          {entry.note && <span className="block text-xs text-gray-500">{entry.note}</span>}
+                        </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                          entry.points >= 0 ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {entry.points > 0 ? `+${entry.points}` : entry.points}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Rewards;
@@ -23,10 +23,9 @@ const RfidSimulator: React.FC = () => {
   const [socketConnected, setSocketConnected] = useState(false);
   const [simulatedCart, setSimulatedCart] = useState<CartItem[]>([]);
   const [simulationMode, setSimulationMode] = useState<'manual' | 'scenario' | 'device'>('manual');
-  const [customerId, setCustomerId] = useState<string>('2');
   const [deviceId, setDeviceId] = useState<string>('cart_001');
   const [scenarioRunning, setScenarioRunning] = useState(false);
-  const [useHttp, setUseHttp] = useState<boolean>(true);
+  const [weightGrams, setWeightGrams] = useState<string>('');
 
   // Fetch products on component mount
   useEffect(() => {
@@ -150,63 +149,47 @@ const RfidSimulator: React.FC = () => {
     }
 
     try {
-      // Simulate an HTTP request instead of a WebSocket if the useHttp flag is set
-      if (useHttp) {
-        addLog(`Using HTTP mode to simulate RFID scan: ${product.name} (${action})`);
+      // Scans go over HTTP, as the NodeMCU sends them. Staff can act as any
+      // registered device; a browser socket cannot.
+      addLog(`Simulating RFID scan: ${product.name} (${action})`);
+      
+      if (simulationMode === 'device') {
+        // Simulate a direct device request (like from NodeMCU)
+        const result = await handleDeviceRequest(product.rfidTag, action, deviceId);
         
-        if (simulationMode === 'device') {
-          // Simulate a direct device request (like from NodeMCU)
-          const result = await handleDeviceRequest(product.rfidTag, action, deviceId);
+        if (result.success) {
+          addLog(`Successfully ${action === 'add' ? 'added' : 'removed'} ${product.name} using device ${deviceId}`);
           
-          if (result.success) {
-            addLog(`Successfully ${action === 'add' ? 'added' : 'removed'} ${product.name} using device ${deviceId}`);
-            
-            // Update local cart preview
-            if (action === 'add') {
-              addToSimulatedCart(product);
-            } else {
-              removeFromSimulatedCart(product.id);
-            }
+          // Update local cart preview
+          if (action === 'add') {
+            addToSimulatedCart(product);
           } else {
-            addLog(`Error: ${result.error}`);
-            if (result.isServerError) {
-              addLog('Server error. The server may be starting up. Try again in a moment.');
-            }
+            removeFromSimulatedCart(product.id);
           }
         } else {
-          // Use regular user-based RFID scan
-          const result = await rfidScan(product.rfidTag, action);
-          
-          if (result.success) {
-            addLog(`Successfully ${action === 'add' ? 'added' : 'removed'} ${product.name}`);
-            
-            // Update local cart preview
-            if (action === 'add') {
-              addToSimulatedCart(product);
-            } else {
-              removeFromSimulatedCart(product.id);
-            }
-          } else {
-            addLog(`Error: ${result.error}`);
-            if (result.isServerError) {
-              addLog('Server error. The server may be starting up. Try again in a moment.');
-            }
+          addLog(`Error: ${result.error}`);
+          if (result.isServerError) {
+            addLog('Server error. The server may be starting up. Try again in a moment.');
           }
         }
       } else {
-        // Original WebSocket implementation
-    socketService.emit('rfid_scan', {
-      rfidTag: product.rfidTag,
-      action,
-          userId: customerId
-        });
-        addLog(`Simulated RFID scan via WebSocket: ${product.name} (${action})`);
+        // Use regular user-based RFID scan
+        const result = await rfidScan(product.rfidTag, action);
         
-        // Update local cart preview immediately (even before socket confirmation)
-        if (action === 'add') {
-          addToSimulatedCart(product);
+        if (result.success) {
+          addLog(`Successfully ${action === 'add' ? 'added' : 'removed'} ${product.name}`);
+          
+          // Update local cart preview
+          if (action === 'add') {
+            addToSimulatedCart(product);
+          } else {
+            removeFromSimulatedCart(product.id);
+          }
         } else {
-          removeFromSimulatedCart(product.id);
+          addLog(`Error: ${result.error}`);
+          if (result.isServerError) {
+            addLog('Server error. The server may be starting up. Try again in a moment.');
+          }
         }
       }
     } catch (err) {
@@ -235,6 +218,28 @@ const RfidSimulator: React.FC = () => {
     }
   };
 
+  // Simulate the cart's load cell reporting what is in its basket
+  const simulateWeightReading = async () => {
+    const grams = parseFloat(weightGrams);
+    if (isNaN(grams)) {
+      addLog('Error: Enter a weight in grams');
+      return;
+    }
+
+    try {
+      addLog(`Sending load cell reading of ${grams} g from device ${deviceId}...`);
+      const result = await cartAPI.reportWeight(deviceId, grams);
+      const { check } = result;
+      addLog(
+        `Weight check: ${check.status} (expected ${check.expectedGrams} g, measured ${check.measuredGrams} g)` +
+          (result.blocked ? ' - checkout is on hold' : '')
+      );
+    } catch (err: any) {
+      console.error('Weight reading error:', err);
+      addLog(`Weight reading failed: ${err.response?.data?.message || err.message || 'Unknown error'}`);
+    }
+  };
+
   // Run a shopping scenario
   const runShoppingScenario = async () => {
     if (scenarioRunning) return;
@@ -260,18 +265,10 @@ const RfidSimulator: React.FC = () => {
       await new Promise(resolve => setTimeout(resolve, 1500));
       
       try {
-        if (useHttp) {
-          if (simulationMode === 'device') {
-            await handleDeviceRequest(product.rfidTag, 'add', deviceId);
-          } else {
-            await rfidScan(product.rfidTag, 'add');
-          }
+        if (simulationMode === 'device') {
+          await handleDeviceRequest(product.rfidTag, 'add', deviceId);
         } else {
-          socketService.emit('rfid_scan', {
-            rfidTag: product.rfidTag,
-            action: 'add',
-            userId: customerId
-          });
+          await rfidScan(product.rfidTag, 'add');
         }
         
         addLog(`Scenario: Added ${product.name} to cart`);
@@ -289,18 +286,10 @@ const RfidSimulator: React.FC = () => {
         await new Promise(resolve => setTimeout(resolve, 1500));
         
         try {
-          if (useHttp) {
-            if (simulationMode === 'device') {
-              await handleDeviceRequest(product.rfidTag, 'remove', deviceId);
-            } else {
-              await rfidScan(product.rfidTag, 'remove');
-            }
+          if (simulationMode === 'device') {
+            await handleDeviceRequest(product.rfidTag, 'remove', deviceId);
           } else {
-            socketService.emit('rfid_scan', {
-              rfidTag: product.rfidTag,
-              action: 'remove',
-              userId: customerId
-            });
+            await rfidScan(product.rfidTag, 'remove');
           }
           
           addLog(`Scenario: Removed ${product.name} from cart`);
@@ -375,30 +364,6 @@ const RfidSimulator: React.FC = () => {
                 </div>
               </div>
               
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Communication Method</label>
-                <div className="flex space-x-4">
-                  <label className="inline-flex items-center">
-                    <input
-                      type="radio"
-                      checked={useHttp}
-                      onChange={() => setUseHttp(true)}
-                      className="form-radio h-4 w-4 text-primary-600"
-                    />
-                    <span className="ml-2 text-sm text-gray-700">HTTP (NodeMCU)</span>
-                  </label>
-                  <label className="inline-flex items-center">
-                    <input
-                      type="radio"
-                      checked={!useHttp}
-                      onChange={() => setUseHttp(false)}
-                      className="form-radio h-4 w-4 text-primary-600"
-                    />
-                    <span className="ml-2 text-sm text-gray-700">WebSocket</span>
-                  </label>
-                </div>
-              </div>
-
               {simulationMode === 'device' && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="deviceId">
@@ -411,24 +376,30 @@ const RfidSimulator: React.FC = () => {
                     onChange={(e) => setDeviceId(e.target.value)}
                     className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
                   />
-                </div>
-              )}
 
-              {simulationMode !== 'device' && !useHttp && (
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="customerId">
-                    Customer ID
+                  <label className="block text-sm font-medium text-gray-700 mb-1 mt-4" htmlFor="weightGrams">
+                    Load cell reading (g)
                   </label>
-                  <input
-                    type="text"
-                    id="customerId"
-                    value={customerId}
-                    onChange={(e) => setCustomerId(e.target.value)}
-                    className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
-                  />
+                  <div className="flex space-x-2">
+                    <input
+                      type="number"
+                      id="weightGrams"
+                      min="0"
+                      value={weightGrams}
+                      onChange={(e) => setWeightGrams(e.target.value)}
+                      className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={simulateWeightReading}
+                      className="px-3 py-2 bg-gray-800 hover:bg-gray-900 text-white text-sm rounded-md transition whitespace-nowrap"
+                    >
+                      Send Weight
+                    </button>
+                  </div>
                 </div>
               )}
-              
+
               {simulationMode === 'manual' && (
                 <>
                   <div>
@@ -493,9 +464,9 @@ const RfidSimulator: React.FC = () => {
               <button
                   type="button"
                   onClick={runShoppingScenario}
-                  disabled={scenarioRunning || (!socketConnected && !useHttp)}
+                  disabled={scenarioRunning}
                   className={`w-full py-2 px-4 rounded-md text-white font-medium ${
-                    scenarioRunning || (!socketConnected && !useHttp) ? 'bg-gray-400 cursor-not-allowed' : 'bg-primary-600 hover:bg-primary-700'
+                    scenarioRunning ? 'bg-gray-400 cursor-not-allowed' : 'bg-primary-600 hover:bg-primary-700'
                   }`}
                 >
                   {scenarioRunning ? 'Running Scenario...' : 'Run Shopping Scenario'}
@@ -511,22 +482,14 @@ const RfidSimulator: React.FC = () => {
                   >
                     Simulate NodeMCU Test Scan
                   </button>
-                  
-                  {!useHttp && (
-                    <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
-                      Note: NodeMCU now uses HTTP instead of WebSockets. Switch to HTTP mode for accurate simulation.
-                    </div>
-                  )}
                 </>
               )}
               
-              {!useHttp && (
-                <div className="mt-4">
-                  <div className={`text-sm ${socketConnected ? 'text-green-600' : 'text-red-600'}`}>
-                    {socketConnected ? 'Socket Connected' : 'Socket Disconnected'}
-                  </div>
+              <div className="mt-4">
+                <div className={`text-sm ${socketConnected ? 'text-green-600' : 'text-red-600'}`}>
+                  {socketConnected ? 'Socket Connected' : 'Socket Disconnected'}
                 </div>
-              )}
+              </div>
             </div>
           </div>
           
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { OrderTender, RefundRequest } from '../types';
 
 // Support both local and hosted server
 // Try local development server first, fall back to hosted server
@@ -17,13 +18,75 @@ const api = axios.create({
   timeout: 20000 // 20 seconds timeout for slow server startup
 });
 
+// Access and refresh tokens are kept in localStorage
+export const tokenStorage = {
+  getAccessToken: () => localStorage.getItem('token'),
+  getRefreshToken: () => localStorage.getItem('refreshToken'),
+  setTokens: (token: string, refreshToken: string) => {
+    localStorage.setItem('token', token);
+    localStorage.setItem('refreshToken', refreshToken);
+  },
+  clear: () => {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+  }
+};
+
+// Called when the session can no longer be refreshed (set by AuthContext)
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Only one refresh runs at a time; concurrent 401s wait for the same result
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = tokenStorage.getRefreshToken();
+
+    refreshPromise = (refreshToken
+      ? axios.post(`${api.defaults.baseURL}/auth/refresh`, { refreshToken }, { timeout: 20000 })
+      : Promise.reject(new Error('No refresh token available'))
+    )
+      .then(response => {
+        tokenStorage.setTokens(response.data.token, response.data.refreshToken);
+        return response.data.token as string;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+};
+
+// Random key for the Idempotency-Key header. Reuse the same key when retrying a
+// request so the server applies it only once.
+export const createIdempotencyKey = (): string =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const IDEMPOTENT_METHODS = ['post', 'put', 'patch', 'delete'];
+
+// Auth routes that must not trigger a refresh when they fail
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
 // Add request interceptor for authentication
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('token');
+    const token = tokenStorage.getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+
+    // Give every mutating request a key, kept when the request is replayed
+    // after a token refresh
+    if (IDEMPOTENT_METHODS.includes(config.method || '') && !config.headers['Idempotency-Key']) {
+      config.headers['Idempotency-Key'] = createIdempotencyKey();
+    }
     
     // Log outgoing requests in development
     if (isLocalDevelopment) {
@@ -46,7 +109,31 @@ api.interceptors.response.use(
     }
     return response;
   },
-  (error) => {
+  async (error) => {
+    const originalRequest = error.config;
+    const status = error.response?.status;
+
+    // Access token expired or was revoked: refresh once and replay the request
+    if (
+      (status === 401 || status === 403) &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !NO_REFRESH_URLS.includes(originalRequest.url)
+    ) {
+      originalRequest._retry = true;
+
+      try {
+        const token = await refreshAccessToken();
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return api(originalRequest);
+      } catch (refreshError) {
+        tokenStorage.clear();
+        if (sessionExpiredHandler) {
+          sessionExpiredHandler();
+        }
+      }
+    }
+
     // Handle server startup delays (502 Bad Gateway errors from render.com)
     if (error.response && error.response.status === 502) {
       console.log('Server may be starting up (502 error). Will retry automatically.');
@@ -70,9 +157,166 @@ export const authAPI = {
     const response = await api.post('/auth/login', { username, password });
     return response.data;
   },
+  register: async (username: string, password: string) => {
+    const response = await api.post('/auth/register', { username, password });
+    return response.data;
+  },
   getCurrentUser: async () => {
     const response = await api.get('/auth/me');
     return response.data;
+  },
+  logout: async (refreshToken: string) => {
+    const response = await api.post('/auth/logout', { refreshToken });
+    return response.data;
+  }
+};
+
+// Users API (admin only)
+export const usersAPI = {
+  getAll: async () => {
+    const response = await api.get('/users');
+    return response.data;
+  },
+  
+  create: async (user: { username: string; password: string; role: string }) => {
+    const response = await api.post('/users', user);
+    return response.data;
+  },
+  
+  update: async (id: string, changes: { role?: string; disabled?: boolean }) => {
+    const response = await api.put(`/users/${id}`, changes);
+    return response.data;
+  },
+  
+  resetPassword: async (id: string, password: string) => {
+    const response = await api.post(`/users/${id}/reset-password`, { password });
+    return response.data;
+  },
+  
+  delete: async (id: string) => {
+    const response = await api.delete(`/users/${id}`);
+    return response.data;
+  }
+};
+
+// Devices API
+type DeviceFields = { label?: string; store?: string; firmwareVersion?: string };
+
+export const devicesAPI = {
+  getAll: async () => {
+    const response = await api.get('/devices');
+    return response.data;
+  },
+  
+  create: async (device: { id: string } & DeviceFields) => {
+    const response = await api.post('/devices', device);
+    return response.data;
+  },
+  
+  update: async (id: string, changes: DeviceFields) => {
+    const response = await api.put(`/devices/${id}`, changes);
+    return response.data;
+  },
+  
+  getTelemetry: async (id: string) => {
+    const response = await api.get(`/devices/${id}/telemetry`);
+    return response.data;
+  },
+  
+  getPairingCode: async (id: string) => {
+    const response = await api.post(`/devices/${id}/pairing-code`, {});
+    return response.data;
+  },
+  
+  release: async (id: string) => {
+    const response = await api.post(`/devices/${id}/release`);
+    return response.data;
+  },
+  
+  rotateSecret: async (id: string) => {
+    const response = await api.post(`/devices/${id}/rotate-secret`);
+    return response.data;
+  },
+  
+  revoke: async (id: string) => {
+    const response = await api.post(`/devices/${id}/revoke`);
+    return response.data;
+  },
+  
+  delete: async (id: string) => {
+    const response = await api.delete(`/devices/${id}`);
+    return response.data;
+  }
+};
+
+// Loyalty API
+export const loyaltyAPI = {
+  getMine: async () => {
+    const response = await api.get('/loyalty/me');
+    return response.data;
+  },
+  
+  getSettings: async () => {
+    const response = await api.get('/loyalty/settings');
+    return response.data;
+  },
+  
+  updateSettings: async (settings: Record<string, unknown>) => {
+    const response = await api.put('/loyalty/settings', settings);
+    return response.data;
+  },
+  
+  reverseOrder: async (orderId: string, note?: string) => {
+    const response = await api.post(`/loyalty/orders/${encodeURIComponent(orderId)}/reverse`, { note });
+    return response.data;
+  }
+};
+
+// Promotions API
+export const promotionsAPI = {
+  getAll: async () => {
+    const response = await api.get('/promotions');
+    return response.data;
+  },
+  
+  create: async (promotion: Record<string, unknown>) => {
+    const response = await api.post('/promotions', promotion);
+    return response.data;
+  },
+  
+  update: async (id: string, changes: Record<string, unknown>) => {
+    const response = await api.put(`/promotions/${id}`, changes);
+    return response.data;
+  },
+  
+  delete: async (id: string) => {
+    const response = await api.delete(`/promotions/${id}`);
+    return response.data;
+  }
+};
+
+// Orders API. Staff with orders:view get every order and can filter them.
+export const ordersAPI = {
+  getAll: async (filters: Record<string, string> = {}) => {
+    const response = await api.get('/orders', { params: filters });
+    return response.data;
+  },
+  
+  getById: async (orderId: string) => {
+    const response = await api.get(`/orders/${encodeURIComponent(orderId)}`);
+    return response.data;
+  },
+
+  updateStatus: async (orderId: string, status: string, note?: string) => {
+    const response = await api.post(`/orders/${encodeURIComponent(orderId)}/status`, { status, note });
+    return response.data;
+  },
+
+  // Refund some or all of an order's items; lines default to everything not
+  // yet returned
+  refund: async (orderId: string, refund: RefundRequest) => {
+    const response = await api.post(`/orders/${encodeURIComponent(orderId)}/refunds`, refund);
+    return response.data;
   }
 };
 
@@ -110,56 +354,93 @@ export const cartAPI = {
     const response = await api.get('/cart');
     return response.data;
   },
-  addItem: async (productId: string, quantity: number = 1) => {
-    const response = await api.post('/cart/add', { productId, quantity });
+  // The cart on a device, for a cashier taking payment at the counter
+  getForCounter: async (deviceId: string) => {
+    const response = await api.get(`/cart/counter/${encodeURIComponent(deviceId)}`);
     return response.data;
   },
-  removeItem: async (productId: string, quantity: number = 1) => {
-    const response = await api.post('/cart/remove', { productId, quantity });
+  // Take payment for the cart on a device at the counter and close its order
+  counterCheckout: async (deviceId: string, tenders: OrderTender[], redeemPoints?: number) => {
+    const response = await api.post(`/cart/counter/${encodeURIComponent(deviceId)}/checkout`, { tenders, redeemPoints });
+    return response.data;
+  },
+  // Products sold by weight take the weighed grams instead of a quantity
+  addItem: async (productId: string, quantity: number = 1, grams?: number) => {
+    const response = await api.post('/cart/add', { productId, quantity, grams });
+    return response.data;
+  },
+  // Without grams, a product sold by weight loses its whole line
+  removeItem: async (productId: string, quantity: number = 1, grams?: number) => {
+    const response = await api.post('/cart/remove', { productId, quantity, grams });
     return response.data;
   },
   clear: async () => {
     const response = await api.delete('/cart/clear');
     return response.data;
   },
-  rfidScan: async (rfidTag: string, action: 'add' | 'remove', deviceId?: string) => {
+  rfidScan: async (rfidTag: string, action: 'add' | 'remove', deviceId?: string, idempotencyKey?: string) => {
     const payload = { rfidTag, action };
     if (deviceId) {
       Object.assign(payload, { deviceId });
     }
-    const response = await api.post('/cart/rfid-scan', payload);
+    const response = await api.post('/cart/rfid-scan', payload, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}
+    });
     return response.data;
   },
-  connectCart: async (deviceId: string) => {
-    const response = await api.post('/cart/connect-device', { deviceId });
+  connectCart: async (deviceId: string, code: string) => {
+    const response = await api.post('/cart/connect-device', { deviceId, code });
     return response.data;
   },
   disconnectCart: async () => {
     const response = await api.post('/cart/disconnect-device');
     return response.data;
   },
-  checkout: async () => {
-    const response = await api.post('/cart/checkout');
+  checkout: async (redeemPoints?: number) => {
+    const response = await api.post('/cart/checkout', { redeemPoints });
+    return response.data;
+  },
+  applyCoupon: async (code: string) => {
+    const response = await api.post('/cart/apply-coupon', { code });
+    return response.data;
+  },
+  removeCoupon: async () => {
+    const response = await api.delete('/cart/coupon');
     return response.data;
   },
   // Updated method to use the same path as NodeMCU
-  handleDeviceRequest: async (rfidTag: string, action: string, deviceId: string) => {
+  handleDeviceRequest: async (rfidTag: string, action: string, deviceId: string, idempotencyKey?: string) => {
     const response = await api.post('/cart/rfid-scan', { 
       rfidTag, 
       action, 
       deviceId 
+    }, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}
     });
     return response.data;
   },
   getConnectedDevices: async () => {
     const response = await api.get('/cart/connected-devices');
     return response.data;
+  },
+  // Load cell reading as sent by a cart, used by the RFID simulator
+  reportWeight: async (deviceId: string, grams: number) => {
+    const response = await api.post('/cart/device/weight', { deviceId, grams });
+    return response.data;
+  },
+  getWeightMismatches: async () => {
+    const response = await api.get('/cart/weight-mismatches');
+    return response.data;
+  },
+  overrideWeight: async (userId: string, note?: string) => {
+    const response = await api.post(`/cart/users/${userId}/weight-override`, { note });
+    return response.data;
   }
 };
 
 // Payment API
 export const paymentAPI = {
-  createOrder: async () => {
+  createOrder: async (redeemPoints?: number) => {
     try {
       // First check if the user has a cart with items
       const cartResponse = await api.get('/cart');
@@ -174,7 +455,7 @@ export const paymentAPI = {
       }
       
       // Proceed with creating the payment order
-      const response = await api.post('/payment/create-order');
+      const response = await api.post('/payment/create-order', { redeemPoints });
       return response.data;
     } catch (error: any) {
       console.error('Error creating payment order:', error);
@@ -184,7 +465,6 @@ export const paymentAPI = {
         // The request was made and the server responded with a status code
         // that falls out of the range of 2xx
         if (error.response.status === 401 || error.response.status === 403) {
-          localStorage.removeItem('token'); // Clear invalid token
           throw new Error('Your session has expired. Please log in again.');
         }
         
@@ -233,12 +513,38 @@ export const paymentAPI = {
       const response = await api.get('/payment/key');
       return response.data;
     } catch (error: any) {
-      console.error('Error getting Razorpay key:', error);
+      console.error('Error getting payment key:', error);
       if (error.response && error.response.status === 502) {
         throw new Error('The server is starting up. Please try again in a moment.');
       }
       throw error;
     }
+  },
+  // Asks the gateway whether an order was paid, e.g. after a checkout timed out
+  getStatus: async (orderId: string) => {
+    try {
+      const response = await api.get(`/payment/status/${encodeURIComponent(orderId)}`);
+      return response.data;
+    } catch (error: any) {
+      console.error('Error checking payment status:', error);
+      if (error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw error;
+    }
+  },
+  // Pays through the server's mock gateway (PAYMENT_PROVIDER=mock only)
+  mockCheckout: async (orderId: string, outcome: string) => {
+    try {
+      const response = await api.post('/payment/mock/checkout', { orderId, outcome });
+      return response.data;
+    } catch (error: any) {
+      console.error('Error in mock checkout:', error);
+      if (error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw error;
+    }
   }
 };
 
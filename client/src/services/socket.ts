@@ -1,5 +1,5 @@
 import { io, Socket } from 'socket.io-client';
-import { Product, Cart } from '../types';
+import { Product, Cart, Device, WeightCheck, OrderStatus } from '../types';
 
 // Use the hosted server
 const SOCKET_URL = 'https://smart-cart-test.onrender.com';
@@ -8,11 +8,13 @@ interface ServerToClientEvents {
   product_scanned: (data: { product: Product; action: 'add' | 'remove' }) => void;
   cart_updated: (data: { userId: string; carts: Cart[] }) => void;
   inventory_updated: (data: { products: Product[] }) => void;
+  device_status: (data: { device: Device }) => void;
+  weight_mismatch: (data: { deviceId: string; userId: string; cartId: string; mismatch: WeightCheck }) => void;
+  order_updated: (data: { orderId: string; userId: string; status: OrderStatus; previousStatus: OrderStatus | null; at: string }) => void;
   error: (data: { message: string }) => void;
 }
 
 interface ClientToServerEvents {
-  rfid_scan: (data: { rfidTag: string; action: 'add' | 'remove'; userId: string }) => void;
   inventory_update: (data: { productId: string; quantity: number }) => void;
   payment_completed: (data: { userId: string; orderId: string; paymentId: string }) => void;
 }
@@ -94,6 +96,18 @@ class SocketService {
       this.triggerListeners('inventory_updated', data);
     });
 
+    this.socket.on('device_status', (data) => {
+      this.triggerListeners('device_status', data);
+    });
+
+    this.socket.on('weight_mismatch', (data) => {
+      this.triggerListeners('weight_mismatch', data);
+    });
+
+    this.socket.on('order_updated', (data) => {
+      this.triggerListeners('order_updated', data);
+    });
+
     this.socket.on('error', (data) => {
       this.triggerListeners('error', data);
     });
@@ -116,7 +130,7 @@ class SocketService {
     this.listeners[event].forEach(callback => callback(data));
   }
 
-  emit(event: 'rfid_scan' | 'inventory_update' | 'payment_completed', data: any): void {
+  emit(event: 'inventory_update' | 'payment_completed', data: any): void {
     if (!this.socket || !this.socket.connected) {
       // Try to reconnect if not connected
       const token = localStorage.getItem('token');
@@ -1,31 +1,328 @@
+export type Role = 'admin' | 'store_manager' | 'inventory_clerk' | 'cashier' | 'customer';
+
+export type Permission =
+  | 'dashboard:view'
+  | 'products:write'
+  | 'inventory:adjust'
+  | 'orders:view'
+  | 'orders:manage'
+  | 'orders:refund'
+  | 'payments:take'
+  | 'carts:override'
+  | 'promotions:manage'
+  | 'devices:manage'
+  | 'users:manage';
+
 export interface User {
   id: string;
   username: string;
-  role: 'admin' | 'customer';
+  role: Role;
+  disabled?: boolean;
+  createdAt?: string;
 }
 
+// Products sold by weight are priced per kg and stocked in kg
+export type SoldBy = 'unit' | 'weight';
+
 export interface Product {
   id: string;
   name: string;
   price: number;
   rfidTag: string;
   quantity: number;
+  soldBy?: SoldBy;
   image?: string;
   weight?: number;
+  category?: string;
+  hsnCode?: string;
+  gstRate?: number;
+  priceIncludesTax?: boolean;
 }
 
+// Cart items are priced by the server from the current catalogue. Amounts
+// ending in Minor are integers in the currency's smallest unit (paise). The
+// quantity of a product sold by weight is in kg.
 export interface CartItem extends Product {
   quantity: number;
+  unitPriceMinor?: number;
+  taxableMinor?: number;
+  cgstMinor?: number;
+  sgstMinor?: number;
+  igstMinor?: number;
+  taxMinor?: number;
+  discountMinor?: number;
+  discounts?: PriceAdjustment[];
+  lineTotalMinor?: number;
+  unavailable?: boolean;
+}
+
+// Discounts carry the promotion that gave them and, like the subtotal,
+// exclude GST
+export interface PriceAdjustment {
+  label: string;
+  amountMinor: number;
+  promotionId?: string;
+}
+
+export interface CouponStatus {
+  code: string;
+  name?: string;
+  valid: boolean;
+  message?: string;
+}
+
+// One row of the GST invoice summary, per HSN code and rate
+export interface TaxSummaryRow {
+  hsnCode: string | null;
+  gstRate: number;
+  taxableMinor: number;
+  cgstMinor: number;
+  sgstMinor: number;
+  igstMinor: number;
+}
+
+export interface CartPricing {
+  currency: string;
+  subtotalMinor: number;
+  discountMinor: number;
+  taxMinor: number;
+  totalMinor: number;
+  discounts: PriceAdjustment[];
+  taxes: PriceAdjustment[];
+  placeOfSupply?: string;
+  supplyType?: 'intra-state' | 'inter-state';
+  taxSummary?: TaxSummaryRow[];
+  coupon?: CouponStatus;
+}
+
+export type WeightCheckStatus = 'ok' | 'unscanned_item' | 'missing_item' | 'unverified';
+
+// A load cell reading compared with the weight of the scanned items, in grams
+export interface WeightCheck {
+  status: WeightCheckStatus;
+  measuredGrams: number;
+  expectedGrams: number;
+  differenceGrams: number;
+  toleranceGrams: number;
+  unweighedProductIds?: string[];
+  checkedAt: string;
 }
 
 export interface Cart {
   userId: string;
   items: CartItem[];
   total: number;
+  pricing?: CartPricing;
   deviceId?: string;
+  couponCode?: string;
+  weightCheck?: WeightCheck;
+  weightMismatch?: WeightCheck;
   id?: string;
 }
 
+// A cart held at checkout by its load cell, as listed for staff
+export interface WeightAlert {
+  userId: string;
+  username: string | null;
+  cartId: string;
+  deviceId: string | null;
+  mismatch: WeightCheck;
+  weightCheck?: WeightCheck;
+}
+
+export type PromotionType = 'percentage' | 'flat' | 'buy_x_get_y';
+
+export type PromotionStatus = 'active' | 'inactive' | 'scheduled' | 'expired' | 'used_up';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  code?: string;
+  productIds?: string[];
+  categories?: string[];
+  startsAt?: string;
+  endsAt?: string;
+  usageLimit?: number;
+  usageCount: number;
+  active: boolean;
+  status: PromotionStatus;
+  createdAt: string;
+}
+
+export interface LoyaltySettings {
+  earnRate: number;
+  burnRate: number;
+  maxRedeemPercent: number;
+}
+
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'reversal' | 'clawback' | 'refund';
+
+export interface LoyaltyEntry {
+  id: string;
+  userId: string;
+  orderId: string;
+  type: LoyaltyEntryType;
+  points: number;
+  amountMinor?: number;
+  reverses?: string;
+  note?: string;
+  createdAt: string;
+}
+
+export interface LoyaltyAccount {
+  balance: number;
+  settings: LoyaltySettings;
+  history: LoyaltyEntry[];
+}
+
+export interface OrderPoints {
+  pointsRedeemed: number;
+  redeemedMinor: number;
+  pointsEarned?: number;
+  balance?: number;
+}
+
+// Orders start as "pending_payment" while an online payment is open, "paid"
+// once it is collected, or "completed" for checkouts that take no payment in
+// the app. See ORDER_TRANSITIONS in the server's utils/orders.js.
+export type OrderStatus =
+  | 'pending_payment'
+  | 'paid'
+  | 'exit_verified'
+  | 'completed'
+  | 'cancelled'
+  | 'partially_refunded'
+  | 'refunded';
+
+// One step of an order's lifecycle; by is the staff member who made it
+export interface OrderStatusChange {
+  status: OrderStatus;
+  at: string;
+  by?: { id: string; username: string };
+  note?: string;
+}
+
+export type PaymentMethod = 'razorpay' | 'direct' | 'mock' | 'counter';
+
+// Ways a cashier takes payment at the counter
+export type TenderMethod = 'cash' | 'card' | 'upi';
+
+// reference is a card approval code or UPI transaction ID
+export interface OrderTender {
+  method: TenderMethod;
+  amountMinor: number;
+  reference?: string;
+}
+
+// amountMinor is what the payment covered after points. Orders paid at the
+// counter also have the tenders taken, the change given and the cashier.
+export interface OrderPayment {
+  method: PaymentMethod;
+  amountMinor: number;
+  paymentId?: string;
+  providerOrderId?: string;
+  tenders?: OrderTender[];
+  tenderedMinor?: number;
+  changeMinor?: number;
+  takenBy?: { id: string; username: string };
+  lastFailure?: {
+    paymentId: string;
+    code: string | null;
+    description: string | null;
+    at: string;
+  };
+}
+
+// One line of a refund: how much of a product came back and what it cost
+export interface RefundLine {
+  id: string;
+  name: string;
+  quantity: number;
+  amountMinor: number;
+}
+
+// refundId is the payment provider's ID for the refund, or the store's for
+// money handed back at the counter (source "store"). Refunds made by staff
+// in the app also have lines, reason, restock and by.
+export interface OrderRefund {
+  refundId: string;
+  amountMinor: number;
+  source: string;
+  at: string;
+  lines?: RefundLine[];
+  reason?: string;
+  restock?: boolean;
+  by?: { id: string; username: string };
+}
+
+// A shopper's cart as a cashier sees it at the counter
+export interface CounterCart {
+  deviceId: string;
+  cart: Cart & { pricing: CartPricing };
+  user: { id: string; username: string } | null;
+  loyalty: { balance: number; settings: LoyaltySettings };
+}
+
+// A payment captured after its order was cancelled, which was given back
+export interface VoidedPayment {
+  paymentId: string;
+  refundId: string;
+  amountMinor: number;
+  at: string;
+}
+
+export interface RefundRequest {
+  lines?: { id: string; quantity: number }[];
+  reason: string;
+  restock: boolean;
+}
+
+export interface Order {
+  orderId: string;
+  userId: string;
+  username?: string | null;
+  status: OrderStatus;
+  items: CartItem[];
+  total: number;
+  pricing: CartPricing;
+  payment: OrderPayment;
+  date: string;
+  deviceId: string | null;
+  cartId?: string | null;
+  loyalty?: OrderPoints;
+  statusHistory?: OrderStatusChange[];
+  refunds?: OrderRefund[];
+  refundedMinor?: number;
+  voidedPayments?: VoidedPayment[];
+}
+
+export type DeviceStatus = 'online' | 'stale' | 'offline' | 'revoked';
+
+export interface DeviceTelemetry {
+  at: string;
+  uptime?: number;
+  rssi?: number;
+  batteryVoltage?: number;
+  freeHeap?: number;
+}
+
+export interface Device {
+  id: string;
+  label?: string;
+  store?: string;
+  firmwareVersion?: string;
+  status: DeviceStatus;
+  lastSeenAt: string | null;
+  telemetry?: DeviceTelemetry;
+  assignedUser: { id: string; username: string } | null;
+  createdAt: string;
+  revokedAt?: string;
+}
+
 export interface AuthState {
   isAuthenticated: boolean;
   user: User | null;
@@ -37,6 +334,7 @@ export interface AuthState {
 export interface AuthContextType {
   authState: AuthState;
   login: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
   logout: () => void;
 }
 
@@ -52,14 +350,16 @@ export interface CartContextType {
   loading: boolean;
   error: string | null;
   fetchCart: () => Promise<void>;
-  addToCart: (productId: string, quantity?: number) => Promise<void>;
-  removeFromCart: (productId: string, quantity?: number) => Promise<void>;
+  addToCart: (productId: string, quantity?: number, grams?: number) => Promise<void>;
+  removeFromCart: (productId: string, quantity?: number, grams?: number) => Promise<void>;
   clearCart: () => Promise<void>;
   rfidScan: (rfidTag: string, action: 'add' | 'remove') => Promise<RfidResponse>;
-  connectToCart: (deviceId: string) => Promise<void>;
+  connectToCart: (deviceId: string, code: string) => Promise<void>;
   disconnectCart: () => Promise<void>;
-  checkout: () => Promise<void>;
+  checkout: (redeemPoints?: number) => Promise<void>;
   handleDeviceRequest: (rfidTag: string, action: string, deviceId: string) => Promise<RfidResponse>;
+  applyCoupon: (code: string) => Promise<void>;
+  removeCoupon: () => Promise<void>;
   clearError: () => void;
 }
 
@@ -79,10 +379,38 @@ export interface PaymentInfo {
   orderId: string;
   amount: number;
   currency: string;
+  pricing?: CartPricing;
+  loyalty?: OrderPoints;
+}
+
+// The gateway the server takes payments through; mock is its built-in
+// offline gateway for development
+export type PaymentProviderName = 'razorpay' | 'mock';
+
+export interface PaymentKey {
+  key: string;
+  provider: PaymentProviderName;
+}
+
+// How a payment made in the mock checkout ends
+export type MockPaymentOutcome = 'success' | 'failure' | 'timeout';
+
+export interface PaymentConfirmation {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+}
+
+// providerStatus is the gateway's status for the order: created, attempted
+// or paid
+export interface PaymentStatus {
+  orderId: string;
+  providerStatus: string;
+  order: Order;
 }
 
 export interface PaymentContextType {
-  createOrder: () => Promise<PaymentInfo>;
+  createOrder: (redeemPoints?: number) => Promise<PaymentInfo>;
   verifyPayment: (paymentId: string, orderId: string, signature: string) => Promise<boolean>;
   loading: boolean;
   error: string | null;
@@ -0,0 +1,49 @@
+import { Device, DeviceStatus } from '../types';
+
+export const DEVICE_STATUS_STYLES: Record<DeviceStatus, string> = {
+  online: 'bg-green-100 text-green-800',
+  stale: 'bg-yellow-100 text-yellow-800',
+  offline: 'bg-gray-100 text-gray-800',
+  revoked: 'bg-red-100 text-red-800'
+};
+
+export const DEVICE_STATUS_LABELS: Record<DeviceStatus, string> = {
+  online: 'Online',
+  stale: 'Not Responding',
+  offline: 'Offline',
+  revoked: 'Revoked'
+};
+
+// A single-cell Li-ion pack is nearly flat below 3.5V, and Wi-Fi gets
+// unreliable below about -80 dBm
+export const LOW_BATTERY_VOLTS = 3.5;
+export const WEAK_SIGNAL_DBM = -80;
+
+export const formatUptime = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+// Problems worth showing staff for a device that should be in service, based
+// on its status and latest heartbeat
+export const deviceWarnings = (device: Device): string[] => {
+  if (device.status === 'revoked' || device.status === 'offline') {
+    return [];
+  }
+
+  const warnings: string[] = [];
+  const { telemetry } = device;
+
+  if (device.status === 'stale') {
+    warnings.push('Not responding');
+  }
+  if (telemetry?.batteryVoltage !== undefined && telemetry.batteryVoltage < LOW_BATTERY_VOLTS) {
+    warnings.push(`Low battery (${telemetry.batteryVoltage.toFixed(2)}V)`);
+  }
+  if (telemetry?.rssi !== undefined && telemetry.rssi < WEAK_SIGNAL_DBM) {
+    warnings.push(`Weak Wi-Fi (${telemetry.rssi} dBm)`);
+  }
+
+  return warnings;
+};
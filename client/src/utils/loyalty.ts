@@ -0,0 +1,25 @@
+import { LoyaltyEntryType, LoyaltySettings } from '../types';
+
+export const LOYALTY_ENTRY_LABELS: Record<LoyaltyEntryType, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  reversal: 'Reversed',
+  clawback: 'Refund adjustment',
+  refund: 'Refunded'
+};
+
+// What a number of points is worth, in paise
+export const pointsValueMinor = (points: number, settings: LoyaltySettings): number =>
+  Math.round(points * settings.burnRate * 100);
+
+// Most points that can go towards an order, given the balance and the
+// share of an order points may pay for (the server checks this again)
+export const maxRedeemablePoints = (
+  balance: number,
+  totalMinor: number,
+  settings: LoyaltySettings
+): number => {
+  if (settings.burnRate <= 0) return 0;
+  const limitMinor = Math.floor((totalMinor * settings.maxRedeemPercent) / 100);
+  return Math.max(0, Math.min(balance, Math.floor(limitMinor / (settings.burnRate * 100))));
+};
@@ -0,0 +1,2 @@
+// Format an amount in paise, as sent by the server's pricing breakdown
+export const formatMinor = (minor: number): string => `₹${(minor / 100).toFixed(2)}`;
@@ -0,0 +1,73 @@
+import { Order, OrderStatus, PaymentMethod, TenderMethod } from '../types';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending_payment: 'Awaiting payment',
+  paid: 'Paid',
+  exit_verified: 'Exit verified',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded'
+};
+
+export const ORDER_STATUS_STYLES: Record<OrderStatus, string> = {
+  pending_payment: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  exit_verified: 'bg-indigo-100 text-indigo-800',
+  completed: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  partially_refunded: 'bg-orange-100 text-orange-800',
+  refunded: 'bg-red-100 text-red-800'
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  razorpay: 'Razorpay',
+  direct: 'No payment taken',
+  mock: 'Mock gateway',
+  counter: 'At the counter'
+};
+
+export const TENDER_METHOD_LABELS: Record<TenderMethod, string> = {
+  cash: 'Cash',
+  card: 'Card at counter',
+  upi: 'UPI at counter'
+};
+
+// Statuses staff can move an order to by hand, mirroring the server's
+// lifecycle. Payments and refunds make the other moves.
+export const STAFF_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending_payment: ['cancelled'],
+  paid: ['exit_verified', 'completed'],
+  exit_verified: ['completed'],
+  completed: [],
+  cancelled: [],
+  partially_refunded: [],
+  refunded: []
+};
+
+export const STATUS_ACTION_LABELS: Partial<Record<OrderStatus, string>> = {
+  exit_verified: 'Verify exit',
+  completed: 'Complete',
+  cancelled: 'Cancel'
+};
+
+// Statuses an order can be refunded from, as on the server
+export const REFUNDABLE_STATUSES: OrderStatus[] = ['paid', 'exit_verified', 'completed', 'partially_refunded'];
+
+// Where a refund's money went
+export const REFUND_SOURCE_LABELS: Record<string, string> = {
+  razorpay: 'Razorpay',
+  mock: 'Mock gateway',
+  store: 'In store'
+};
+
+// How much of each product has come back on an order's refunds, by product ID
+export const returnedQuantities = (order: Order): Record<string, number> => {
+  const returned: Record<string, number> = {};
+  (order.refunds || []).forEach(refund =>
+    (refund.lines || []).forEach(line => {
+      returned[line.id] = Math.round(((returned[line.id] || 0) + line.quantity) * 1000) / 1000;
+    })
+  );
+  return returned;
+};
@@ -0,0 +1,41 @@
+import { Permission, Role } from '../types';
+
+// Mirror of server/utils/permissions.js, used to decide which routes and menu
+// items a role can see. The server still checks every request.
+const ALL_PERMISSIONS: Permission[] = [
+  'dashboard:view',
+  'products:write',
+  'inventory:adjust',
+  'orders:view',
+  'orders:manage',
+  'orders:refund',
+  'payments:take',
+  'carts:override',
+  'promotions:manage',
+  'devices:manage',
+  'users:manage'
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  store_manager: ALL_PERMISSIONS,
+  inventory_clerk: ['dashboard:view', 'inventory:adjust'],
+  cashier: ['dashboard:view', 'orders:view', 'orders:manage', 'orders:refund', 'payments:take', 'carts:override'],
+  customer: []
+};
+
+export const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  store_manager: 'Store Manager',
+  inventory_clerk: 'Inventory Clerk',
+  cashier: 'Cashier',
+  customer: 'Customer'
+};
+
+// True if the role has at least one of the given permissions
+export const hasPermission = (role: Role | undefined, ...permissions: Permission[]) =>
+  !!role && permissions.some(permission => ROLE_PERMISSIONS[role]?.includes(permission));
+
+export const isStaff = (role: Role | undefined) => !!role && role !== 'customer';
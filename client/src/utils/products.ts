@@ -0,0 +1,5 @@
+import { Product } from '../types';
+
+// Categories in use across the catalogue, for suggesting and targeting
+export const categoriesOf = (products: Product[]): string[] =>
+  Array.from(new Set(products.map(product => product.category).filter((category): category is string => !!category))).sort();
@@ -0,0 +1,47 @@
+import { Promotion, PromotionStatus, PromotionType } from '../types';
+
+export const PROMOTION_TYPES: PromotionType[] = ['percentage', 'flat', 'buy_x_get_y'];
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: 'Percentage off',
+  flat: 'Flat amount off',
+  buy_x_get_y: 'Buy X get Y'
+};
+
+export const PROMOTION_STATUS_STYLES: Record<PromotionStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  inactive: 'bg-gray-100 text-gray-800',
+  expired: 'bg-yellow-100 text-yellow-800',
+  used_up: 'bg-red-100 text-red-800'
+};
+
+export const PROMOTION_STATUS_LABELS: Record<PromotionStatus, string> = {
+  active: 'Active',
+  scheduled: 'Scheduled',
+  inactive: 'Inactive',
+  expired: 'Expired',
+  used_up: 'Used Up'
+};
+
+// Short description of what a promotion takes off, e.g. "Buy 2 get 1 free"
+export const describeDiscount = (promotion: Promotion): string => {
+  switch (promotion.type) {
+    case 'percentage':
+      return `${promotion.value}% off`;
+    case 'flat':
+      return `₹${promotion.value.toFixed(2)} off`;
+    case 'buy_x_get_y':
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} ${
+        promotion.value >= 100 ? 'free' : `${promotion.value}% off`
+      }`;
+  }
+};
+
+// Value for a datetime-local input, in the browser's time zone
+export const toDateTimeInput = (iso?: string): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
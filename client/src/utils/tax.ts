@@ -0,0 +1,5 @@
+// GST slabs a product can be in. Keep in sync with server/utils/tax.js
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+// Rate the server applies to products saved without one
+export const DEFAULT_GST_RATE = 18;
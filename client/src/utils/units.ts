@@ -0,0 +1,15 @@
+import { Product } from '../types';
+
+export const isSoldByWeight = (product: Pick<Product, 'soldBy'>): boolean => product.soldBy === 'weight';
+
+// e.g. "0.735 kg" for a product sold by weight, "3" otherwise
+export const formatQuantity = (product: Pick<Product, 'soldBy'>, quantity: number): string =>
+  isSoldByWeight(product) ? `${quantity.toFixed(3)} kg` : String(quantity);
+
+// e.g. "₹2.99/kg" for a product sold by weight, "₹2.99" otherwise
+export const formatUnitPrice = (product: Pick<Product, 'soldBy' | 'price'>): string =>
+  `₹${product.price.toFixed(2)}${isSoldByWeight(product) ? '/kg' : ''}`;
+
+// e.g. "49.500 kg" or "12 units"
+export const formatStock = (product: Pick<Product, 'soldBy'>, quantity: number): string =>
+  isSoldByWeight(product) ? formatQuantity(product, quantity) : `${quantity} units`;
@@ -0,0 +1,15 @@
+import { WeightCheck, WeightCheckStatus } from '../types';
+
+export const WEIGHT_STATUS_LABELS: Record<WeightCheckStatus, string> = {
+  ok: 'Weight matches',
+  unscanned_item: 'Unscanned item in cart',
+  missing_item: 'Scanned item not in cart',
+  unverified: 'Some items have no weight'
+};
+
+export const formatGrams = (grams: number): string =>
+  Math.abs(grams) >= 1000 ? `${(grams / 1000).toFixed(2)} kg` : `${Math.round(grams)} g`;
+
+// e.g. "Expected 1.45 kg, measured 1.95 kg"
+export const describeWeightCheck = (check: WeightCheck): string =>
+  `Expected ${formatGrams(check.expectedGrams)}, measured ${formatGrams(check.measuredGrams)}`;
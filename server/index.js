@@ -4,10 +4,10 @@ const http = require("http");
 const socketIo = require("socket.io");
 const cors = require("cors");
 const fileUpload = require("express-fileupload");
-const fileUpload = require("express-fileupload");
 const jwt = require("jsonwebtoken");
-const fs = require("fs");
 const path = require("path");
+const storage = require("./storage");
+const paymentProvider = require("./payments");
 
 // Initialize debug mode
 const DEBUG = process.env.DEBUG === "true" || true;
@@ -29,6 +29,25 @@ const authRoutes = require("./routes/auth");
 const productRoutes = require("./routes/products");
 const cartRoutes = require("./routes/cart");
 const paymentRoutes = require("./routes/payment");
+const userRoutes = require("./routes/users");
+const deviceRoutes = require("./routes/devices");
+const promotionRoutes = require("./routes/promotions");
+const loyaltyRoutes = require("./routes/loyalty");
+const orderRoutes = require("./routes/orders");
+const { verifyDeviceSignature } = require("./utils/deviceAuth");
+const {
+  markDeviceSeen,
+  recordHeartbeat,
+  markStaleDevices,
+} = require("./utils/devices");
+const { sendPairingCode } = require("./utils/pairing");
+const {
+  addToLines,
+  removeFromLines,
+  listPricedCarts,
+} = require("./utils/pricing");
+const { scanQuantity, parseStock } = require("./utils/units");
+const { hasPermission } = require("./utils/permissions");
 
 // Initialize Express app
 const app = express();
@@ -42,7 +61,14 @@ const io = socketIo(server, {
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Keep the raw body so device request signatures can be checked
+app.use(
+  express.json({
+    verify: (req, res, buf) => {
+      req.rawBody = buf.toString("utf8");
+    },
+  })
+);
 
 // Add file upload middleware
 app.use(
@@ -70,102 +96,24 @@ if (DEBUG) {
 // Make io available to routes
 app.io = io;
 
-// Check if data directory exists, if not create it
-const dataDir = path.join(__dirname, "data");
-if (!fs.existsSync(dataDir)) {
-  logger.info("Creating data directory...");
-  fs.mkdirSync(dataDir);
-}
-
-// Ensure all required data files exist
-const ensureDataFile = (filename, initialData) => {
-  const filePath = path.join(dataDir, filename);
-  if (!fs.existsSync(filePath)) {
-    logger.info(`Creating ${filename} file...`);
-    fs.writeFileSync(filePath, JSON.stringify(initialData, null, 2));
-    return true;
-  }
-  return false;
-};
-
-// Create initial products if needed
-ensureDataFile("products.json", [
-  {
-    id: "1",
-    name: "Milk",
-    price: 2.99,
-    rfidTag: "A1B2C3D4",
-    quantity: 20,
-    weight: 1000,
-    image: "/images/milk.jpg",
-  },
-  {
-    id: "2",
-    name: "Bread",
-    price: 1.99,
-    rfidTag: "E5F6G7H8",
-    quantity: 15,
-    weight: 450,
-    image: "/images/bread.jpg",
-  },
-  {
-    id: "3",
-    name: "Eggs",
-    price: 3.49,
-    rfidTag: "I9J0K1L2",
-    quantity: 30,
-    weight: 720,
-    image: "/images/eggs.jpg",
-  },
-  {
-    id: "4",
-    name: "Cheese",
-    price: 4.99,
-    rfidTag: "M3N4O5P6",
-    quantity: 10,
-    weight: 250,
-    image: "/images/cheese.jpg",
-  },
-  {
-    id: "5",
-    name: "Apples",
-    price: 0.99,
-    rfidTag: "Q7R8S9T0",
-    quantity: 50,
-    weight: 1000,
-    image: "/images/apples.jpg",
-  },
-]);
-
-// Create initial users if needed
-ensureDataFile("users.json", [
-  { id: "1", username: "admin", password: "admin123", role: "admin" },
-  {
-    id: "2",
-    username: "customer",
-    password: "customer123",
-    role: "customer",
-  },
-]);
-
-// Create empty carts file if needed
-ensureDataFile("carts.json", []);
+// Seed products and users on first start
+storage.init();
 
 // Add basic endpoint to check server status
 app.get("/api/status", (req, res) => {
-  const files = {
-    products: fs.existsSync(path.join(dataDir, "products.json")),
-    users: fs.existsSync(path.join(dataDir, "users.json")),
-    carts: fs.existsSync(path.join(dataDir, "carts.json")),
-  };
-
   res.json({
     status: "ok",
     version: "1.0",
-    files,
+    storage: {
+      driver: storage.driver,
+      products: storage.products.count(),
+      users: storage.users.count(),
+      carts: storage.carts.count(),
+    },
     env: {
       nodeEnv: process.env.NODE_ENV || "production",
       debug: DEBUG,
+      paymentProvider: paymentProvider.name,
       razorpayConfigured: !!process.env.RAZORPAY_KEY_ID,
     },
   });
@@ -176,6 +124,11 @@ app.use("/api/auth", authRoutes);
 app.use("/api/products", productRoutes);
 app.use("/api/cart", cartRoutes);
 app.use("/api/payment", paymentRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/devices", deviceRoutes);
+app.use("/api/promotions", promotionRoutes);
+app.use("/api/loyalty", loyaltyRoutes);
+app.use("/api/orders", orderRoutes);
 
 // Add global error handler middleware
 app.use((err, req, res, next) => {
@@ -201,21 +154,19 @@ app.use((err, req, res, next) => {
     });
   }
 
-  // Check for file system errors
-  if (err.code === "ENOENT") {
-    // Try to recover by creating missing data files
-    try {
-      ensureDataFile("carts.json", []);
-      ensureDataFile("products.json", []);
-      ensureDataFile("users.json", []);
-      logger.info("Recovered from missing data file");
-    } catch (recoverError) {
-      logger.error("Failed to recover from file system error:", recoverError);
-    }
+  // Another writer held a data file lock for too long
+  if (err.code === "ESTORAGELOCK") {
+    return res.status(503).json({
+      message: "Server is busy, please try again",
+      error: DEBUG ? err.message : "Storage busy",
+    });
+  }
 
-    return res.status(500).json({
-      message: "Data file was missing, please try again",
-      error: DEBUG ? err.message : "Server error",
+  // A new record would have replaced an existing one
+  if (err.code === "ESTORAGECONFLICT") {
+    return res.status(409).json({
+      message: "The request clashed with another one, please try again",
+      error: DEBUG ? err.message : "Storage conflict",
     });
   }
 
@@ -233,13 +184,33 @@ io.on("connection", (socket) => {
   socket.on("nodemcu_connect", (data) => {
     logger.debug("NodeMCU cart connection request:", data);
 
-    if (!data.deviceId) {
-      socket.emit("error", { message: "Device ID is required" });
+    // The firmware signs the handshake like a device request, as method
+    // "SOCKET" to path "nodemcu_connect" with its device ID as the body. The
+    // nonce is used up here, so a captured handshake cannot be replayed.
+    const { deviceId, timestamp, nonce, signature } = data || {};
+    const { device, message } = verifyDeviceSignature({
+      deviceId,
+      method: "SOCKET",
+      path: "nodemcu_connect",
+      timestamp,
+      nonce,
+      signature,
+      payload: deviceId,
+    });
+
+    if (!device) {
+      socket.emit("error", { message });
       return;
     }
 
-    // Store the socket ID for this device for direct communication
-    socket.deviceId = data.deviceId;
+    // Remember the verified device; later events on this socket act as it
+    socket.deviceId = device.id;
+    markDeviceSeen(io, device.id, {
+      status: "online",
+      ...(typeof data.firmwareVersion === "string" && {
+        firmwareVersion: data.firmwareVersion,
+      }),
+    });
 
     // Emit cart connected event to all clients
     io.emit("cart_connected", {
@@ -253,21 +224,52 @@ io.on("connection", (socket) => {
       deviceId: data.deviceId,
       message: "Successfully connected to server",
     });
-    3.366
+
+    // A free cart shows a pairing code for shoppers to claim it with
+    sendPairingCode(io, device.id);
+  });
+
+  // NodeMCU asking for a fresh pairing code after the last one expired
+  socket.on("nodemcu_pairing_code", () => {
+    if (!socket.deviceId) {
+      socket.emit("error", { message: "Device is not authenticated" });
+      return;
+    }
+
+    sendPairingCode(io, socket.deviceId);
+  });
+
+  // NodeMCU heartbeat with telemetry, sent periodically by a connected cart
+  socket.on("nodemcu_heartbeat", (data) => {
+    if (!socket.deviceId) {
+      socket.emit("error", { message: "Device is not authenticated" });
+      return;
+    }
+
+    recordHeartbeat(io, socket.deviceId, data);
   });
 
-  // NodeMCU RFID scan event (when the physical cart scans a product)
-  socket.on("nodemcu_rfid_scan", (data) => {
+  // NodeMCU RFID scan event (when the physical cart scans a product).
+  // rfid_scan is an older name for it. Scans are only taken from a socket
+  // authenticated with nodemcu_connect and always go to the cart paired with
+  // that device.
+  const handleDeviceScan = (data) => {
     console.log("NodeMCU RFID scan:", data);
 
-    if (!data.rfidTag || !data.deviceId) {
-      socket.emit("error", { message: "RFID tag and device ID are required" });
+    if (!socket.deviceId) {
+      socket.emit("error", { message: "Device is not authenticated" });
       return;
     }
 
+    if (!data || !data.rfidTag) {
+      socket.emit("error", { message: "RFID tag is required" });
+      return;
+    }
+
+    markDeviceSeen(io, socket.deviceId, { status: "online" });
+
     // Find the cart associated with this device
-    const carts = JSON.parse(fs.readFileSync(path.join(dataDir, "carts.json")));
-    const cart = carts.find((cart) => cart.deviceId === data.deviceId);
+    const cart = storage.carts.getByDeviceId(socket.deviceId);
 
     if (!cart) {
       socket.emit("error", { message: "No cart found for this device" });
@@ -275,15 +277,12 @@ io.on("connection", (socket) => {
     }
 
     // Find the product by RFID tag
-    const products = JSON.parse(
-      fs.readFileSync(path.join(dataDir, "products.json"))
-    );
-    const product = products.find((p) => p.rfidTag === data.rfidTag);
+    const product = storage.products.getByRfidTag(data.rfidTag);
 
     if (!product) {
       socket.emit("error", { message: "Product not found" });
       io.emit("product_not_found", {
-        deviceId: data.deviceId,
+        deviceId: socket.deviceId,
         rfidTag: data.rfidTag,
       });
       return;
@@ -291,87 +290,71 @@ io.on("connection", (socket) => {
 
     // Process the scan with default action "add"
     const action = data.action || "add";
+    const { quantity, error } = scanQuantity(product, {
+      grams: data.grams,
+      action,
+    });
+
+    if (error) {
+      socket.emit("error", { message: error });
+      return;
+    }
 
     // Update cart and emit product scanned event
-    processRfidScan(product, action, cart.userId, cart.deviceId);
-  });
+    processRfidScan(product, action, cart.userId, cart.deviceId, quantity);
+  };
 
-  // Listen for RFID scans
-  socket.on("rfid_scan", (data) => {
-    console.log("RFID scan received:", data);
+  socket.on("nodemcu_rfid_scan", handleDeviceScan);
+  socket.on("rfid_scan", handleDeviceScan);
 
-    // Read products from JSON file
-    const products = JSON.parse(
-      fs.readFileSync(path.join(dataDir, "products.json"))
-    );
+  // Staff setting a product's stock. The socket must have connected with the
+  // access token of a role that may adjust inventory; it is checked on every
+  // event so logging out or a role change takes effect straight away.
+  socket.on("inventory_update", (data) => {
+    console.log("Inventory update received:", data);
 
-    // Find product with matching RFID tag
-    const product = products.find((p) => p.rfidTag === data.rfidTag);
+    const { user, message } = authRoutes.findTokenUser(
+      socket.handshake.auth && socket.handshake.auth.token
+    );
+    if (!user) {
+      socket.emit("error", { message });
+      return;
+    }
+    if (
+      !hasPermission(user.role, "products:write") &&
+      !hasPermission(user.role, "inventory:adjust")
+    ) {
+      socket.emit("error", {
+        message: "Access denied. Your role does not allow this.",
+      });
+      return;
+    }
 
-    if (product) {
-      processRfidScan(product, data.action, data.userId, data.deviceId);
-    } else {
+    const product = storage.products.getById(data && data.productId);
+    if (!product) {
       socket.emit("error", { message: "Product not found" });
+      return;
     }
-  });
 
-  // Listen for inventory updates
-  socket.on("inventory_update", (data) => {
-    console.log("Inventory update received:", data);
+    const quantity = parseStock(data.quantity, product);
+    if (!Number.isFinite(quantity) || quantity < 0) {
+      socket.emit("error", { message: "Stock must be a number of 0 or more" });
+      return;
+    }
 
     // Update product quantity
-    const products = JSON.parse(
-      fs.readFileSync(path.join(dataDir, "products.json"))
-    );
-    const productIndex = products.findIndex((p) => p.id === data.productId);
+    storage.products.update(product.id, { quantity });
 
-    if (productIndex !== -1) {
-      products[productIndex].quantity = data.quantity;
-      fs.writeFileSync(
-        path.join(dataDir, "products.json"),
-        JSON.stringify(products)
-      );
-
-      // Emit updated inventory to all clients
-      io.emit("inventory_updated", { products });
-    }
+    // Emit updated inventory to all clients
+    io.emit("inventory_updated", { products: storage.products.list() });
   });
 
   // Listen for payment events
+  // Sent by the web app after /payment/verify succeeds. Verify clears the
+  // cart, takes the stock and sends the updates itself; a socket cannot
+  // prove a payment, so nothing is changed here.
   socket.on("payment_completed", (data) => {
     console.log("Payment completed:", data);
-
-    // Clear the user's cart
-    const carts = JSON.parse(fs.readFileSync(path.join(dataDir, "carts.json")));
-    const cartIndex = carts.findIndex((cart) => cart.userId === data.userId);
-
-    if (cartIndex !== -1) {
-      // Update inventory quantities
-      const products = JSON.parse(
-        fs.readFileSync(path.join(dataDir, "products.json"))
-      );
-
-      carts[cartIndex].items.forEach((item) => {
-        const productIndex = products.findIndex((p) => p.id === item.id);
-        if (productIndex !== -1) {
-          products[productIndex].quantity -= item.quantity;
-        }
-      });
-
-      // Save updated inventory
-      fs.writeFileSync(
-        path.join(dataDir, "products.json"),
-        JSON.stringify(products)
-      );
-
-      // Remove the cart
-      carts.splice(cartIndex, 1);
-      fs.writeFileSync(path.join(dataDir, "carts.json"), JSON.stringify(carts));
-
-      // Emit updates
-      io.emit("cart_updated", { userId: data.userId, carts });
-      io.emit("inventory_updated", { products });
-    }
   });
 
   socket.on("disconnect", () => {
@@ -379,6 +362,7 @@ io.on("connection", (socket) => {
 
     // If this was a NodeMCU device, notify clients
     if (socket.deviceId) {
+      markDeviceSeen(io, socket.deviceId, { status: "offline" });
       io.emit("cart_disconnected", {
         deviceId: socket.deviceId,
         message: "Physical cart disconnected",
@@ -387,61 +371,37 @@ io.on("connection", (socket) => {
   });
 });
 
-// Helper function to process RFID scans and update carts
-function processRfidScan(product, action, userId, deviceId = null) {
+// Helper function to process RFID scans and update carts. quantity is how
+// much of the product the scan adds or removes, from scanQuantity.
+function processRfidScan(product, action, userId, deviceId, quantity) {
   // Emit product details to all connected clients
   io.emit("product_scanned", { product, action, deviceId });
 
-  // Update cart based on action (add/remove)
-  const carts = JSON.parse(fs.readFileSync(path.join(dataDir, "carts.json")));
-  const cartIndex = carts.findIndex((cart) => cart.userId === userId);
-
-  if (cartIndex === -1 && action === "add") {
-    // Create new cart if it doesn't exist
-    carts.push({
-      id: `cart_${Date.now()}`,
-      userId: userId,
-      deviceId: deviceId,
-      items: [{ ...product, quantity: 1 }],
-      total: product.price,
-    });
-  } else if (cartIndex !== -1) {
-    const cart = carts[cartIndex];
-    // Add deviceId to cart if provided
-    if (deviceId && !cart.deviceId) {
-      cart.deviceId = deviceId;
-    }
-
-    const itemIndex = cart.items.findIndex((item) => item.id === product.id);
+  // Update cart based on action (add/remove). Scans only change the cart
+  // the device is paired with; they never create or pair a cart.
+  storage.carts.update(userId, (cart) => {
+    if (!cart || cart.deviceId !== deviceId) return undefined;
 
     if (action === "add") {
-      if (itemIndex === -1) {
-        cart.items.push({ ...product, quantity: 1 });
-      } else {
-        cart.items[itemIndex].quantity += 1;
-      }
-      cart.total = parseFloat((cart.total + product.price).toFixed(2));
-    } else if (action === "remove" && itemIndex !== -1) {
-      if (cart.items[itemIndex].quantity > 1) {
-        cart.items[itemIndex].quantity -= 1;
-      } else {
-        cart.items.splice(itemIndex, 1);
-      }
-      cart.total = parseFloat((cart.total - product.price).toFixed(2));
-
-      // Remove cart if empty
-      if (cart.items.length === 0) {
-        carts.splice(cartIndex, 1);
-      }
+      addToLines(cart.items, product, quantity);
+    } else if (action === "remove") {
+      // An empty cart is kept so the device stays connected to the shopper
+      removeFromLines(cart.items, product.id, quantity);
     }
-  }
 
-  fs.writeFileSync(path.join(dataDir, "carts.json"), JSON.stringify(carts));
+    return cart;
+  });
 
   // Emit updated cart to all clients
-  io.emit("cart_updated", { userId: userId, carts });
+  io.emit("cart_updated", { userId: userId, carts: listPricedCarts() });
 }
 
+// Check for carts that stopped sending heartbeats
+setInterval(() => markStaleDevices(io), 15000);
+
+// Forget device nonces once their requests could no longer be accepted
+setInterval(() => storage.deviceNonces.prune(), 60000);
+
 // Start server
 const PORT = process.env.PORT || 5000;
 server.listen(PORT, () => {
@@ -0,0 +1,49 @@
+// Payment provider used by the payment routes. The provider is picked with
+// PAYMENT_PROVIDER:
+//   razorpay - Razorpay Checkout and API (default)
+//   mock     - built-in gateway that needs no network, for development and
+//              tests (see mock.js)
+//
+// Every provider has:
+//   name, keyId          sent to the browser to open the right checkout
+//   createOrder({ amountMinor, currency, receipt })
+//                        -> Promise<{ id, amountMinor, currency }>
+//   verifyPayment({ orderId, paymentId, signature }) -> boolean
+//   refund({ paymentId, amountMinor, notes })
+//                        -> Promise<{ refundId, amountMinor, status }>
+//   fetchStatus(orderId) -> Promise<{ status, payment }>, where status is
+//                           created, attempted or paid and payment is the
+//                           captured { id, amountMinor }, if any
+//   webhookSecret, signWebhook(body), verifyWebhook(body, signature)
+//                        for webhooks in Razorpay's format
+const name = (process.env.PAYMENT_PROVIDER || "razorpay").toLowerCase();
+
+const createProvider = () => {
+  switch (name) {
+    case "razorpay":
+      // The key secret proves payments genuine, so it must never come from
+      // the code; refuse to start without it rather than accept forgeries
+      if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
+        throw new Error(
+          "RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET must be set, or set PAYMENT_PROVIDER=mock"
+        );
+      }
+      return require("./razorpay")({
+        keyId: process.env.RAZORPAY_KEY_ID,
+        keySecret: process.env.RAZORPAY_KEY_SECRET,
+        // Set on the webhook in the Razorpay dashboard; webhooks are refused
+        // without it
+        webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET || null,
+      });
+    case "mock":
+      return require("./mock")({
+        webhookSecret: process.env.MOCK_WEBHOOK_SECRET || "mock_webhook_secret",
+        latencyMs: parseInt(process.env.MOCK_PAYMENT_LATENCY_MS) || 0,
+        timeoutMs: parseInt(process.env.MOCK_PAYMENT_TIMEOUT_MS) || 5000,
+      });
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+  }
+};
+
+module.exports = createProvider();
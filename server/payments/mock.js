@@ -0,0 +1,163 @@
+const crypto = require("crypto");
+const { hmacHex, signaturesMatch } = require("./signatures");
+
+// How a payment made in the mock checkout ends:
+//   success - the payment is captured and the browser gets its signature
+//   failure - the payment is declined
+//   timeout - the payment is captured but the gateway never answers, as when
+//             a connection drops after the money was taken
+const MOCK_OUTCOMES = ["success", "failure", "timeout"];
+
+// Built-in payment gateway for development and tests. It needs no network or
+// account: orders, payments and refunds are kept in memory until the server
+// restarts, and the web app's mock checkout picks how each payment ends.
+// IDs and signatures follow Razorpay's formats.
+const createMockProvider = ({ webhookSecret, latencyMs, timeoutMs }) => {
+  // Signatures only need to hold for this process
+  const keySecret = crypto.randomBytes(32).toString("hex");
+  const orders = new Map();
+
+  const newId = (prefix) =>
+    `${prefix}_mock${crypto.randomBytes(7).toString("hex")}`;
+  const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const signPayment = (orderId, paymentId) =>
+    hmacHex(keySecret, `${orderId}|${paymentId}`);
+  const signWebhook = (body) => hmacHex(webhookSecret, body);
+
+  const findPayment = (paymentId) => {
+    for (const order of orders.values()) {
+      const payment = order.payments.find((entry) => entry.id === paymentId);
+      if (payment) return payment;
+    }
+    return null;
+  };
+
+  return {
+    name: "mock",
+    keyId: "mock_key",
+    webhookSecret,
+    outcomes: MOCK_OUTCOMES,
+    // How long the mock checkout holds a timed out payment before answering
+    timeoutMs,
+
+    createOrder: async ({ amountMinor, currency, receipt }) => {
+      await wait(latencyMs);
+
+      const order = {
+        id: newId("order"),
+        amountMinor,
+        currency,
+        receipt,
+        status: "created",
+        payments: [],
+      };
+      orders.set(order.id, order);
+
+      return { id: order.id, amountMinor, currency };
+    },
+
+    // Pay for an order the way the customer chose in the mock checkout.
+    // Returns { payment, signature }, { payment, timedOut } or { error }.
+    checkout: (orderId, outcome) => {
+      const order = orders.get(orderId);
+
+      if (!MOCK_OUTCOMES.includes(outcome)) {
+        return {
+          error: {
+            code: "BAD_REQUEST_ERROR",
+            description: `outcome must be one of ${MOCK_OUTCOMES.join(", ")}`,
+          },
+        };
+      }
+      if (!order) {
+        return {
+          error: {
+            code: "BAD_REQUEST_ERROR",
+            description: "The mock gateway has no such order",
+          },
+        };
+      }
+      if (order.status === "paid") {
+        return {
+          error: {
+            code: "BAD_REQUEST_ERROR",
+            description: "This order has already been paid",
+          },
+        };
+      }
+
+      const payment = {
+        id: newId("pay"),
+        amountMinor: order.amountMinor,
+        status: outcome === "failure" ? "failed" : "captured",
+        refundedMinor: 0,
+      };
+      order.payments.push(payment);
+      order.status = payment.status === "captured" ? "paid" : "attempted";
+
+      if (outcome === "failure") {
+        return {
+          payment,
+          error: {
+            code: "BAD_REQUEST_ERROR",
+            description: "Payment was declined by the mock gateway",
+          },
+        };
+      }
+      if (outcome === "timeout") {
+        return { payment, timedOut: true };
+      }
+      return { payment, signature: signPayment(orderId, payment.id) };
+    },
+
+    signPayment,
+
+    verifyPayment: ({ orderId, paymentId, signature }) =>
+      signaturesMatch(signPayment(orderId, paymentId), signature),
+
+    refund: async ({ paymentId, amountMinor }) => {
+      await wait(latencyMs);
+
+      const payment = findPayment(paymentId);
+      if (!payment || payment.status !== "captured") {
+        throw new Error(
+          `The mock gateway has no captured payment ${paymentId}`
+        );
+      }
+      if (amountMinor > payment.amountMinor - payment.refundedMinor) {
+        throw new Error("Refund is more than what is left of the payment");
+      }
+
+      payment.refundedMinor += amountMinor;
+      return { refundId: newId("rfnd"), amountMinor, status: "processed" };
+    },
+
+    fetchStatus: async (orderId) => {
+      await wait(latencyMs);
+
+      const order = orders.get(orderId);
+      if (!order) {
+        throw new Error(`The mock gateway has no order ${orderId}`);
+      }
+
+      const captured = order.payments.find(
+        (payment) => payment.status === "captured"
+      );
+      return {
+        status: order.status,
+        payment: captured
+          ? { id: captured.id, amountMinor: captured.amountMinor }
+          : null,
+      };
+    },
+
+    signWebhook,
+
+    verifyWebhook: (body, signature) =>
+      typeof body === "string" &&
+      signaturesMatch(signWebhook(body), signature),
+  };
+};
+
+module.exports = createMockProvider;
@@ -0,0 +1,81 @@
+const { hmacHex, signaturesMatch } = require("./signatures");
+
+// Razorpay Checkout in the browser and the Razorpay orders, payments and
+// refunds APIs
+const createRazorpayProvider = ({ keyId, keySecret, webhookSecret }) => {
+  // Loaded lazily so the mock provider works without the SDK installed
+  const Razorpay = require("razorpay");
+  const client = new Razorpay({ key_id: keyId, key_secret: keySecret });
+
+  // Razorpay Checkout hands the browser a signature for each successful
+  // payment:
+  //   signature = hex(HMAC-SHA256(key_secret, "<order_id>|<payment_id>"))
+  // Only Razorpay and this server know the key secret, so a valid signature
+  // proves the payment was made against that order.
+  const signPayment = (orderId, paymentId) =>
+    hmacHex(keySecret, `${orderId}|${paymentId}`);
+
+  // Webhooks carry X-Razorpay-Signature, the same HMAC of the raw request
+  // body with the webhook secret
+  const signWebhook = (body) => hmacHex(webhookSecret, body);
+
+  return {
+    name: "razorpay",
+    keyId,
+    webhookSecret,
+
+    createOrder: async ({ amountMinor, currency, receipt }) => {
+      const order = await client.orders.create({
+        amount: amountMinor,
+        currency,
+        receipt,
+        payment_capture: 1, // auto capture
+      });
+      return {
+        id: order.id,
+        amountMinor: order.amount,
+        currency: order.currency,
+      };
+    },
+
+    signPayment,
+
+    verifyPayment: ({ orderId, paymentId, signature }) =>
+      signaturesMatch(signPayment(orderId, paymentId), signature),
+
+    refund: async ({ paymentId, amountMinor, notes }) => {
+      const refund = await client.payments.refund(paymentId, {
+        amount: amountMinor,
+        ...(notes && { notes }),
+      });
+      return {
+        refundId: refund.id,
+        amountMinor: refund.amount,
+        status: refund.status,
+      };
+    },
+
+    // status is Razorpay's order status: created, attempted or paid
+    fetchStatus: async (orderId) => {
+      const order = await client.orders.fetch(orderId);
+      const { items } = await client.orders.fetchPayments(orderId);
+      const captured = items.find((payment) => payment.status === "captured");
+
+      return {
+        status: order.status,
+        payment: captured
+          ? { id: captured.id, amountMinor: captured.amount }
+          : null,
+      };
+    },
+
+    signWebhook,
+
+    verifyWebhook: (body, signature) =>
+      Boolean(webhookSecret) &&
+      typeof body === "string" &&
+      signaturesMatch(signWebhook(body), signature),
+  };
+};
+
+module.exports = createRazorpayProvider;
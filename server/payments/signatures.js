@@ -0,0 +1,13 @@
+const crypto = require("crypto");
+
+// Payment signatures are hex HMAC-SHA256 digests, compared in constant time
+const hmacHex = (secret, data) =>
+  crypto.createHmac("sha256", secret).update(data).digest("hex");
+
+const signaturesMatch = (expected, signature) => {
+  const a = Buffer.from(expected, "hex");
+  const b = Buffer.from(String(signature), "hex");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+module.exports = { hmacHex, signaturesMatch };
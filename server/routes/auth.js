@@ -1,16 +1,47 @@
 const express = require("express");
 const router = express.Router();
-const jwt = require("jsonwebtoken");
-const fs = require("fs");
-const path = require("path");
+const storage = require("../storage");
+const { hashPassword, checkUserPassword } = require("../utils/passwords");
+const { hasPermission } = require("../utils/permissions");
+const {
+  createSession,
+  rotateSession,
+  revokeSession,
+  isSessionActive,
+  verifyAccessToken,
+  parseRefreshToken,
+} = require("../utils/tokens");
 
-// Load users from JSON file
-const getUsersFromFile = () => {
-  const usersFilePath = path.join(__dirname, "..", "data", "users.json");
-  if (fs.existsSync(usersFilePath)) {
-    return JSON.parse(fs.readFileSync(usersFilePath));
+// Check an access token and the session and account behind it, returning
+// { user } or { status, message }. Used for requests and socket events alike.
+const findTokenUser = (token) => {
+  if (!token) {
+    return { status: 401, message: "Authentication token required" };
+  }
+
+  let user;
+  try {
+    user = verifyAccessToken(token);
+  } catch (err) {
+    return { status: 403, message: "Invalid or expired token" };
+  }
+
+  // Logging out revokes the session, which must cut off its access tokens too
+  if (!isSessionActive(user.sid)) {
+    return { status: 401, message: "Session has been revoked" };
+  }
+
+  // Tokens outlive role changes and account deactivation, so check the
+  // stored account on every request
+  const account = storage.users.getById(user.id);
+  if (!account || account.disabled) {
+    return {
+      status: 401,
+      message: "Account is disabled or no longer exists",
+    };
   }
-  return [];
+
+  return { user: { ...user, role: account.role } };
 };
 
 // Authentication middleware
@@ -18,21 +49,76 @@ const authenticateToken = (req, res, next) => {
   const authHeader = req.headers["authorization"];
   const token = authHeader && authHeader.split(" ")[1];
 
-  if (!token) {
-    return res.status(401).json({ message: "Authentication token required" });
+  const { user, status, message } = findTokenUser(token);
+  if (!user) {
+    return res.status(status).json({ message });
   }
 
-  jwt.verify(
-    token,
-    process.env.JWT_SECRET || "smartcart_secret_key",
-    (err, user) => {
-      if (err) {
-        return res.status(403).json({ message: "Invalid or expired token" });
-      }
-      req.user = user;
-      next();
+  req.user = user;
+  next();
+};
+
+// Permission middleware - allows the request if the user's role has any of
+// the given permissions (see utils/permissions.js)
+const requirePermission =
+  (...permissions) =>
+  (req, res, next) => {
+    const allowed = permissions.some((permission) =>
+      hasPermission(req.user.role, permission)
+    );
+    if (!allowed) {
+      return res
+        .status(403)
+        .json({ message: "Access denied. Your role does not allow this." });
     }
-  );
+    next();
+  };
+
+// Fields of a user that are safe to send to clients
+const toPublicUser = (user) => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  disabled: Boolean(user.disabled),
+  createdAt: user.createdAt,
+});
+
+// Check username/password rules, returning an error message or null
+const validateCredentials = (username, password) => {
+  if (!username || !password) {
+    return "Username and password are required";
+  }
+  if (typeof username !== "string" || typeof password !== "string") {
+    return "Username and password must be text";
+  }
+  if (!/^[a-zA-Z0-9_.-]{3,32}$/.test(username)) {
+    return "Username must be 3-32 characters: letters, numbers, '.', '_' or '-'";
+  }
+  if (password.length < 6) {
+    return "Password must be at least 6 characters";
+  }
+  return null;
+};
+
+// Create a user with a hashed password, or return an error message
+const createUser = ({ username, password, role }) => {
+  const validationError = validateCredentials(username, password);
+  if (validationError) {
+    return { status: 400, message: validationError };
+  }
+
+  if (storage.users.getByUsername(username)) {
+    return { status: 409, message: "Username is already taken" };
+  }
+
+  const user = storage.users.create({
+    username,
+    passwordHash: hashPassword(password),
+    role,
+    createdAt: new Date().toISOString(),
+  });
+
+  return { user };
 };
 
 // Login route
@@ -44,40 +130,106 @@ router.post("/login", (req, res) => {
       .status(400)
       .json({ message: "Username and password are required" });
   }
+  if (typeof username !== "string" || typeof password !== "string") {
+    return res
+      .status(400)
+      .json({ message: "Username and password must be text" });
+  }
 
-  const users = getUsersFromFile();
-  const user = users.find(
-    (u) => u.username === username && u.password === password
-  );
+  const user = storage.users.getByUsername(username);
+  const { valid, needsUpgrade } = user
+    ? checkUserPassword(user, password)
+    : { valid: false, needsUpgrade: false };
 
-  if (!user) {
+  if (!valid) {
     return res.status(401).json({ message: "Invalid username or password" });
   }
 
-  // Generate JWT token
-  const token = jwt.sign(
-    { id: user.id, username: user.username, role: user.role },
-    process.env.JWT_SECRET || "smartcart_secret_key",
-    { expiresIn: "24h" }
-  );
+  if (user.disabled) {
+    return res.status(403).json({ message: "This account has been disabled" });
+  }
+
+  // Replace a legacy plaintext password with a hash on first successful login
+  if (needsUpgrade) {
+    storage.users.update(user.id, {
+      passwordHash: hashPassword(password),
+      password: undefined,
+    });
+  }
 
   res.json({
     message: "Login successful",
+    ...createSession(user),
+    user: toPublicUser(user),
+  });
+});
+
+// Customer self-registration
+router.post("/register", (req, res) => {
+  const { username, password } = req.body;
+
+  const { user, status, message } = createUser({
+    username,
+    password,
+    role: "customer",
+  });
+
+  if (!user) {
+    return res.status(status).json({ message });
+  }
+
+  res.status(201).json({
+    message: "Registration successful",
+    ...createSession(user),
+    user: toPublicUser(user),
+  });
+});
+
+// Exchange a refresh token for a new access/refresh token pair
+router.post("/refresh", (req, res) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken) {
+    return res.status(400).json({ message: "Refresh token is required" });
+  }
+
+  const { token, refreshToken: nextRefreshToken, user, message } =
+    rotateSession(refreshToken);
+
+  if (!token) {
+    return res.status(401).json({ message });
+  }
+
+  res.json({
     token,
-    user: {
-      id: user.id,
-      username: user.username,
-      role: user.role,
-    },
+    refreshToken: nextRefreshToken,
+    user: toPublicUser(user),
   });
 });
 
+// Revoke the session behind a refresh token. Always succeeds so a client can
+// clear its tokens even if the session had already ended.
+router.post("/logout", (req, res) => {
+  const parsed = parseRefreshToken(req.body.refreshToken);
+
+  if (parsed) {
+    revokeSession(parsed.sessionId);
+  }
+
+  res.json({ message: "Logged out successfully" });
+});
+
 // Get current user route
 router.get("/me", authenticateToken, (req, res) => {
   res.json({ user: req.user });
 });
 
-// Export middleware for use in other routes
+// Export middleware and helpers for use in other routes
 router.authenticateToken = authenticateToken;
+router.requirePermission = requirePermission;
+router.findTokenUser = findTokenUser;
+router.createUser = createUser;
+router.validateCredentials = validateCredentials;
+router.toPublicUser = toPublicUser;
 
 module.exports = router;
@@ -1,77 +1,49 @@
 const express = require("express");
 const router = express.Router();
-const fs = require("fs");
-const path = require("path");
 const authRoutes = require("./auth");
-
-// Get carts from file
-const getCartsFromFile = () => {
-  const cartsFilePath = path.join(__dirname, "..", "data", "carts.json");
-  if (fs.existsSync(cartsFilePath)) {
-    return JSON.parse(fs.readFileSync(cartsFilePath));
-  }
-  return [];
-};
-
-// Save carts to file
-const saveCartsToFile = (carts) => {
-  const cartsFilePath = path.join(__dirname, "..", "data", "carts.json");
-  fs.writeFileSync(cartsFilePath, JSON.stringify(carts));
-};
-
-// Get products from file
-const getProductsFromFile = () => {
-  const productsFilePath = path.join(__dirname, "..", "data", "products.json");
-  if (fs.existsSync(productsFilePath)) {
-    return JSON.parse(fs.readFileSync(productsFilePath));
-  }
-  return [];
-};
-
-// Get users from file
-const getUsersFromFile = () => {
-  const usersFilePath = path.join(__dirname, "..", "data", "users.json");
-  if (fs.existsSync(usersFilePath)) {
-    return JSON.parse(fs.readFileSync(usersFilePath));
-  }
-  return [];
-};
-
-// Save products to file
-const saveProductsToFile = (products) => {
-  const productsFilePath = path.join(__dirname, "..", "data", "products.json");
-  fs.writeFileSync(productsFilePath, JSON.stringify(products));
-};
-
-// Get user's cart or create it if it doesn't exist
-const getUserCart = (userId) => {
-  const carts = getCartsFromFile();
-  let cart = carts.find((cart) => cart.userId === userId);
-
-  // If user doesn't have a cart, create an empty one
-  if (!cart) {
-    cart = {
-      userId,
-      items: [],
-      total: 0,
-    };
-    carts.push(cart);
-    saveCartsToFile(carts);
-  }
-
-  return cart;
-};
+const { authenticateDevice } = require("./devices");
+const storage = require("../storage");
+const { toPublicDevice, emitDeviceStatus } = require("../utils/devices");
+const {
+  consumePairingCode,
+  notifyDeviceReleased,
+} = require("../utils/pairing");
+const { idempotent } = require("../utils/idempotency");
+const {
+  cartLine,
+  addToLines,
+  removeFromLines,
+  priceCart,
+  emptyCart,
+  listPricedCarts,
+} = require("../utils/pricing");
+const { isStateCode } = require("../utils/tax");
+const {
+  normalizeCode,
+  couponUnavailableReason,
+} = require("../utils/promotions");
+const { getLoyaltySettings, redemptionFor } = require("../utils/loyalty");
+const { placeOrder } = require("../utils/orders");
+const {
+  WEIGHT_MISMATCH_MESSAGE,
+  recordWeight,
+  overrideWeightMismatch,
+} = require("../utils/weight");
+const { scanQuantity } = require("../utils/units");
+const { readTenders } = require("../utils/tenders");
+
+// Most scans a cart may send in one offline batch
+const MAX_BATCH_SCANS = 100;
+
+// Heaviest load cell reading accepted, in grams
+const MAX_WEIGHT_GRAMS = 500000;
 
 // Get user's cart
 router.get("/", authRoutes.authenticateToken, (req, res) => {
   try {
-    const cart = getUserCart(req.user.id);
+    const cart = storage.carts.getOrCreate(req.user.id);
 
-    // Always make sure cart has required fields
-    if (!cart.items) cart.items = [];
-    if (cart.total === undefined) cart.total = 0;
-
-    res.json(cart);
+    res.json(priceCart(cart));
   } catch (error) {
     console.error("Error getting cart:", error);
     res
@@ -80,59 +52,44 @@ router.get("/", authRoutes.authenticateToken, (req, res) => {
   }
 });
 
-// Add item to cart
-router.post("/add", authRoutes.authenticateToken, (req, res) => {
+// Add item to cart. Products sold by weight take the weighed grams instead
+// of a quantity.
+router.post("/add", authRoutes.authenticateToken, idempotent, (req, res) => {
   try {
-    const { productId, quantity = 1 } = req.body;
+    const { productId, grams } = req.body;
 
     if (!productId) {
       return res.status(400).json({ message: "Product ID is required" });
     }
 
     // Get product details
-    const products = getProductsFromFile();
-    const product = products.find((p) => p.id === productId);
+    const product = storage.products.getById(productId);
 
     if (!product) {
       return res.status(404).json({ message: "Product not found" });
     }
 
-    if (product.quantity < quantity) {
-      return res.status(400).json({ message: "Not enough stock available" });
-    }
-
-    // Get or create user's cart
-    const userCart = getUserCart(req.user.id);
-
-    // Update the cart
-    const itemIndex = userCart.items.findIndex((item) => item.id === productId);
+    const { quantity, error } = scanQuantity(product, {
+      quantity: req.body.quantity,
+      grams,
+    });
 
-    if (itemIndex === -1) {
-      // Add new item
-      userCart.items.push({ ...product, quantity });
-    } else {
-      // Update existing item
-      userCart.items[itemIndex].quantity += quantity;
+    if (error) {
+      return res.status(400).json({ message: error });
     }
 
-    // Recalculate total
-    userCart.total = userCart.items.reduce(
-      (sum, item) => sum + item.price * item.quantity,
-      0
-    );
-    userCart.total = parseFloat(userCart.total.toFixed(2));
-
-    // Save updated carts
-    const carts = getCartsFromFile();
-    const cartIndex = carts.findIndex((cart) => cart.userId === req.user.id);
-    if (cartIndex !== -1) {
-      carts[cartIndex] = userCart;
-    } else {
-      carts.push(userCart);
+    if (product.quantity < quantity) {
+      return res.status(400).json({ message: "Not enough stock available" });
     }
-    saveCartsToFile(carts);
 
-    res.json(userCart);
+    // Update the user's cart, creating it if it doesn't exist
+    const userCart = storage.carts.update(req.user.id, (cart) => {
+      const updated = cart || { userId: req.user.id, items: [] };
+      addToLines(updated.items, product, quantity);
+      return updated;
+    });
+
+    res.json(priceCart(userCart));
   } catch (error) {
     console.error("Error adding item to cart:", error);
     res
@@ -141,111 +98,472 @@ router.post("/add", authRoutes.authenticateToken, (req, res) => {
   }
 });
 
-// Remove item from cart
-router.post("/remove", authRoutes.authenticateToken, (req, res) => {
-  const { productId, quantity = 1 } = req.body;
+// Remove item from cart. A product sold by weight loses the grams given, or
+// its whole line without them.
+router.post("/remove", authRoutes.authenticateToken, idempotent, (req, res) => {
+  const { productId, grams } = req.body;
 
   if (!productId) {
     return res.status(400).json({ message: "Product ID is required" });
   }
 
-  // Get carts
-  const carts = getCartsFromFile();
-  const cartIndex = carts.findIndex((cart) => cart.userId === req.user.id);
+  // Lines of products no longer in the catalogue are removed by the unit
+  const { quantity, error } = scanQuantity(
+    storage.products.getById(productId),
+    { quantity: req.body.quantity, grams, action: "remove" }
+  );
 
-  if (cartIndex === -1) {
-    return res.status(404).json({ message: "Cart not found" });
+  if (error) {
+    return res.status(400).json({ message: error });
   }
 
-  const cart = carts[cartIndex];
-  const itemIndex = cart.items.findIndex((item) => item.id === productId);
-
-  if (itemIndex === -1) {
-    return res.status(404).json({ message: "Item not found in cart" });
-  }
+  let failure = null;
+  const updatedCart = storage.carts.update(req.user.id, (cart) => {
+    if (!cart) {
+      failure = "Cart not found";
+      return undefined;
+    }
 
-  // Update quantity or remove item
-  if (cart.items[itemIndex].quantity <= quantity) {
-    cart.items.splice(itemIndex, 1);
-  } else {
-    cart.items[itemIndex].quantity -= quantity;
-  }
+    // Update quantity or remove item
+    if (!removeFromLines(cart.items, productId, quantity)) {
+      failure = "Item not found in cart";
+      return undefined;
+    }
 
-  // Recalculate total
-  cart.total = cart.items.reduce(
-    (sum, item) => sum + item.price * item.quantity,
-    0
-  );
-  cart.total = parseFloat(cart.total.toFixed(2));
+    // Remove cart if empty
+    return cart.items.length === 0 ? null : cart;
+  });
 
-  // Remove cart if empty
-  if (cart.items.length === 0) {
-    carts.splice(cartIndex, 1);
-    saveCartsToFile(carts);
-    return res.json({ userId: req.user.id, items: [], total: 0 });
+  if (failure) {
+    return res.status(404).json({ message: failure });
   }
 
-  saveCartsToFile(carts);
-  res.json(cart);
+  res.json(priceCart(updatedCart) || emptyCart(req.user.id));
 });
 
 // Clear cart
-router.delete("/clear", authRoutes.authenticateToken, (req, res) => {
-  const carts = getCartsFromFile();
-  const cartIndex = carts.findIndex((cart) => cart.userId === req.user.id);
-
-  if (cartIndex !== -1) {
-    carts.splice(cartIndex, 1);
-    saveCartsToFile(carts);
+router.delete(
+  "/clear",
+  authRoutes.authenticateToken,
+  idempotent,
+  (req, res) => {
+    storage.carts.removeByUserId(req.user.id);
+
+    res.json(emptyCart(req.user.id));
   }
+);
+
+// Set the state the order will be supplied to, for customers billing to a
+// GSTIN registered in another state. null goes back to the store's state.
+router.put(
+  "/place-of-supply",
+  authRoutes.authenticateToken,
+  idempotent,
+  (req, res) => {
+    const { placeOfSupply = null } = req.body;
+
+    if (placeOfSupply !== null && !isStateCode(placeOfSupply)) {
+      return res
+        .status(400)
+        .json({ message: "Place of supply must be a two-digit state code" });
+    }
 
-  res.json({ userId: req.user.id, items: [], total: 0 });
-});
+    const cart = storage.carts.update(req.user.id, (existing) => ({
+      ...(existing || { userId: req.user.id, items: [] }),
+      placeOfSupply: placeOfSupply || undefined,
+    }));
+
+    res.json(priceCart(cart));
+  }
+);
+
+// Apply a coupon code to the user's cart, replacing any coupon already on it
+router.post(
+  "/apply-coupon",
+  authRoutes.authenticateToken,
+  idempotent,
+  (req, res) => {
+    const code = normalizeCode(req.body.code);
+
+    if (!code) {
+      return res.status(400).json({ message: "Coupon code is required" });
+    }
 
-// Clear cart for physical device
-router.post("/clear", (req, res) => {
-  const { cartId, deviceId } = req.body;
-  let userId = "2"; // Default to customer ID if no cartId provided
+    const promotion = storage.promotions.getByCode(code);
 
-  // Get carts
-  const carts = getCartsFromFile();
+    if (!promotion) {
+      return res.status(404).json({ message: "Coupon not found" });
+    }
 
-  // Find cart by cartId or deviceId
-  let cartIndex = -1;
-  if (cartId) {
-    cartIndex = carts.findIndex((cart) => cart.id === cartId);
-    if (cartIndex !== -1) {
-      userId = carts[cartIndex].userId;
+    const reason = couponUnavailableReason(promotion);
+    if (reason) {
+      return res.status(400).json({ message: reason });
     }
+
+    const cart = storage.carts.update(req.user.id, (existing) => ({
+      ...(existing || { userId: req.user.id, items: [] }),
+      couponCode: promotion.code,
+    }));
+
+    res.json(priceCart(cart));
+  }
+);
+
+// Take the coupon off the user's cart
+router.delete(
+  "/coupon",
+  authRoutes.authenticateToken,
+  idempotent,
+  (req, res) => {
+    const cart = storage.carts.update(req.user.id, (existing) =>
+      existing ? { ...existing, couponCode: undefined } : undefined
+    );
+
+    res.json(priceCart(cart) || emptyCart(req.user.id));
   }
+);
+
+// Empty the cart paired with a physical device. The cart stays paired. Stock
+// is untouched, since scanning items never took it.
+router.post("/clear", authenticateDevice, idempotent, (req, res) => {
+  const cart = storage.carts.getByDeviceId(req.device.id);
 
-  // If cartId not found, try deviceId mapping (implement your device-to-user mapping)
+  if (cart) {
+    storage.carts.update(cart.userId, (current) =>
+      current ? { ...current, items: [] } : undefined
+    );
 
-  if (cartIndex !== -1) {
-    carts.splice(cartIndex, 1);
-    saveCartsToFile(carts);
+    req.app.io.emit("cart_updated", {
+      userId: cart.userId,
+      carts: listPricedCarts(),
+    });
   }
 
   // Return success response
   res.json({
     success: true,
     message: "Cart cleared successfully",
-    userId: userId,
+    userId: cart ? cart.userId : null,
     items: [],
     total: 0,
   });
 });
 
-// RFID scan from physical device (no auth required)
-router.post("/device/rfid-scan", (req, res) => {
-  const { rfidTag, action = "add", deviceId, userId = "2" } = req.body;
+// RFID scan from a signed physical device
+router.post("/device/rfid-scan", authenticateDevice, idempotent, (req, res) =>
+  handleDeviceRfidScan(req, res)
+);
+
+// Scans a cart buffered while the server was unreachable. Each scan carries a
+// sequence number the device never reuses, so a batch that is sent again after
+// a lost response is not applied twice.
+router.post("/device/scan-batch", authenticateDevice, (req, res) => {
+  const { scans } = req.body;
+  const deviceId = req.device.id;
+
+  if (!Array.isArray(scans) || scans.length === 0) {
+    return res.status(400).json({
+      success: false,
+      message: "A non-empty list of scans is required",
+    });
+  }
+
+  if (scans.length > MAX_BATCH_SCANS) {
+    return res.status(400).json({
+      success: false,
+      message: `A batch can hold at most ${MAX_BATCH_SCANS} scans`,
+    });
+  }
+
+  const invalidIndex = scans.findIndex(
+    (scan) =>
+      !scan ||
+      !Number.isSafeInteger(scan.sequence) ||
+      scan.sequence < 1 ||
+      !scan.rfidTag ||
+      !isFinite(Number(scan.timestamp)) ||
+      (scan.action !== undefined && !["add", "remove"].includes(scan.action))
+  );
+
+  if (invalidIndex !== -1) {
+    return res.status(400).json({
+      success: false,
+      message:
+        "Every scan needs a positive integer sequence, an rfidTag, a timestamp and an action of add or remove",
+      index: invalidIndex,
+    });
+  }
+
+  console.log(
+    `Received batch of ${scans.length} scans from device ${deviceId}`
+  );
+
+  // Apply in the order the cart made the scans, not the order they were sent
+  const ordered = [...scans].sort((a, b) => a.sequence - b.sequence);
+  const scanned = [];
+
+  const results = ordered.map(
+    ({ sequence, timestamp, rfidTag, action = "add", grams }) => {
+      let outcome = null;
+
+      const { scan, duplicate } = storage.deviceScans.record(
+        deviceId,
+        sequence,
+        () => {
+          outcome = applyDeviceScan(deviceId, rfidTag, action, grams);
+          return {
+            scannedAt: new Date(Number(timestamp) * 1000).toISOString(),
+            rfidTag,
+            action,
+            success: outcome.success,
+            message: outcome.message,
+            productId: outcome.product ? outcome.product.id : null,
+          };
+        }
+      );
+
+      if (outcome && outcome.success) {
+        scanned.push(outcome);
+      }
+
+      return {
+        sequence,
+        success: scan.success,
+        message: scan.message,
+        productId: scan.productId,
+        duplicate,
+      };
+    }
+  );
+
+  if (req.app.io && scanned.length > 0) {
+    scanned.forEach(({ product, action, userId }) =>
+      req.app.io.emit("product_scanned", { product, action, userId, deviceId })
+    );
+
+    req.app.io.emit("cart_updated", {
+      userId: scanned[scanned.length - 1].userId,
+      carts: listPricedCarts(),
+    });
+  }
+
+  res.json({
+    success: true,
+    results,
+    cart: priceCart(storage.carts.getByDeviceId(deviceId)),
+  });
+});
+
+// Load cell reading from a signed physical device, compared with the expected
+// weight of the scanned items. A mismatch flags the cart and alerts staff.
+router.post("/device/weight", authenticateDevice, (req, res) => {
+  const grams = req.body.grams;
+  const deviceId = req.device.id;
+
+  if (
+    typeof grams !== "number" ||
+    !isFinite(grams) ||
+    grams < 0 ||
+    grams > MAX_WEIGHT_GRAMS
+  ) {
+    return res.status(400).json({
+      success: false,
+      message: `grams must be a number between 0 and ${MAX_WEIGHT_GRAMS}`,
+    });
+  }
+
+  const connectedCart = storage.carts.getByDeviceId(deviceId);
+
+  if (!connectedCart) {
+    return res.status(409).json({
+      success: false,
+      message: "Cart is not connected to a shopper",
+      deviceId,
+    });
+  }
+
+  const { check, cart, flagged } = recordWeight(connectedCart.userId, grams);
+  const priced = priceCart(cart);
+
+  if (req.app.io) {
+    if (flagged) {
+      console.warn(
+        `Weight mismatch on device ${deviceId}: ${check.status}, expected ${check.expectedGrams}g, measured ${check.measuredGrams}g`
+      );
+      req.app.io.emit("weight_mismatch", {
+        deviceId,
+        userId: cart.userId,
+        cartId: cart.id,
+        mismatch: check,
+      });
+    }
+
+    req.app.io.emit("cart_updated", {
+      userId: cart.userId,
+      carts: listPricedCarts(),
+    });
+  }
+
+  res.json({
+    success: true,
+    check,
+    blocked: Boolean(cart.weightMismatch),
+    cart: priced,
+  });
+});
+
+// Carts whose weight is flagged and waiting for staff, oldest first
+router.get(
+  "/weight-mismatches",
+  authRoutes.authenticateToken,
+  authRoutes.requirePermission("carts:override"),
+  (req, res) => {
+    const flagged = storage.carts
+      .list()
+      .filter((cart) => cart.weightMismatch)
+      .sort((a, b) =>
+        a.weightMismatch.checkedAt.localeCompare(b.weightMismatch.checkedAt)
+      )
+      .map((cart) => {
+        const user = storage.users.getById(cart.userId);
+        return {
+          userId: cart.userId,
+          username: user ? user.username : null,
+          cartId: cart.id,
+          deviceId: cart.deviceId || null,
+          mismatch: cart.weightMismatch,
+          weightCheck: cart.weightCheck,
+        };
+      });
+
+    res.json(flagged);
+  }
+);
+
+// Clear a cart's weight flag once staff have checked its contents, letting
+// the shopper check out
+router.post(
+  "/users/:userId/weight-override",
+  authRoutes.authenticateToken,
+  authRoutes.requirePermission("carts:override"),
+  idempotent,
+  (req, res) => {
+    const note =
+      typeof req.body.note === "string" ? req.body.note.trim() : undefined;
+    const cart = overrideWeightMismatch(req.params.userId, req.user, note);
+
+    if (!cart) {
+      return res
+        .status(404)
+        .json({ message: "No weight mismatch is flagged on this cart" });
+    }
+
+    if (req.app.io) {
+      req.app.io.emit("cart_updated", {
+        userId: cart.userId,
+        carts: listPricedCarts(),
+      });
+    }
+
+    res.json({
+      message: "Weight mismatch overridden",
+      cart: priceCart(cart),
+    });
+  }
+);
+
+// Check out a shopper's cart into a completed order, by the shopper in the
+// app or by a cashier at the counter. payFor(dueMinor) is given what is left
+// to pay after points and returns { payment } for the order or { error }.
+// Returns { order, loyalty }, or the HTTP status and body for a failed
+// checkout.
+function checkoutCart(io, userId, { redeemPoints, payFor }) {
+  // A cart flagged by its load cell waits for staff before checking out
+  const current = storage.carts.getByUserId(userId);
+  if (current && current.weightMismatch) {
+    return {
+      status: 409,
+      success: false,
+      message: WEIGHT_MISMATCH_MESSAGE,
+      weightMismatch: current.weightMismatch,
+    };
+  }
+
+  if (!current) {
+    return { status: 404, success: false, message: "Cart not found" };
+  }
+
+  // Check the points the customer wants to spend and how the rest is paid
+  // before the cart is taken
+  const { totalMinor: currentTotalMinor } = priceCart(current).pricing;
+  const redemption = redemptionFor(
+    userId,
+    redeemPoints,
+    currentTotalMinor,
+    getLoyaltySettings()
+  );
+
+  if (redemption.error) {
+    return { status: 400, success: false, message: redemption.error };
+  }
+
+  const paid = payFor(currentTotalMinor - redemption.amountMinor);
+
+  if (paid.error) {
+    return { status: 400, success: false, message: paid.error };
+  }
+
+  // Take the user's cart out of storage so scans arriving mid-checkout
+  // start a new cart instead of being lost
+  const cart = storage.carts.removeByUserId(userId);
+
+  if (!cart) {
+    return { status: 404, success: false, message: "Cart not found" };
+  }
+
+  // Charge current catalogue prices. Points never pay for more than the
+  // order, even if the cart changed since they were checked.
+  const priced = priceCart(cart);
+  const { totalMinor } = priced.pricing;
+  const used =
+    redemption.amountMinor <= totalMinor
+      ? redemption
+      : { points: 0, amountMinor: 0 };
+  const { order, loyalty } = placeOrder(io, {
+    userId,
+    cart,
+    priced,
+    redemption: used,
+    status: "completed",
+    payment: paid.payment,
+  });
+
+  // If this was connected to a physical cart, notify it
+  if (cart.deviceId) {
+    // Send checkout completed signal to the physical cart
+    // This is a placeholder - implement actual NodeMCU communication here
+    io.emit("checkout_complete", {
+      deviceId: cart.deviceId,
+      message: "Checkout completed successfully",
+    });
+    notifyDeviceReleased(io, cart.deviceId);
+  }
+  io.emit("cart_updated", { userId, carts: listPricedCarts() });
+  io.emit("inventory_updated", { products: storage.products.list() });
+
+  return { order, loyalty };
+}
+
+// Helper function for device RFID scans
+function handleDeviceRfidScan(req, res) {
+  const { rfidTag, action = "add", grams } = req.body;
+  const deviceId = req.device.id;
 
   // Log the incoming request
   console.log("Received RFID scan from device:", {
     rfidTag,
     action,
     deviceId,
-    userId,
     timestamp: new Date().toISOString(),
   });
 
@@ -257,12 +575,6 @@ router.post("/device/rfid-scan", (req, res) => {
     });
   }
 
-  // Get product by RFID tag
-  const products = getProductsFromFile();
-  const product = products.find(
-    (p) => p.rfidTag.toLowerCase() === rfidTag.toLowerCase()
-  );
-
   // Special handling for TEST_TAG
   if (rfidTag === "TEST_TAG") {
     console.log("TEST_TAG detected - returning success without modifying cart");
@@ -275,65 +587,115 @@ router.post("/device/rfid-scan", (req, res) => {
     });
   }
 
+  const result = applyDeviceScan(deviceId, rfidTag, action, grams);
+
+  if (!result.success) {
+    const { status, ...body } = result;
+    return res.status(status).json(body);
+  }
+
+  const { product, userId, cart } = result;
+
+  // Notify connected clients via socket if available
+  if (req.app.io) {
+    console.log(`Emitting socket events for cart update`);
+    req.app.io.emit("product_scanned", {
+      product,
+      action,
+      userId,
+      deviceId,
+    });
+
+    req.app.io.emit("cart_updated", {
+      userId,
+      carts: listPricedCarts(),
+    });
+  }
+
+  console.log(`Successfully processed RFID scan for ${product.name}`);
+
+  res.json({
+    success: true,
+    message: result.message,
+    cart,
+    product,
+  });
+}
+
+// Add or remove one item, or the weighed grams of a product sold by weight, in
+// the cart of the shopper a device is connected to. Stock is only checked here
+// and taken at checkout. Returns the HTTP status and body for a failed scan, or
+// the updated cart and product.
+function applyDeviceScan(deviceId, rfidTag, action, grams) {
+  // Get product by RFID tag
+  const product = storage.products.getByRfidTag(rfidTag);
+
   if (!product) {
-    return res.status(404).json({
+    return {
+      status: 404,
       success: false,
       message: "Product not found",
       rfidTag,
-    });
+    };
+  }
+
+  const { quantity, error } = scanQuantity(product, { grams, action });
+
+  if (error) {
+    return { status: 400, success: false, message: error, product };
   }
 
   // Check inventory
-  if (action === "add" && product.quantity <= 0) {
-    return res.status(400).json({
+  if (action === "add" && product.quantity < quantity) {
+    return {
+      status: 400,
       success: false,
       message: "Product out of stock",
       product,
-    });
-  }
-
-  // Update inventory (only if non-test tag)
-  if (action === "add") {
-    product.quantity -= 1;
-  } else if (action === "remove") {
-    product.quantity += 1;
+    };
   }
-  saveProductsToFile(products);
 
-  // Update cart
-  const carts = getCartsFromFile();
-
-  // First check if this device is already connected to a user
-  const connectedCart = carts.find((cart) => cart.deviceId === deviceId);
+  // Scans go to the shopper the device is connected to
+  const connectedCart = storage.carts.getByDeviceId(deviceId);
 
-  // If device is connected to a user, use that user's cart
-  const effectiveUserId = connectedCart ? connectedCart.userId : userId;
+  if (!connectedCart) {
+    return {
+      status: 409,
+      success: false,
+      message: "Cart is not connected to a shopper",
+      deviceId,
+    };
+  }
 
-  const cartIndex = carts.findIndex((cart) => cart.userId === effectiveUserId);
+  const effectiveUserId = connectedCart.userId;
 
   console.log(
     `Cart operation: User ${effectiveUserId}, Device ${deviceId}, Operation: ${action}, Product: ${product.name}`
   );
 
-  let updatedCart;
-
-  if (cartIndex === -1 && action === "add") {
-    // Create new cart with ID
-    const newCart = {
-      id: `cart_${Date.now()}`,
-      userId: effectiveUserId,
-      deviceId: deviceId || null,
-      items: [{ ...product, quantity: 1 }],
-      total: product.price,
-    };
-    carts.push(newCart);
-    updatedCart = newCart;
+  // Read-modify-write the cart under the storage lock so concurrent scans
+  // from other carts or sockets cannot overwrite this one
+  let failure = null;
+  const updatedCart = storage.carts.update(effectiveUserId, (cart) => {
+    if (!cart) {
+      if (action === "remove") {
+        console.log(
+          `Attempted to remove from non-existent cart for user ${effectiveUserId}`
+        );
+        failure = "Cart not found";
+        return undefined;
+      }
 
-    console.log(
-      `Created new cart for user ${effectiveUserId} with device ${deviceId}`
-    );
-  } else if (cartIndex !== -1) {
-    const cart = carts[cartIndex];
+      console.log(
+        `Created new cart for user ${effectiveUserId} with device ${deviceId}`
+      );
+      // Create new cart; the repository gives it an ID
+      return {
+        userId: effectiveUserId,
+        deviceId: deviceId || null,
+        items: [cartLine(product, quantity)],
+      };
+    }
 
     // Add deviceId if not present
     if (deviceId && !cart.deviceId) {
@@ -343,96 +705,47 @@ router.post("/device/rfid-scan", (req, res) => {
       );
     }
 
-    // Add cart ID if not present
-    if (!cart.id) {
-      cart.id = `cart_${Date.now()}`;
-    }
-
-    const itemIndex = cart.items.findIndex((item) => item.id === product.id);
-
     if (action === "add") {
-      if (itemIndex === -1) {
-        cart.items.push({ ...product, quantity: 1 });
-        console.log(`Added new product ${product.name} to cart`);
-      } else {
-        cart.items[itemIndex].quantity += 1;
-        console.log(`Increased quantity of ${product.name} in cart`);
-      }
-      cart.total = parseFloat((cart.total + product.price).toFixed(2));
-    } else if (action === "remove" && itemIndex !== -1) {
-      if (cart.items[itemIndex].quantity > 1) {
-        cart.items[itemIndex].quantity -= 1;
-        console.log(`Decreased quantity of ${product.name} in cart`);
-      } else {
-        cart.items.splice(itemIndex, 1);
-        console.log(`Removed ${product.name} from cart`);
-      }
-      cart.total = parseFloat((cart.total - product.price).toFixed(2));
+      addToLines(cart.items, product, quantity);
+      console.log(`Added ${quantity} of ${product.name} to cart`);
+    } else if (action === "remove") {
+      const moved = removeFromLines(cart.items, product.id, quantity);
 
-      // Remove cart if empty
-      if (cart.items.length === 0) {
-        carts.splice(cartIndex, 1);
-        saveCartsToFile(carts);
+      if (!moved) {
         console.log(
-          `Cart for user ${effectiveUserId} is now empty and has been removed`
+          `Attempted to remove ${product.name} but it's not in the cart`
         );
-        return res.json({
-          success: true,
-          message: `Product ${
-            action === "add" ? "added to" : "removed from"
-          } cart`,
-          cart: { id: cart.id, userId: effectiveUserId, items: [], total: 0 },
-          product,
-        });
+        failure = "Item not found in cart";
+        return undefined;
       }
-    } else if (action === "remove" && itemIndex === -1) {
-      console.log(
-        `Attempted to remove ${product.name} but it's not in the cart`
-      );
-      return res.status(404).json({
-        success: false,
-        message: "Item not found in cart",
-      });
-    }
-
-    updatedCart = cart;
-  } else if (cartIndex === -1 && action === "remove") {
-    console.log(
-      `Attempted to remove from non-existent cart for user ${effectiveUserId}`
-    );
-    return res.status(404).json({
-      success: false,
-      message: "Cart not found",
-    });
-  }
+      console.log(`Removed ${moved} of ${product.name} from cart`);
 
-  saveCartsToFile(carts);
+      // Keep an empty cart so the device stays connected to the shopper
+      if (cart.items.length === 0) {
+        console.log(`Cart for user ${effectiveUserId} is now empty`);
+      }
+    }
 
-  // Notify connected clients via socket if available
-  if (req.app.io) {
-    console.log(`Emitting socket events for cart update`);
-    req.app.io.emit("product_scanned", {
-      product,
-      action,
-      userId: effectiveUserId,
-      deviceId,
-    });
+    return cart;
+  });
 
-    req.app.io.emit("cart_updated", {
-      userId: effectiveUserId,
-      carts,
-    });
+  if (failure) {
+    return {
+      status: 404,
+      success: false,
+      message: failure,
+    };
   }
 
-  console.log(`Successfully processed RFID scan for ${product.name}`);
-
-  res.json({
+  return {
     success: true,
     message: `Product ${action === "add" ? "added to" : "removed from"} cart`,
-    cart: updatedCart,
+    cart: priceCart(updatedCart) || emptyCart(effectiveUserId),
     product,
-  });
-});
+    action,
+    userId: effectiveUserId,
+  };
+}
 
 // Alias for the device RFID scan endpoint to handle the simplified path
 // used by the NodeMCU (for compatibility)
@@ -451,99 +764,79 @@ router.post("/rfid-scan", (req, res) => {
       req.body.userId = req.user.id;
       console.log(`Authenticated as user ${req.user.id}`);
       // Handle like the regular RFID scan endpoint
-      handleUserRfidScan(req, res);
+      idempotent(req, res, () => handleUserRfidScan(req, res));
     });
   } else {
     // Handle as a device request
-    console.log(
-      "Handling HTTP request from NodeMCU device or unauthenticated request"
+    console.log("Handling HTTP request from NodeMCU device");
+    authenticateDevice(req, res, () =>
+      idempotent(req, res, () => handleDeviceRfidScan(req, res))
     );
-    // Forward to the device endpoint handler
-    req.url = "/device/rfid-scan";
-    req.app._router.handle(req, res);
   }
 });
 
 // Helper function for user RFID scans
 function handleUserRfidScan(req, res) {
-  const { rfidTag, action = "add", userId } = req.body;
+  const { rfidTag, action = "add", userId, grams } = req.body;
 
   if (!rfidTag) {
     return res.status(400).json({ message: "RFID tag is required" });
   }
 
   // Get product by RFID tag
-  const products = getProductsFromFile();
-  const product = products.find(
-    (p) => p.rfidTag.toLowerCase() === rfidTag.toLowerCase()
-  );
+  const product = storage.products.getByRfidTag(rfidTag);
 
   if (!product) {
     return res.status(404).json({ message: "Product not found" });
   }
 
-  // Check inventory
-  if (action === "add" && product.quantity <= 0) {
-    return res.status(400).json({ message: "Product out of stock" });
+  const { quantity, error } = scanQuantity(product, { grams, action });
+
+  if (error) {
+    return res.status(400).json({ message: error });
   }
 
-  // Update inventory
-  if (action === "add") {
-    product.quantity -= 1;
-  } else if (action === "remove") {
-    product.quantity += 1;
+  // Check inventory
+  if (action === "add" && product.quantity < quantity) {
+    return res.status(400).json({ message: "Product out of stock" });
   }
-  saveProductsToFile(products);
 
   // Update cart
-  const carts = getCartsFromFile();
-  const cartIndex = carts.findIndex((cart) => cart.userId === userId);
-
-  let updatedCart;
+  let failure = null;
+  const updatedCart = storage.carts.update(userId, (cart) => {
+    if (!cart) {
+      if (action === "remove") {
+        failure = "Cart not found";
+        return undefined;
+      }
 
-  if (cartIndex === -1 && action === "add") {
-    // Create new cart
-    carts.push({
-      userId: userId,
-      items: [{ ...product, quantity: 1 }],
-      total: product.price,
-    });
-    updatedCart = carts[carts.length - 1];
-  } else if (cartIndex !== -1) {
-    const cart = carts[cartIndex];
-    const itemIndex = cart.items.findIndex((item) => item.id === product.id);
+      // Create new cart
+      return {
+        userId: userId,
+        items: [cartLine(product, quantity)],
+      };
+    }
 
     if (action === "add") {
-      if (itemIndex === -1) {
-        cart.items.push({ ...product, quantity: 1 });
-      } else {
-        cart.items[itemIndex].quantity += 1;
-      }
-      cart.total = parseFloat((cart.total + product.price).toFixed(2));
-    } else if (action === "remove" && itemIndex !== -1) {
-      if (cart.items[itemIndex].quantity > 1) {
-        cart.items[itemIndex].quantity -= 1;
-      } else {
-        cart.items.splice(itemIndex, 1);
+      addToLines(cart.items, product, quantity);
+    } else if (action === "remove") {
+      if (!removeFromLines(cart.items, product.id, quantity)) {
+        failure = "Item not found in cart";
+        return undefined;
       }
-      cart.total = parseFloat((cart.total - product.price).toFixed(2));
 
       // Remove cart if empty
       if (cart.items.length === 0) {
-        carts.splice(cartIndex, 1);
-        saveCartsToFile(carts);
-        return res.json({ userId: userId, items: [], total: 0 });
+        return null;
       }
-    } else if (action === "remove" && itemIndex === -1) {
-      return res.status(404).json({ message: "Item not found in cart" });
     }
 
-    updatedCart = cart;
-  } else if (cartIndex === -1 && action === "remove") {
-    return res.status(404).json({ message: "Cart not found" });
-  }
+    return cart;
+  });
 
-  saveCartsToFile(carts);
+  if (failure) {
+    return res.status(404).json({ message: failure });
+  }
 
   // Notify connected clients via socket if available
   if (req.app.io) {
@@ -555,39 +848,76 @@ function handleUserRfidScan(req, res) {
 
     req.app.io.emit("cart_updated", {
       userId,
-      carts,
+      carts: listPricedCarts(),
     });
   }
 
-  res.json(updatedCart);
+  res.json(priceCart(updatedCart) || emptyCart(userId));
 }
 
-// Connect physical cart to user
-router.post("/connect-device", authRoutes.authenticateToken, (req, res) => {
-  const { deviceId } = req.body;
+// Connect physical cart to user. The shopper must give the pairing code the
+// cart is showing, and a cart in use must be released before anyone else can
+// claim it.
+router.post(
+  "/connect-device",
+  authRoutes.authenticateToken,
+  idempotent,
+  (req, res) => {
+    const { deviceId, code } = req.body;
+
+    if (!deviceId || !code) {
+      return res.status(400).json({
+        success: false,
+        message: "Device ID and pairing code are required",
+      });
+    }
 
-  if (!deviceId) {
-    return res.status(400).json({
-      success: false,
-      message: "Device ID is required",
-    });
-  }
+    // Only carts in the device registry can be connected
+    const device = storage.devices.getById(deviceId);
+    if (!device || device.revokedAt) {
+      return res.status(device ? 403 : 404).json({
+        success: false,
+        message: device ? "Device has been revoked" : "Device not found",
+      });
+    }
 
-  // Get carts
-  const carts = getCartsFromFile();
+    const existingCart = storage.carts.getByDeviceId(deviceId);
 
-  // Check if device is already connected to another user
-  const existingCartIndex = carts.findIndex(
-    (cart) => cart.deviceId === deviceId && cart.userId !== req.user.id
-  );
+    if (existingCart && existingCart.userId !== req.user.id) {
+      return res.status(409).json({
+        success: false,
+        message: "This cart is in use by another shopper",
+      });
+    }
+
+    if (existingCart) {
+      return res.json({
+        success: true,
+        message: "Cart already connected",
+        cart: priceCart(existingCart),
+      });
+    }
+
+    if (!consumePairingCode(deviceId, code)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired pairing code",
+      });
+    }
+
+    // Find user's cart, or create a new empty one, and add the deviceId to it.
+    // A cart the shopper was using before is released.
+    const previous = storage.carts.getByUserId(req.user.id);
+    const userCart = storage.carts.update(req.user.id, (cart) => ({
+      ...(cart || { userId: req.user.id, items: [] }),
+      deviceId,
+    }));
 
-  if (existingCartIndex !== -1) {
-    // Transfer cart to this user
-    const existingCart = carts[existingCartIndex];
-    existingCart.userId = req.user.id;
-    saveCartsToFile(carts);
+    if (previous && previous.deviceId) {
+      notifyDeviceReleased(req.app.io, previous.deviceId);
+    }
+    emitDeviceStatus(req.app.io, deviceId);
 
-    // Emit socket event to notify about connection
     req.app.io.emit("cart_connected", {
       success: true,
       userId: req.user.id,
@@ -595,170 +925,164 @@ router.post("/connect-device", authRoutes.authenticateToken, (req, res) => {
       message: "Physical cart connected successfully",
     });
 
-    return res.json({
+    res.json({
       success: true,
-      message: "Cart connection initiated",
-      cart: existingCart,
+      message: "Cart connected successfully",
+      cart: priceCart(userCart),
     });
   }
+);
 
-  // Find user's cart
-  let userCartIndex = carts.findIndex((cart) => cart.userId === req.user.id);
+// Disconnect physical cart from user
+router.post(
+  "/disconnect-device",
+  authRoutes.authenticateToken,
+  idempotent,
+  (req, res) => {
+    const existing = storage.carts.getByUserId(req.user.id);
+    const deviceId = existing ? existing.deviceId : null;
+
+    // Remove deviceId from user's cart
+    const cart = storage.carts.update(req.user.id, (cart) =>
+      cart ? { ...cart, deviceId: null } : undefined
+    );
 
-  if (userCartIndex !== -1) {
-    // Add deviceId to user's existing cart
-    carts[userCartIndex].deviceId = deviceId;
-  } else {
-    // Create new empty cart with deviceId
-    carts.push({
-      id: `cart_${Date.now()}`,
-      userId: req.user.id,
-      deviceId: deviceId,
-      items: [],
-      total: 0,
-    });
-    userCartIndex = carts.length - 1;
-  }
+    if (!cart) {
+      return res.status(404).json({
+        success: false,
+        message: "Cart not found",
+      });
+    }
 
-  saveCartsToFile(carts);
+    notifyDeviceReleased(req.app.io, deviceId);
 
-  // Attempt to send a request to the NodeMCU cart device
-  // This is a placeholder - implement actual NodeMCU communication logic here
-  // For demonstration, we'll simulate a successful connection after a delay
-  setTimeout(() => {
-    req.app.io.emit("cart_connected", {
+    res.json({
       success: true,
-      userId: req.user.id,
-      deviceId: deviceId,
-      message: "Physical cart connected successfully",
-    });
-  }, 2000);
-
-  res.json({
-    success: true,
-    message: "Cart connection initiated",
-    cart: carts[userCartIndex],
-  });
-});
-
-// Disconnect physical cart from user
-router.post("/disconnect-device", authRoutes.authenticateToken, (req, res) => {
-  // Get carts
-  const carts = getCartsFromFile();
-
-  // Find user's cart
-  const userCartIndex = carts.findIndex((cart) => cart.userId === req.user.id);
-
-  if (userCartIndex === -1) {
-    return res.status(404).json({
-      success: false,
-      message: "Cart not found",
+      message: "Cart disconnected successfully",
+      cart: priceCart(cart),
     });
   }
-
-  // Remove deviceId from cart
-  carts[userCartIndex].deviceId = null;
-
-  saveCartsToFile(carts);
-
-  res.json({
-    success: true,
-    message: "Cart disconnected successfully",
-    cart: carts[userCartIndex],
-  });
-});
+);
 
 // Checkout process
-router.post("/checkout", authRoutes.authenticateToken, (req, res) => {
-  // Get carts
-  const carts = getCartsFromFile();
+router.post(
+  "/checkout",
+  authRoutes.authenticateToken,
+  idempotent,
+  (req, res) => {
+    const result = checkoutCart(req.app.io, req.user.id, {
+      redeemPoints: req.body.redeemPoints,
+      payFor: () => ({ payment: { method: "direct" } }),
+    });
 
-  // Find user's cart
-  const userCartIndex = carts.findIndex((cart) => cart.userId === req.user.id);
+    if (result.status) {
+      const { status, ...body } = result;
+      return res.status(status).json(body);
+    }
 
-  if (userCartIndex === -1) {
-    return res.status(404).json({
-      success: false,
-      message: "Cart not found",
+    res.json({
+      success: true,
+      message: "Checkout successful",
+      order: result.order,
+      loyalty: result.loyalty,
     });
   }
+);
+
+// Look up the cart on a device for a cashier, with the shopper's points so
+// they can pay with them at the counter
+router.get(
+  "/counter/:deviceId",
+  authRoutes.authenticateToken,
+  authRoutes.requirePermission("payments:take"),
+  (req, res) => {
+    const cart = storage.carts.getByDeviceId(req.params.deviceId);
+
+    if (!cart) {
+      return res.status(404).json({
+        success: false,
+        message: "No shopper is using this cart",
+      });
+    }
 
-  const cart = carts[userCartIndex];
-
-  // Update product inventory
-  const products = getProductsFromFile();
+    const user = storage.users.getById(cart.userId);
 
-  // Update inventory quantities
-  cart.items.forEach((item) => {
-    const productIndex = products.findIndex((p) => p.id === item.id);
-    if (productIndex !== -1) {
-      // Ensure we don't go below zero
-      products[productIndex].quantity = Math.max(
-        0,
-        products[productIndex].quantity - item.quantity
-      );
+    res.json({
+      success: true,
+      deviceId: req.params.deviceId,
+      cart: priceCart(cart),
+      user: user ? { id: user.id, username: user.username } : null,
+      loyalty: {
+        balance: storage.loyalty.getBalance(cart.userId),
+        settings: getLoyaltySettings(),
+      },
+    });
+  }
+);
+
+// Check out the cart on a device at the counter. The cashier records the
+// tenders taken (cash, card or UPI at the counter, split across any of them)
+// and the change given, and the order is closed as completed.
+router.post(
+  "/counter/:deviceId/checkout",
+  authRoutes.authenticateToken,
+  authRoutes.requirePermission("payments:take"),
+  idempotent,
+  (req, res) => {
+    const current = storage.carts.getByDeviceId(req.params.deviceId);
+
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        message: "No shopper is using this cart",
+      });
+    }
+    if (!current.items || current.items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "This cart is empty",
+      });
     }
-  });
-
-  // Save updated product inventory
-  saveProductsToFile(products);
-
-  // Process items in cart
-  const orderDetails = {
-    orderId: `order_${Date.now()}`,
-    userId: req.user.id,
-    items: cart.items,
-    total: cart.total,
-    date: new Date().toISOString(),
-    deviceId: cart.deviceId || null,
-  };
 
-  // Save order details (would typically go to orders.json)
-  const ordersFilePath = path.join(__dirname, "..", "data", "orders.json");
-  let orders = [];
+    const result = checkoutCart(req.app.io, current.userId, {
+      redeemPoints: req.body.redeemPoints,
+      payFor: (dueMinor) => {
+        const { error, ...taken } = readTenders(req.body.tenders, dueMinor);
+        if (error) return { error };
+
+        return {
+          payment: {
+            method: "counter",
+            ...taken,
+            takenBy: { id: req.user.id, username: req.user.username },
+          },
+        };
+      },
+    });
 
-  if (fs.existsSync(ordersFilePath)) {
-    orders = JSON.parse(fs.readFileSync(ordersFilePath));
-  }
+    if (result.status) {
+      const { status, ...body } = result;
+      return res.status(status).json(body);
+    }
 
-  orders.push(orderDetails);
-  fs.writeFileSync(ordersFilePath, JSON.stringify(orders));
+    console.log(
+      `Counter checkout of ${req.params.deviceId} by ${req.user.username}: order ${result.order.orderId}, change ${result.order.payment.changeMinor}`
+    );
 
-  // If this was connected to a physical cart, notify it
-  if (cart.deviceId) {
-    // Send checkout completed signal to the physical cart
-    // This is a placeholder - implement actual NodeMCU communication here
-    req.app.io.emit("checkout_complete", {
-      deviceId: cart.deviceId,
-      message: "Checkout completed successfully",
+    res.json({
+      success: true,
+      message: "Payment taken and order completed",
+      order: result.order,
+      loyalty: result.loyalty,
     });
   }
-
-  // Remove the cart
-  carts.splice(userCartIndex, 1);
-  saveCartsToFile(carts);
-
-  res.json({
-    success: true,
-    message: "Checkout successful",
-    order: orderDetails,
-  });
-});
+);
 
 // Get cart status by device ID
-router.get("/device/:deviceId", (req, res) => {
+router.get("/device/:deviceId", authenticateDevice, (req, res) => {
   const { deviceId } = req.params;
 
-  if (!deviceId) {
-    return res.status(400).json({
-      success: false,
-      message: "Device ID is required",
-    });
-  }
-
-  // Get carts
-  const carts = getCartsFromFile();
-  const cart = carts.find((cart) => cart.deviceId === deviceId);
+  const cart = storage.carts.getByDeviceId(deviceId);
 
   if (!cart) {
     return res.json({
@@ -770,27 +1094,30 @@ router.get("/device/:deviceId", (req, res) => {
   }
 
   // Get user info
-  const users = getUsersFromFile();
-  const user = users.find((user) => user.id === cart.userId);
+  const user = storage.users.getById(cart.userId);
 
   res.json({
     success: true,
     message: "Cart found",
     connected: true,
-    cart: cart,
+    cart: priceCart(cart),
     user: user ? { id: user.id, username: user.username } : null,
   });
 });
 
 // Get connected devices
 router.get("/connected-devices", authRoutes.authenticateToken, (req, res) => {
-  const carts = getCartsFromFile();
-  const connectedDevices = carts
-    .filter((cart) => cart.deviceId)
-    .map((cart) => ({
-      deviceId: cart.deviceId,
-      userId: cart.userId,
-      cartId: cart.id,
+  // Registered devices that are currently paired with a shopper's cart
+  const connectedDevices = storage.devices
+    .list()
+    .map(toPublicDevice)
+    .filter((device) => device.assignedUser)
+    .map((device) => ({
+      deviceId: device.id,
+      label: device.label || null,
+      status: device.status,
+      userId: device.assignedUser.id,
+      cartId: storage.carts.getByDeviceId(device.id).id,
     }));
 
   res.json({
@@ -0,0 +1,291 @@
+const express = require("express");
+const router = express.Router();
+const authRoutes = require("./auth");
+const storage = require("../storage");
+const {
+  generateDeviceSecret,
+  findActiveDevice,
+  verifyDeviceSignature,
+} = require("../utils/deviceAuth");
+const {
+  toPublicDevice,
+  emitDeviceStatus,
+  markDeviceSeen,
+  recordHeartbeat,
+} = require("../utils/devices");
+const {
+  issuePairingCode,
+  notifyDeviceReleased,
+} = require("../utils/pairing");
+
+// Device middleware - verifies the X-Device-* signature headers sent by the
+// NodeMCU firmware. Staff with devices:manage may instead act as a registered
+// device using their own token, which is what the RFID simulator does.
+const authenticateDevice = (req, res, next) => {
+  const claimedId = req.params.deviceId || (req.body && req.body.deviceId);
+  const signature = req.headers["x-device-signature"];
+
+  const accept = ({ device, status, message }) => {
+    if (!device) {
+      return res.status(status).json({ success: false, message });
+    }
+    if (claimedId && claimedId !== device.id) {
+      return res.status(403).json({
+        success: false,
+        message: "Device ID does not match the signing device",
+      });
+    }
+    req.device = device;
+    next();
+  };
+
+  if (!signature && req.headers.authorization) {
+    return authRoutes.authenticateToken(req, res, () =>
+      authRoutes.requirePermission("devices:manage")(req, res, () =>
+        accept(findActiveDevice(claimedId))
+      )
+    );
+  }
+
+  const result = verifyDeviceSignature({
+    deviceId: req.headers["x-device-id"],
+    method: req.method,
+    path: req.originalUrl,
+    timestamp: req.headers["x-device-timestamp"],
+    nonce: req.headers["x-device-nonce"],
+    signature,
+    payload: req.rawBody || "",
+  });
+
+  if (result.device) {
+    markDeviceSeen(req.app.io, result.device.id, { status: "online" });
+  }
+  accept(result);
+};
+
+// Pick the descriptive fields staff may set on a device, returning
+// { fields } or { error }
+const DESCRIPTIVE_FIELDS = ["label", "store", "firmwareVersion"];
+
+const readDeviceFields = (body) => {
+  const fields = {};
+
+  for (const name of DESCRIPTIVE_FIELDS) {
+    if (body[name] === undefined) continue;
+
+    if (body[name] !== null && typeof body[name] !== "string") {
+      return { error: `${name} must be a string` };
+    }
+
+    const value = (body[name] || "").trim();
+    if (value.length > 100) {
+      return { error: `${name} must be at most 100 characters` };
+    }
+    fields[name] = value || undefined;
+  }
+
+  return { fields };
+};
+
+// Device management needs the devices:manage permission
+const canManageDevices = [
+  authRoutes.authenticateToken,
+  authRoutes.requirePermission("devices:manage"),
+];
+
+// Get all registered devices
+router.get("/", canManageDevices, (req, res) => {
+  res.json(storage.devices.list().map(toPublicDevice));
+});
+
+// Get a single device
+router.get("/:id", canManageDevices, (req, res) => {
+  const device = storage.devices.getById(req.params.id);
+
+  if (!device) {
+    return res.status(404).json({ message: "Device not found" });
+  }
+
+  res.json(toPublicDevice(device));
+});
+
+// Issue a pairing code for a free cart to display. Carts connected over
+// Socket.IO are sent one automatically; staff use this to show it as a QR code.
+router.post("/:deviceId/pairing-code", authenticateDevice, (req, res) => {
+  if (storage.carts.getByDeviceId(req.device.id)) {
+    return res.status(409).json({
+      success: false,
+      message: "Cart is already connected to a shopper",
+    });
+  }
+
+  res.json({ success: true, ...issuePairingCode(req.device.id) });
+});
+
+// Release a cart from its shopper, e.g. one that was abandoned in the store
+router.post("/:id/release", canManageDevices, (req, res) => {
+  if (!storage.devices.getById(req.params.id)) {
+    return res.status(404).json({ message: "Device not found" });
+  }
+
+  const cart = storage.carts.getByDeviceId(req.params.id);
+  if (!cart) {
+    return res.status(409).json({ message: "Cart is not connected to a shopper" });
+  }
+
+  storage.carts.update(cart.userId, (current) => ({
+    ...current,
+    deviceId: null,
+  }));
+  notifyDeviceReleased(req.app.io, req.params.id);
+
+  res.json({
+    message: "Cart released",
+    device: toPublicDevice(storage.devices.getById(req.params.id)),
+  });
+});
+
+// Get the recent heartbeat readings of a device, oldest first
+router.get("/:id/telemetry", canManageDevices, (req, res) => {
+  const device = storage.devices.getById(req.params.id);
+
+  if (!device) {
+    return res.status(404).json({ message: "Device not found" });
+  }
+
+  res.json({
+    deviceId: device.id,
+    history: device.telemetryHistory || [],
+  });
+});
+
+// Heartbeat sent by a cart with its current telemetry
+router.post("/:deviceId/heartbeat", authenticateDevice, (req, res) => {
+  const device = recordHeartbeat(req.app.io, req.device.id, req.body);
+
+  res.json({
+    success: true,
+    status: device.status,
+    serverTime: new Date().toISOString(),
+  });
+});
+
+// Register a device. The secret is only ever returned here and when rotated.
+router.post("/", canManageDevices, (req, res) => {
+  const { id } = req.body;
+  const { fields, error } = readDeviceFields(req.body);
+
+  if (!id || !/^[a-zA-Z0-9_-]{3,64}$/.test(id)) {
+    return res.status(400).json({
+      message: "Device ID must be 3-64 characters: letters, numbers, '_' or '-'",
+    });
+  }
+
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+
+  if (storage.devices.getById(id)) {
+    return res.status(409).json({ message: "Device is already registered" });
+  }
+
+  const secret = generateDeviceSecret();
+  const device = storage.devices.create({
+    id,
+    ...fields,
+    secret,
+    status: "offline",
+    lastSeenAt: null,
+    createdAt: new Date().toISOString(),
+  });
+
+  res.status(201).json({
+    message: "Device registered successfully",
+    device: toPublicDevice(device),
+    secret,
+  });
+});
+
+// Update a device's label, store or firmware version
+router.put("/:id", canManageDevices, (req, res) => {
+  const { fields, error } = readDeviceFields(req.body);
+
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+
+  if (!storage.devices.getById(req.params.id)) {
+    return res.status(404).json({ message: "Device not found" });
+  }
+
+  const device = storage.devices.update(req.params.id, fields);
+  emitDeviceStatus(req.app.io, device.id);
+
+  res.json({
+    message: "Device updated successfully",
+    device: toPublicDevice(device),
+  });
+});
+
+// Issue a new secret, invalidating the old one and reinstating a revoked device
+router.post("/:id/rotate-secret", canManageDevices, (req, res) => {
+  if (!storage.devices.getById(req.params.id)) {
+    return res.status(404).json({ message: "Device not found" });
+  }
+
+  const secret = generateDeviceSecret();
+  const device = storage.devices.update(req.params.id, {
+    secret,
+    revokedAt: undefined,
+  });
+  emitDeviceStatus(req.app.io, device.id);
+
+  res.json({
+    message: "Device secret rotated",
+    device: toPublicDevice(device),
+    secret,
+  });
+});
+
+// Block a device from calling the device routes
+router.post("/:id/revoke", canManageDevices, (req, res) => {
+  if (!storage.devices.getById(req.params.id)) {
+    return res.status(404).json({ message: "Device not found" });
+  }
+
+  const device = storage.devices.update(req.params.id, {
+    revokedAt: new Date().toISOString(),
+  });
+  emitDeviceStatus(req.app.io, device.id);
+
+  res.json({
+    message: "Device revoked",
+    device: toPublicDevice(device),
+  });
+});
+
+// Remove a device from the registry, unpairing it from any cart
+router.delete("/:id", canManageDevices, (req, res) => {
+  if (!storage.devices.getById(req.params.id)) {
+    return res.status(404).json({ message: "Device not found" });
+  }
+
+  storage.transaction(() => {
+    const cart = storage.carts.getByDeviceId(req.params.id);
+    if (cart) {
+      storage.carts.update(cart.userId, (current) => ({
+        ...current,
+        deviceId: null,
+      }));
+    }
+    storage.devices.remove(req.params.id);
+    storage.deviceScans.removeByDeviceId(req.params.id);
+  });
+
+  res.json({ message: "Device deleted successfully" });
+});
+
+// Export middleware for use in other routes
+router.authenticateDevice = authenticateDevice;
+
+module.exports = router;
@@ -0,0 +1,79 @@
+const express = require("express");
+const router = express.Router();
+const authRoutes = require("./auth");
+const storage = require("../storage");
+const {
+  getLoyaltySettings,
+  readLoyaltySettings,
+  reverseOrderPoints,
+} = require("../utils/loyalty");
+
+const { authenticateToken, requirePermission } = authRoutes;
+
+// The signed-in customer's balance, the current rates and their history
+router.get("/me", authenticateToken, (req, res) => {
+  res.json({
+    balance: storage.loyalty.getBalance(req.user.id),
+    settings: getLoyaltySettings(),
+    history: storage.loyalty.listByUserId(req.user.id),
+  });
+});
+
+// Get the earn and burn rates
+router.get(
+  "/settings",
+  authenticateToken,
+  requirePermission("promotions:manage"),
+  (req, res) => {
+    res.json(getLoyaltySettings());
+  }
+);
+
+// Change the earn and burn rates. Points already earned keep their count.
+router.put(
+  "/settings",
+  authenticateToken,
+  requirePermission("promotions:manage"),
+  (req, res) => {
+    const { settings, error } = readLoyaltySettings(req.body);
+
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    storage.settings.save("loyalty", settings);
+
+    res.json({ message: "Loyalty settings updated successfully", settings });
+  }
+);
+
+// Take back the points an order earned and return the points spent on it,
+// for orders refunded outside the app
+router.post(
+  "/orders/:orderId/reverse",
+  authenticateToken,
+  requirePermission("orders:refund"),
+  (req, res) => {
+    const { orderId } = req.params;
+
+    if (storage.loyalty.listByOrderId(orderId).length === 0) {
+      return res
+        .status(404)
+        .json({ message: "No points were recorded for this order" });
+    }
+
+    const note =
+      typeof req.body.note === "string" ? req.body.note.trim() : undefined;
+    const entries = reverseOrderPoints(orderId, note);
+
+    res.json({
+      message:
+        entries.length > 0
+          ? "Points reversed successfully"
+          : "Points for this order were already reversed",
+      entries,
+    });
+  }
+);
+
+module.exports = router;
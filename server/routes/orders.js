@@ -0,0 +1,154 @@
+const express = require("express");
+const router = express.Router();
+const authRoutes = require("./auth");
+const storage = require("../storage");
+const { hasPermission } = require("../utils/permissions");
+const { idempotent } = require("../utils/idempotency");
+const {
+  readOrderFilters,
+  listOrders,
+  transitionOrder,
+} = require("../utils/orders");
+const {
+  REFUNDABLE_STATUSES,
+  readRefundRequest,
+  refundOrder,
+} = require("../utils/refunds");
+
+router.use(authRoutes.authenticateToken);
+
+// Statuses staff can move an order to by hand. Payments and refunds move
+// orders through the rest of their lifecycle.
+const STAFF_STATUSES = ["exit_verified", "completed", "cancelled"];
+
+// Staff listing orders see who placed each one
+const withCustomer = (order) => {
+  const user = storage.users.getById(order.userId);
+  return { ...order, username: user ? user.username : null };
+};
+
+// Customers get their own orders. Roles with orders:view get every order,
+// filtered by status, userId, deviceId and a from/to date range.
+router.get("/", (req, res) => {
+  if (!hasPermission(req.user.role, "orders:view")) {
+    return res.json(listOrders({ userId: req.user.id }));
+  }
+
+  const { filters, error } = readOrderFilters(req.query);
+
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+
+  res.json(listOrders(filters).map(withCustomer));
+});
+
+// Get a single order. Customers can only see their own.
+router.get("/:id", (req, res) => {
+  const order = storage.orders.getById(req.params.id);
+  const canView =
+    order &&
+    (order.userId === req.user.id ||
+      hasPermission(req.user.role, "orders:view"));
+
+  if (!canView) {
+    return res.status(404).json({ message: "Order not found" });
+  }
+
+  res.json(
+    hasPermission(req.user.role, "orders:view") ? withCustomer(order) : order
+  );
+});
+
+// Move an order along its lifecycle, e.g. after checking the shopper out at
+// the exit
+router.post(
+  "/:id/status",
+  authRoutes.requirePermission("orders:manage"),
+  (req, res) => {
+    const { status } = req.body;
+
+    if (!STAFF_STATUSES.includes(status)) {
+      return res.status(400).json({
+        message: `status must be one of ${STAFF_STATUSES.join(", ")}`,
+      });
+    }
+
+    if (!storage.orders.getById(req.params.id)) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const note =
+      typeof req.body.note === "string" ? req.body.note.trim() : undefined;
+    const { order, error } = transitionOrder(
+      req.app.io,
+      req.params.id,
+      status,
+      { by: req.user, note }
+    );
+
+    if (error) {
+      return res.status(409).json({ message: error });
+    }
+
+    res.json({
+      message: "Order status updated successfully",
+      order: withCustomer(order),
+    });
+  }
+);
+
+// Refund some or all of an order's items, e.g. when a shopper returns them
+// at the counter. The money goes back through the payment provider, or is
+// recorded as handed back in store for orders paid without it. Orders that
+// took no money still get their items and points back, with no money.
+router.post(
+  "/:id/refunds",
+  authRoutes.requirePermission("orders:refund"),
+  idempotent,
+  async (req, res) => {
+    const order = storage.orders.getById(req.params.id);
+
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(order.status)) {
+      return res.status(409).json({
+        message: `An order that is ${order.status} cannot be refunded`,
+      });
+    }
+
+    const { refund, error } = readRefundRequest(order, req.body);
+
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    try {
+      const result = await refundOrder(req.app.io, order, refund, req.user);
+
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+
+      console.log(
+        `Refunded ${result.refund.amountMinor} on order ${order.orderId} (${result.refund.refundId})`
+      );
+
+      res.status(201).json({
+        message: "Refund recorded successfully",
+        refund: result.refund,
+        order: withCustomer(result.order),
+      });
+    } catch (error) {
+      console.error("Error making refund:", error);
+      res.status(502).json({
+        message: "The payment provider could not make the refund",
+        error: error.message,
+      });
+    }
+  }
+);
+
+module.exports = router;
@@ -1,65 +1,110 @@
+const crypto = require("crypto");
 const express = require("express");
 const router = express.Router();
-const fs = require("fs");
-const path = require("path");
-const Razorpay = require("razorpay");
 const authRoutes = require("./auth");
-
-// Get carts from file
-const getCartsFromFile = () => {
-  const cartsFilePath = path.join(__dirname, "..", "data", "carts.json");
-  if (fs.existsSync(cartsFilePath)) {
-    return JSON.parse(fs.readFileSync(cartsFilePath));
+const storage = require("../storage");
+const { notifyDeviceReleased } = require("../utils/pairing");
+const {
+  priceCart,
+  toMajor,
+  listPricedCarts,
+} = require("../utils/pricing");
+const { getLoyaltySettings, redemptionFor } = require("../utils/loyalty");
+const {
+  startOrder,
+  payOrder,
+  recordPaymentFailure,
+  recordRefund,
+  findOrderByPayment,
+  findPaymentOrder,
+  paymentMismatch,
+} = require("../utils/orders");
+const { voidCancelledPayment } = require("../utils/refunds");
+const paymentProvider = require("../payments");
+const { WEIGHT_MISMATCH_MESSAGE } = require("../utils/weight");
+
+// Smallest amount Razorpay accepts for an order, in paise. The mock gateway
+// keeps the same limit.
+const MIN_CHARGE_MINOR = 100;
+
+// Razorpay retries a webhook for up to a day; events are remembered longer
+const WEBHOOK_EVENT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Clear a cart that has been paid for and tell the app and the physical cart
+const releasePaidCart = (io, userId) => {
+  const cart = storage.carts.removeByUserId(userId);
+
+  io.emit("cart_updated", { userId, carts: listPricedCarts() });
+  io.emit("inventory_updated", { products: storage.products.list() });
+  if (cart) {
+    notifyDeviceReleased(io, cart.deviceId);
   }
-  return [];
-};
-
-// Save carts to file
-const saveCartsToFile = (carts) => {
-  const cartsFilePath = path.join(__dirname, "..", "data", "carts.json");
-  fs.writeFileSync(cartsFilePath, JSON.stringify(carts));
 };
 
-// Get products from file
-const getProductsFromFile = () => {
-  const productsFilePath = path.join(__dirname, "..", "data", "products.json");
-  if (fs.existsSync(productsFilePath)) {
-    return JSON.parse(fs.readFileSync(productsFilePath));
+// Mark a pending order paid for a payment the provider reports captured,
+// settling what the customer paid for at create-order. Used when the browser
+// never reached /verify. A payment for a cancelled order is refunded instead.
+// Resolves to what was done, with status "processed" or "ignored".
+const settleCapturedPayment = async (io, order, payment) => {
+  if (order.status === "cancelled") {
+    const voided = await voidCancelledPayment(order, payment);
+    return voided
+      ? {
+          status: "processed",
+          reason: "Order was cancelled, so the payment was refunded",
+          orderId: order.orderId,
+          refundId: voided.refundId,
+        }
+      : {
+          status: "ignored",
+          reason: "Payment was already refunded",
+          orderId: order.orderId,
+        };
+  }
+  if (order.status !== "pending_payment") {
+    return {
+      status: "ignored",
+      reason: `Order is already ${order.status}`,
+      orderId: order.orderId,
+    };
+  }
+  if (payment.amountMinor !== order.payment.amountMinor) {
+    console.error(
+      `Captured ${payment.amountMinor} for order ${order.orderId}, expected ${order.payment.amountMinor}`
+    );
+    return {
+      status: "ignored",
+      reason: "Captured amount does not match the order",
+      orderId: order.orderId,
+    };
   }
-  return [];
-};
 
-// Save products to file
-const saveProductsToFile = (products) => {
-  const productsFilePath = path.join(__dirname, "..", "data", "products.json");
-  fs.writeFileSync(productsFilePath, JSON.stringify(products));
-};
+  const points = order.loyalty || {};
+  const placed = payOrder(io, order.orderId, {
+    cart: { id: order.cartId, items: order.items, deviceId: order.deviceId },
+    priced: { items: order.items, total: order.total, pricing: order.pricing },
+    redemption: {
+      points: points.pointsRedeemed || 0,
+      amountMinor: points.redeemedMinor || 0,
+    },
+    payment: { ...order.payment, paymentId: payment.id },
+  });
+
+  if (placed.error) {
+    return { status: "ignored", reason: placed.error, orderId: order.orderId };
+  }
 
-// Get user's cart or create it if it doesn't exist
-const getUserCart = (userId) => {
-  const carts = getCartsFromFile();
-  let cart = carts.find((cart) => cart.userId === userId);
-
-  // If user doesn't have a cart, create an empty one
-  if (!cart) {
-    cart = {
-      userId,
-      items: [],
-      total: 0,
-    };
-    carts.push(cart);
-    saveCartsToFile(carts);
+  // Clear the cart too, unless the customer has changed it since
+  const cart = storage.carts.getByUserId(order.userId);
+  if (cart && !paymentMismatch(order, cart, order.payment.amountMinor)) {
+    releasePaidCart(io, order.userId);
+  } else {
+    io.emit("inventory_updated", { products: storage.products.list() });
   }
 
-  return cart;
+  return { status: "processed", orderId: order.orderId };
 };
 
-// Initialize Razorpay with valid test credentials
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID || "rzp_test_2uPofgQZUz39Kk",
-  key_secret: process.env.RAZORPAY_KEY_SECRET || "eBwb1G3nKpGXAzFHR9a1vH0e",
-});
-
 // Create order for payment
 router.post("/create-order", authRoutes.authenticateToken, async (req, res) => {
   try {
@@ -72,7 +117,7 @@ router.post("/create-order", authRoutes.authenticateToken, async (req, res) => {
     }
 
     // Get user's cart directly with helper function
-    const userCart = getUserCart(req.user.id);
+    const userCart = storage.carts.getOrCreate(req.user.id);
     console.log("User cart found:", userCart);
 
     // Validate cart items
@@ -81,69 +126,94 @@ router.post("/create-order", authRoutes.authenticateToken, async (req, res) => {
       return res.status(400).json({ message: "Cart is empty" });
     }
 
-    // Verify cart total exists and is valid
-    if (
-      typeof userCart.total !== "number" ||
-      isNaN(userCart.total) ||
-      userCart.total <= 0
-    ) {
-      console.log("Invalid cart total:", userCart.total);
+    // A cart flagged by its load cell waits for staff before payment
+    if (userCart.weightMismatch) {
+      return res.status(409).json({
+        message: WEIGHT_MISMATCH_MESSAGE,
+        weightMismatch: userCart.weightMismatch,
+      });
+    }
 
-      // Try to fix the total by recalculating it
-      const fixedTotal = userCart.items.reduce(
-        (sum, item) => sum + item.price * item.quantity,
-        0
-      );
+    // Charge current catalogue prices, never a total stored on the cart
+    const priced = priceCart(userCart);
+    const { pricing } = priced;
 
-      if (fixedTotal > 0) {
-        userCart.total = parseFloat(fixedTotal.toFixed(2));
+    if (pricing.totalMinor <= 0) {
+      console.log("Invalid cart total:", pricing);
+      return res.status(400).json({ message: "Invalid cart total" });
+    }
 
-        // Save the fixed cart
-        const carts = getCartsFromFile();
-        const cartIndex = carts.findIndex(
-          (cart) => cart.userId === req.user.id
-        );
-        if (cartIndex !== -1) {
-          carts[cartIndex] = userCart;
-        } else {
-          carts.push(userCart);
-        }
-        saveCartsToFile(carts);
+    // Points pay for part of the order; Razorpay collects the rest
+    const redemption = redemptionFor(
+      req.user.id,
+      req.body.redeemPoints,
+      pricing.totalMinor,
+      getLoyaltySettings()
+    );
 
-        console.log("Fixed cart total:", userCart.total);
-      } else {
-        return res.status(400).json({ message: "Invalid cart total" });
-      }
+    if (redemption.error) {
+      return res.status(400).json({ message: redemption.error });
     }
 
-    // Create order with Razorpay
+    const amountMinor = pricing.totalMinor - redemption.amountMinor;
+    if (amountMinor < MIN_CHARGE_MINOR) {
+      return res
+        .status(400)
+        .json({ message: "Amount left to pay is below the minimum charge" });
+    }
+
+    // Remember the points so /verify spends the same ones
+    storage.carts.update(req.user.id, (cart) =>
+      cart
+        ? { ...cart, redeemPoints: redemption.points || undefined }
+        : undefined
+    );
+
+    // Create the order with the payment provider
     const options = {
-      amount: Math.round(userCart.total * 100), // amount in smallest currency unit (paise for INR)
-      currency: "INR",
+      amountMinor, // amount in smallest currency unit (paise for INR)
+      currency: pricing.currency,
       receipt: `order_${Date.now()}_${req.user.id}`,
-      payment_capture: 1, // auto capture
     };
 
-    console.log("Creating Razorpay order with options:", options);
+    console.log(
+      `Creating ${paymentProvider.name} order with options:`,
+      options
+    );
 
     try {
-      const order = await razorpay.orders.create(options);
+      const order = await paymentProvider.createOrder(options);
       console.log("Order created successfully:", order);
 
+      // Record the order as waiting for this payment. It binds the provider's
+      // order to this cart and amount for /verify.
+      startOrder(req.app.io, {
+        userId: req.user.id,
+        cart: userCart,
+        priced,
+        redemption,
+        payment: { method: paymentProvider.name, providerOrderId: order.id },
+      });
+
       res.json({
         orderId: order.id,
-        amount: order.amount / 100, // Convert back to main currency unit
+        amount: toMajor(order.amountMinor),
         currency: order.currency,
-        cartTotal: userCart.total,
+        cartTotal: toMajor(pricing.totalMinor),
+        pricing,
+        loyalty: {
+          pointsRedeemed: redemption.points,
+          redeemedMinor: redemption.amountMinor,
+        },
       });
-    } catch (razorpayError) {
-      console.error("Razorpay error:", razorpayError);
+    } catch (providerError) {
+      console.error(`${paymentProvider.name} error:`, providerError);
 
       // Send more detailed error information for debugging
       res.status(500).json({
-        message: "Failed to create Razorpay order",
-        error: razorpayError.message,
-        details: razorpayError,
+        message: `Failed to create ${paymentProvider.name} order`,
+        error: providerError.message,
+        details: providerError,
       });
     }
   } catch (error) {
@@ -155,59 +225,135 @@ router.post("/create-order", authRoutes.authenticateToken, async (req, res) => {
   }
 });
 
-// Verify payment
-router.post("/verify", authRoutes.authenticateToken, (req, res) => {
+// Verify payment. The signature proves the payment provider took the payment
+// for orderId; the order recorded at create-order proves orderId was for this
+// customer's current cart and amount.
+router.post("/verify", authRoutes.authenticateToken, async (req, res) => {
   const { paymentId, orderId, signature } = req.body;
 
-  // In a real implementation, you would verify the signature here
-  // For this demo, we'll assume the payment is valid
-
   try {
     // Check if user is authenticated
     if (!req.user || !req.user.id) {
       return res.status(401).json({ message: "Invalid user session" });
     }
 
-    // Get user's cart
-    const userCart = getUserCart(req.user.id);
+    if (!paymentId || !orderId || !signature) {
+      return res
+        .status(400)
+        .json({ message: "paymentId, orderId and signature are required" });
+    }
+
+    if (!paymentProvider.verifyPayment({ orderId, paymentId, signature })) {
+      console.error(`Invalid signature for payment ${paymentId}`);
+      return res.status(400).json({ message: "Invalid payment signature" });
+    }
+
+    const started = findPaymentOrder(req.user.id, orderId);
+
+    if (!started) {
+      return res
+        .status(404)
+        .json({ message: "No payment was started for this order" });
+    }
+
+    // The payment webhook may have recorded this payment first
+    if (
+      started.payment.paymentId === paymentId &&
+      started.status !== "cancelled"
+    ) {
+      return res.json({
+        success: true,
+        message: "Payment successful and order processed",
+        orderId,
+        paymentId,
+        amount: started.total,
+        order: started,
+        loyalty: started.loyalty,
+      });
+    }
+
+    // The order was cancelled while the customer was paying, so the money
+    // goes straight back
+    if (started.status === "cancelled") {
+      await voidCancelledPayment(started, {
+        id: paymentId,
+        amountMinor: started.payment.amountMinor,
+      });
+      return res.status(409).json({
+        message: "This order was cancelled, so the payment has been refunded",
+        order: storage.orders.getById(started.orderId),
+      });
+    }
+
+    if (started.status !== "pending_payment") {
+      return res.status(409).json({
+        message: "This payment has already been processed",
+        order: started,
+      });
+    }
+
+    const userCart = storage.carts.getByUserId(req.user.id);
 
     if (!userCart || !userCart.items || userCart.items.length === 0) {
       return res.status(404).json({ message: "Cart not found or empty" });
     }
 
-    // Update inventory
-    const products = getProductsFromFile();
-    let inventoryUpdated = false;
+    // Spend the points chosen at create-order, unless they no longer fit
+    // the order (e.g. the balance was used elsewhere in the meantime)
+    const priced = priceCart(userCart);
+    const { totalMinor } = priced.pricing;
+    let redemption = redemptionFor(
+      req.user.id,
+      userCart.redeemPoints,
+      totalMinor,
+      getLoyaltySettings()
+    );
+    if (redemption.error) {
+      console.error(
+        `Points not redeemed for payment ${paymentId}:`,
+        redemption.error
+      );
+      redemption = { points: 0, amountMinor: 0 };
+    }
 
-    userCart.items.forEach((cartItem) => {
-      const productIndex = products.findIndex((p) => p.id === cartItem.id);
-      if (productIndex !== -1) {
-        products[productIndex].quantity = Math.max(
-          0,
-          products[productIndex].quantity - cartItem.quantity
-        );
-        inventoryUpdated = true;
-      }
+    const mismatch = paymentMismatch(
+      started,
+      userCart,
+      totalMinor - redemption.amountMinor
+    );
+    if (mismatch) {
+      console.error(`Payment ${paymentId} not applied:`, mismatch);
+      return res.status(409).json({ message: mismatch });
+    }
+
+    // Mark the order paid, update inventory, count the promotions it used
+    // and move points
+    const placed = payOrder(req.app.io, started.orderId, {
+      cart: userCart,
+      priced,
+      redemption,
+      payment: {
+        method: paymentProvider.name,
+        paymentId,
+        providerOrderId: orderId,
+      },
     });
 
-    if (inventoryUpdated) {
-      saveProductsToFile(products);
+    if (placed.error) {
+      return res.status(409).json({ message: placed.error });
     }
 
-    // Clear the user's cart
-    const carts = getCartsFromFile();
-    const cartIndex = carts.findIndex((cart) => cart.userId === req.user.id);
-    if (cartIndex !== -1) {
-      carts.splice(cartIndex, 1);
-      saveCartsToFile(carts);
-    }
+    const { order, loyalty } = placed;
+    releasePaidCart(req.app.io, req.user.id);
 
     res.json({
       success: true,
       message: "Payment successful and order processed",
       orderId,
       paymentId,
-      amount: userCart.total,
+      amount: priced.total,
+      order,
+      loyalty,
     });
   } catch (error) {
     console.error("Error processing payment:", error);
@@ -217,9 +363,263 @@ router.post("/verify", authRoutes.authenticateToken, (req, res) => {
   }
 });
 
-// Get payment key - use the same test key as above
+// The entity of one kind ("payment", "refund") in a webhook payload
+const entityOf = (payload, name) =>
+  payload && payload[name] && payload[name].entity
+    ? payload[name].entity
+    : null;
+
+// Razorpay webhook events this server acts on. Each returns (or resolves to)
+// what was done, which is stored with the event and sent back if the event is
+// delivered again.
+const webhookHandlers = {
+  // Finish a payment whose browser never reached /verify, settling what the
+  // customer paid for at create-order
+  "payment.captured": (io, payload) => {
+    const payment = entityOf(payload, "payment");
+    const order =
+      payment && findOrderByPayment({ providerOrderId: payment.order_id });
+
+    if (!order) {
+      return { status: "ignored", reason: "No order for this payment" };
+    }
+
+    return settleCapturedPayment(io, order, {
+      id: payment.id,
+      amountMinor: payment.amount,
+    });
+  },
+
+  // Note the failure; the order stays pending so the customer can retry
+  "payment.failed": (io, payload) => {
+    const payment = entityOf(payload, "payment");
+    const order =
+      payment && findOrderByPayment({ providerOrderId: payment.order_id });
+
+    if (!order) {
+      return { status: "ignored", reason: "No order for this payment" };
+    }
+    if (order.status !== "pending_payment") {
+      return {
+        status: "ignored",
+        reason: `Order is already ${order.status}`,
+        orderId: order.orderId,
+      };
+    }
+
+    recordPaymentFailure(order.orderId, {
+      paymentId: payment.id,
+      code: payment.error_code || null,
+      description: payment.error_description || null,
+    });
+    return { status: "processed", orderId: order.orderId };
+  },
+
+  // Record a refund, including ones made from the Razorpay dashboard or by
+  // staff in the app. A full refund also reverses the order's loyalty points.
+  "refund.processed": (io, payload) => {
+    const refund = entityOf(payload, "refund");
+    const order =
+      refund && findOrderByPayment({ paymentId: refund.payment_id });
+
+    if (!order) {
+      return { status: "ignored", reason: "No order for this payment" };
+    }
+
+    const { order: updated, duplicate, error } = recordRefund(
+      io,
+      order.orderId,
+      {
+        refundId: refund.id,
+        amountMinor: refund.amount,
+        source: paymentProvider.name,
+      },
+      { note: `Refund ${refund.id}` }
+    );
+
+    if (error) {
+      return { status: "ignored", reason: error, orderId: order.orderId };
+    }
+    return {
+      status: duplicate ? "duplicate" : "processed",
+      orderId: order.orderId,
+      orderStatus: updated.status,
+    };
+  },
+};
+
+// Payment webhooks, in Razorpay's format. The body must be signed with the
+// provider's webhook secret. Razorpay retries until it gets a 2xx, so each
+// event (X-Razorpay-Event-Id, or the body's hash without one) is handled once
+// and repeats get the same response. Events that cannot be applied are
+// acknowledged as ignored so they are not retried.
+router.post("/webhook", async (req, res) => {
+  if (!paymentProvider.webhookSecret) {
+    return res
+      .status(503)
+      .json({ message: "Payment webhooks are not configured" });
+  }
+
+  const signature = req.get("X-Razorpay-Signature");
+  if (!paymentProvider.verifyWebhook(req.rawBody, signature)) {
+    console.error("Rejected payment webhook with an invalid signature");
+    return res.status(400).json({ message: "Invalid webhook signature" });
+  }
+
+  const { event, payload } = req.body;
+  const eventId =
+    req.get("X-Razorpay-Event-Id") ||
+    crypto.createHash("sha256").update(req.rawBody).digest("hex");
+  const id = `${paymentProvider.name}:${eventId}`;
+
+  const { record, claimed } = storage.idempotencyKeys.claim(id, {
+    expiresAt: new Date(Date.now() + WEBHOOK_EVENT_TTL_MS).toISOString(),
+  });
+
+  if (!claimed) {
+    if (!record.response) {
+      return res
+        .status(409)
+        .json({ message: "This event is still being processed" });
+    }
+
+    console.log(`Payment webhook ${eventId} was already handled`);
+    res.set("Idempotent-Replayed", "true");
+    return res.status(record.response.status).json(record.response.body);
+  }
+
+  try {
+    const handler = webhookHandlers[event];
+    const result = handler
+      ? await handler(req.app.io, payload)
+      : { status: "ignored", reason: "Event not handled" };
+    console.log(`Payment webhook ${event} (${eventId}):`, result);
+
+    const body = { received: true, event, ...result };
+    storage.idempotencyKeys.complete(id, { status: 200, body });
+    res.json(body);
+  } catch (error) {
+    // Let Razorpay retry the event
+    storage.idempotencyKeys.remove(id);
+    console.error("Error processing payment webhook:", error);
+    res
+      .status(500)
+      .json({ message: "Failed to process webhook", error: error.message });
+  }
+});
+
+// Where a payment stands with the provider, for a browser that lost track of
+// it (closed checkout, timeout). A captured payment the server has not seen
+// yet is settled here, as the payment.captured webhook would.
+router.get(
+  "/status/:orderId",
+  authRoutes.authenticateToken,
+  async (req, res) => {
+    const started = findPaymentOrder(req.user.id, req.params.orderId);
+
+    if (!started) {
+      return res
+        .status(404)
+        .json({ message: "No payment was started for this order" });
+    }
+
+    let providerStatus = null;
+    try {
+      const status = await paymentProvider.fetchStatus(req.params.orderId);
+      providerStatus = status.status;
+
+      if (
+        status.payment &&
+        ["pending_payment", "cancelled"].includes(started.status)
+      ) {
+        const result = await settleCapturedPayment(
+          req.app.io,
+          started,
+          status.payment
+        );
+        console.log(`Payment status check for ${started.orderId}:`, result);
+      }
+    } catch (error) {
+      console.error("Error fetching payment status:", error);
+      return res.status(502).json({
+        message: "Could not reach the payment provider",
+        error: error.message,
+        order: started,
+      });
+    }
+
+    res.json({
+      orderId: req.params.orderId,
+      providerStatus,
+      order: storage.orders.getById(started.orderId),
+    });
+  }
+);
+
+// The mock gateway's checkout, which the web app shows instead of Razorpay
+// Checkout when PAYMENT_PROVIDER=mock. outcome picks how the payment ends
+// (see payments/mock.js); a timed out payment is captured, but the answer
+// only comes after the provider's timeout, as a 504.
+router.post(
+  "/mock/checkout",
+  authRoutes.authenticateToken,
+  async (req, res) => {
+    if (paymentProvider.name !== "mock") {
+      return res
+        .status(404)
+        .json({ message: "The mock payment gateway is not enabled" });
+    }
+
+    const { orderId, outcome = "success" } = req.body;
+
+    if (!paymentProvider.outcomes.includes(outcome)) {
+      return res.status(400).json({
+        message: `outcome must be one of ${paymentProvider.outcomes.join(", ")}`,
+      });
+    }
+
+    const started = findPaymentOrder(req.user.id, orderId);
+
+    if (!started) {
+      return res
+        .status(404)
+        .json({ message: "No payment was started for this order" });
+    }
+
+    const result = paymentProvider.checkout(orderId, outcome);
+
+    if (result.error) {
+      if (result.payment && started.status === "pending_payment") {
+        recordPaymentFailure(started.orderId, {
+          paymentId: result.payment.id,
+          ...result.error,
+        });
+      }
+      return res
+        .status(402)
+        .json({ message: result.error.description, error: result.error });
+    }
+
+    if (result.timedOut) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, paymentProvider.timeoutMs)
+      );
+      return res
+        .status(504)
+        .json({ message: "The payment gateway did not respond in time" });
+    }
+
+    res.json({
+      orderId,
+      paymentId: result.payment.id,
+      signature: result.signature,
+    });
+  }
+);
+
+// Get the public key and provider the browser opens checkout with
 router.get("/key", (req, res) => {
-  res.json({ key: process.env.RAZORPAY_KEY_ID || "rzp_test_2uPofgQZUz39Kk" });
+  res.json({ key: paymentProvider.keyId, provider: paymentProvider.name });
 });
 
 module.exports = router;
@@ -3,21 +3,10 @@ const router = express.Router();
 const fs = require("fs");
 const path = require("path");
 const authRoutes = require("./auth");
-
-// Get products from file
-const getProductsFromFile = () => {
-  const productsFilePath = path.join(__dirname, "..", "data", "products.json");
-  if (fs.existsSync(productsFilePath)) {
-    return JSON.parse(fs.readFileSync(productsFilePath));
-  }
-  return [];
-};
-
-// Save products to file
-const saveProductsToFile = (products) => {
-  const productsFilePath = path.join(__dirname, "..", "data", "products.json");
-  fs.writeFileSync(productsFilePath, JSON.stringify(products));
-};
+const storage = require("../storage");
+const { hasPermission } = require("../utils/permissions");
+const { readTaxFields } = require("../utils/tax");
+const { readSaleFields, parseStock } = require("../utils/units");
 
 // Ensure public/images directory exists
 const ensureImagesDirectory = () => {
@@ -47,26 +36,18 @@ const ensureImagesDirectory = () => {
   return imagesDir;
 };
 
-// Admin middleware - checks if user is an admin
-const isAdmin = (req, res, next) => {
-  if (req.user.role !== "admin") {
-    return res
-      .status(403)
-      .json({ message: "Access denied. Admin privileges required." });
-  }
-  next();
-};
+const { authenticateToken, requirePermission } = authRoutes;
+const canWriteProducts = requirePermission("products:write");
+const canEditProducts = requirePermission("products:write", "inventory:adjust");
 
 // Get all products
 router.get("/", (req, res) => {
-  const products = getProductsFromFile();
-  res.json(products);
+  res.json(storage.products.list());
 });
 
 // Get product by ID
 router.get("/:id", (req, res) => {
-  const products = getProductsFromFile();
-  const product = products.find((p) => p.id === req.params.id);
+  const product = storage.products.getById(req.params.id);
 
   if (!product) {
     return res.status(404).json({ message: "Product not found" });
@@ -75,10 +56,9 @@ router.get("/:id", (req, res) => {
   res.json(product);
 });
 
-// Create new product (admin only)
-router.post("/", authRoutes.authenticateToken, isAdmin, (req, res) => {
-  const { name, price, rfidTag, quantity, weight, image } = req.body;
-  const { name, price, rfidTag, quantity, weight, image } = req.body;
+// Create new product
+router.post("/", authenticateToken, canWriteProducts, (req, res) => {
+  const { name, price, rfidTag, quantity, weight, image, category } = req.body;
 
   if (!name || !price || !rfidTag || quantity === undefined) {
     return res
@@ -86,112 +66,105 @@ router.post("/", authRoutes.authenticateToken, isAdmin, (req, res) => {
       .json({ message: "Name, price, RFID tag, and quantity are required" });
   }
 
-  const products = getProductsFromFile();
-
   // Check if RFID tag already exists
-  if (products.some((p) => p.rfidTag === rfidTag)) {
+  if (storage.products.getByRfidTag(rfidTag)) {
     return res
       .status(400)
       .json({ message: "Product with this RFID tag already exists" });
   }
 
-  // Generate new ID
-  const newId = (
-    Math.max(...products.map((p) => parseInt(p.id)), 0) + 1
-  ).toString();
+  const tax = readTaxFields(req.body);
+  if (tax.error) {
+    return res.status(400).json({ message: tax.error });
+  }
+
+  // Products sold by weight are priced per kg and stocked in kg
+  const sale = readSaleFields(req.body);
+  if (sale.error) {
+    return res.status(400).json({ message: sale.error });
+  }
 
-  const newProduct = {
-    id: newId,
+  const newProduct = storage.products.create({
     name,
     price: parseFloat(price),
     rfidTag,
-    quantity: parseInt(quantity),
+    quantity: parseStock(quantity, sale.fields),
     weight: weight ? parseFloat(weight) : undefined,
     image: image || undefined,
-    weight: weight ? parseFloat(weight) : undefined,
-    image: image || undefined,
-  };
-
-  products.push(newProduct);
-  saveProductsToFile(products);
+    category: category ? String(category).trim() : undefined,
+    ...tax.fields,
+    ...sale.fields,
+  });
 
   res.status(201).json(newProduct);
 });
 
-// Update product (admin only)
-router.put("/:id", authRoutes.authenticateToken, isAdmin, (req, res) => {
-  const { name, price, rfidTag, quantity, weight, image } = req.body;
-  const { name, price, rfidTag, quantity, weight, image } = req.body;
-  const products = getProductsFromFile();
-  const productIndex = products.findIndex((p) => p.id === req.params.id);
+// Update product. Roles with only inventory:adjust may change the quantity.
+router.put("/:id", authenticateToken, canEditProducts, (req, res) => {
+  const { name, price, rfidTag, quantity, weight, image, category } = req.body;
+  const product = storage.products.getById(req.params.id);
 
-  if (productIndex === -1) {
+  if (!product) {
     return res.status(404).json({ message: "Product not found" });
   }
 
+  const changesDetails = Object.keys(req.body).some(
+    (field) => field !== "quantity"
+  );
+  if (changesDetails && !hasPermission(req.user.role, "products:write")) {
+    return res
+      .status(403)
+      .json({ message: "Your role can only change product quantities" });
+  }
+
   // Check if RFID tag already exists on another product
-  if (
-    rfidTag &&
-    products.some((p) => p.rfidTag === rfidTag && p.id !== req.params.id)
-  ) {
+  const tagOwner = rfidTag && storage.products.getByRfidTag(rfidTag);
+  if (tagOwner && tagOwner.id !== req.params.id) {
     return res
       .status(400)
       .json({ message: "Another product with this RFID tag already exists" });
   }
 
+  const tax = readTaxFields(req.body);
+  if (tax.error) {
+    return res.status(400).json({ message: tax.error });
+  }
+
+  const sale = readSaleFields(req.body);
+  if (sale.error) {
+    return res.status(400).json({ message: sale.error });
+  }
+
   // Update product
-  products[productIndex] = {
-    ...products[productIndex],
-    name: name || products[productIndex].name,
-    price:
-      price !== undefined ? parseFloat(price) : products[productIndex].price,
-    rfidTag: rfidTag || products[productIndex].rfidTag,
+  const updatedProduct = storage.products.update(req.params.id, {
+    name: name || product.name,
+    price: price !== undefined ? parseFloat(price) : product.price,
+    rfidTag: rfidTag || product.rfidTag,
     quantity:
       quantity !== undefined
-        ? parseInt(quantity)
-        : products[productIndex].quantity,
-    weight:
-      weight !== undefined ? parseFloat(weight) : products[productIndex].weight,
-    image: image !== undefined ? image : products[productIndex].image,
-    weight:
-      weight !== undefined ? parseFloat(weight) : products[productIndex].weight,
-    image: image !== undefined ? image : products[productIndex].image,
-  };
-
-  saveProductsToFile(products);
-
-  res.json(products[productIndex]);
+        ? parseStock(quantity, { ...product, ...sale.fields })
+        : product.quantity,
+    weight: weight !== undefined ? parseFloat(weight) : product.weight,
+    image: image !== undefined ? image : product.image,
+    category:
+      category !== undefined
+        ? String(category || "").trim() || undefined
+        : product.category,
+    ...tax.fields,
+    ...sale.fields,
+  });
+
+  res.json(updatedProduct);
 });
 
-// Delete product (admin only)
-router.delete("/:id", authRoutes.authenticateToken, isAdmin, (req, res) => {
-  const products = getProductsFromFile();
-  const productIndex = products.findIndex((p) => p.id === req.params.id);
+// Delete product
+router.delete("/:id", authenticateToken, canWriteProducts, (req, res) => {
+  const deletedProduct = storage.products.getById(req.params.id);
 
-  if (productIndex === -1) {
+  if (!deletedProduct) {
     return res.status(404).json({ message: "Product not found" });
   }
 
-  const deletedProduct = products[productIndex];
-
-  // If product has an image, try to delete it
-  if (deletedProduct.image) {
-    const imagePath = path.join(
-      __dirname,
-      "..",
-      "public",
-      deletedProduct.image
-    );
-    if (fs.existsSync(imagePath)) {
-      try {
-        fs.unlinkSync(imagePath);
-      } catch (error) {
-        console.error("Failed to delete image file:", error);
-      }
-    }
-  }
-
-
   // If product has an image, try to delete it
   if (deletedProduct.image) {
     const imagePath = path.join(
@@ -209,8 +182,7 @@ router.delete("/:id", authRoutes.authenticateToken, isAdmin, (req, res) => {
     }
   }
 
-  products.splice(productIndex, 1);
-  saveProductsToFile(products);
+  storage.products.remove(req.params.id);
 
   res.json({
     message: "Product deleted successfully",
@@ -220,8 +192,7 @@ router.delete("/:id", authRoutes.authenticateToken, isAdmin, (req, res) => {
 
 // Get product by RFID tag
 router.get("/rfid/:tag", (req, res) => {
-  const products = getProductsFromFile();
-  const product = products.find((p) => p.rfidTag === req.params.tag);
+  const product = storage.products.getByRfidTag(req.params.tag);
 
   if (!product) {
     return res.status(404).json({ message: "Product not found" });
@@ -230,11 +201,11 @@ router.get("/rfid/:tag", (req, res) => {
   res.json(product);
 });
 
-// Upload product image (admin only)
+// Upload product image
 router.post(
   "/upload-image/:id",
-  authRoutes.authenticateToken,
-  isAdmin,
+  authenticateToken,
+  canWriteProducts,
   (req, res) => {
     console.log("Image upload request received for product ID:", req.params.id);
     console.log(
@@ -247,11 +218,10 @@ router.post(
       return res.status(400).json({ message: "No image file provided" });
     }
 
-    const products = getProductsFromFile();
     const productId = req.params.id;
-    const productIndex = products.findIndex((p) => p.id === productId);
+    const product = storage.products.getById(productId);
 
-    if (productIndex === -1) {
+    if (!product) {
       console.error("Product not found:", productId);
       return res.status(404).json({ message: "Product not found" });
     }
@@ -297,13 +267,16 @@ router.post(
 
         console.log("Image moved successfully to:", filePath);
 
+        // Re-read the product, it may have changed while the file was moving
+        const currentProduct = storage.products.getById(productId) || product;
+
         // Delete old image if exists
-        if (products[productIndex].image) {
+        if (currentProduct.image) {
           const oldImagePath = path.join(
             __dirname,
             "..",
             "public",
-            products[productIndex].image.replace(/^\//, "") // Remove leading slash if present
+            currentProduct.image.replace(/^\//, "") // Remove leading slash if present
           );
           console.log("Checking for old image at:", oldImagePath);
 
@@ -320,13 +293,14 @@ router.post(
         }
 
         // Update product with new image path
-        products[productIndex].image = relativePath;
-        saveProductsToFile(products);
+        const updatedProduct = storage.products.update(productId, {
+          image: relativePath,
+        });
         console.log("Product updated with new image path");
 
         res.json({
           message: "Image uploaded successfully",
-          product: products[productIndex],
+          product: updatedProduct,
         });
       });
     } catch (error) {
@@ -0,0 +1,111 @@
+const express = require("express");
+const router = express.Router();
+const authRoutes = require("./auth");
+const storage = require("../storage");
+const { readPromotion, promotionStatus } = require("../utils/promotions");
+
+// Every promotion route needs the promotions:manage permission
+router.use(
+  authRoutes.authenticateToken,
+  authRoutes.requirePermission("promotions:manage")
+);
+
+const withStatus = (promotion) => ({
+  ...promotion,
+  status: promotionStatus(promotion),
+});
+
+// Check a promotion against the rest of the store: its code must be unused
+// and the products it targets must exist. Returns an error message or null.
+const conflictFor = (promotion) => {
+  const codeOwner = storage.promotions.getByCode(promotion.code);
+  if (codeOwner && codeOwner.id !== promotion.id) {
+    return "Another promotion already uses this coupon code";
+  }
+
+  const unknown = (promotion.productIds || []).find(
+    (id) => !storage.products.getById(id)
+  );
+  if (unknown) {
+    return `Product ${unknown} not found`;
+  }
+
+  return null;
+};
+
+// Get all promotions, newest first
+router.get("/", (req, res) => {
+  const promotions = storage.promotions
+    .list()
+    .map(withStatus)
+    .sort((a, b) => (b.createdAt || "").localeCompare(a.createdAt || ""));
+
+  res.json(promotions);
+});
+
+// Get a single promotion
+router.get("/:id", (req, res) => {
+  const promotion = storage.promotions.getById(req.params.id);
+
+  if (!promotion) {
+    return res.status(404).json({ message: "Promotion not found" });
+  }
+
+  res.json(withStatus(promotion));
+});
+
+// Create a promotion
+router.post("/", (req, res) => {
+  const { promotion, error } = readPromotion(req.body, { active: true });
+  const conflict = promotion && conflictFor(promotion);
+
+  if (error || conflict) {
+    return res.status(400).json({ message: error || conflict });
+  }
+
+  const created = storage.promotions.create(promotion);
+
+  res.status(201).json({
+    message: "Promotion created successfully",
+    promotion: withStatus(created),
+  });
+});
+
+// Change a promotion. Fields left out keep their current values.
+router.put("/:id", (req, res) => {
+  const existing = storage.promotions.getById(req.params.id);
+
+  if (!existing) {
+    return res.status(404).json({ message: "Promotion not found" });
+  }
+
+  const { promotion, error } = readPromotion(req.body, existing);
+  const conflict = promotion && conflictFor(promotion);
+
+  if (error || conflict) {
+    return res.status(400).json({ message: error || conflict });
+  }
+
+  const { id, usageCount, createdAt, ...changes } = promotion;
+  const updated = storage.promotions.update(existing.id, changes);
+
+  res.json({
+    message: "Promotion updated successfully",
+    promotion: withStatus(updated),
+  });
+});
+
+// Delete a promotion. Carts holding its coupon code simply stop getting it.
+router.delete("/:id", (req, res) => {
+  const promotion = storage.promotions.getById(req.params.id);
+
+  if (!promotion) {
+    return res.status(404).json({ message: "Promotion not found" });
+  }
+
+  storage.promotions.remove(promotion.id);
+
+  res.json({ message: "Promotion deleted successfully" });
+});
+
+module.exports = router;
@@ -0,0 +1,199 @@
+const express = require("express");
+const router = express.Router();
+const authRoutes = require("./auth");
+const storage = require("../storage");
+const { hashPassword } = require("../utils/passwords");
+const { ROLES } = require("../utils/permissions");
+
+// Every user management route needs the users:manage permission
+router.use(
+  authRoutes.authenticateToken,
+  authRoutes.requirePermission("users:manage")
+);
+
+// Store managers can onboard staff, but only admins may create, change or
+// remove admin accounts
+const touchesAdmin = (req, ...roles) =>
+  req.user.role !== "admin" && roles.includes("admin");
+
+const ADMIN_ONLY_MESSAGE = "Only admins can manage admin accounts";
+
+// Number of admins that can still sign in, optionally ignoring one user
+const countActiveAdmins = (exceptId) =>
+  storage.users
+    .list()
+    .filter(
+      (user) => user.role === "admin" && !user.disabled && user.id !== exceptId
+    ).length;
+
+// Get all users
+router.get("/", (req, res) => {
+  const users = storage.users
+    .list()
+    .map(authRoutes.toPublicUser)
+    .sort((a, b) => a.username.localeCompare(b.username));
+
+  res.json(users);
+});
+
+// Get a single user
+router.get("/:id", (req, res) => {
+  const user = storage.users.getById(req.params.id);
+
+  if (!user) {
+    return res.status(404).json({ message: "User not found" });
+  }
+
+  res.json(authRoutes.toPublicUser(user));
+});
+
+// Create a user with any role
+router.post("/", (req, res) => {
+  const { username, password, role = "customer" } = req.body;
+
+  if (!ROLES.includes(role)) {
+    return res
+      .status(400)
+      .json({ message: `Role must be one of: ${ROLES.join(", ")}` });
+  }
+
+  if (touchesAdmin(req, role)) {
+    return res.status(403).json({ message: ADMIN_ONLY_MESSAGE });
+  }
+
+  const { user, status, message } = authRoutes.createUser({
+    username,
+    password,
+    role,
+  });
+
+  if (!user) {
+    return res.status(status).json({ message });
+  }
+
+  res.status(201).json({
+    message: "User created successfully",
+    user: authRoutes.toPublicUser(user),
+  });
+});
+
+// Change a user's role or enable/disable the account
+router.put("/:id", (req, res) => {
+  const { role, disabled } = req.body;
+  const user = storage.users.getById(req.params.id);
+
+  if (!user) {
+    return res.status(404).json({ message: "User not found" });
+  }
+
+  if (role !== undefined && !ROLES.includes(role)) {
+    return res
+      .status(400)
+      .json({ message: `Role must be one of: ${ROLES.join(", ")}` });
+  }
+
+  if (disabled !== undefined && typeof disabled !== "boolean") {
+    return res.status(400).json({ message: "disabled must be true or false" });
+  }
+
+  if (touchesAdmin(req, user.role, role)) {
+    return res.status(403).json({ message: ADMIN_ONLY_MESSAGE });
+  }
+
+  const losesAdmin =
+    user.role === "admin" &&
+    ((role !== undefined && role !== "admin") || disabled === true);
+
+  if (losesAdmin && user.id === req.user.id) {
+    return res
+      .status(400)
+      .json({ message: "You cannot demote or disable your own account" });
+  }
+
+  if (losesAdmin && !user.disabled && countActiveAdmins(user.id) === 0) {
+    return res
+      .status(400)
+      .json({ message: "At least one active admin account is required" });
+  }
+
+  const changes = {};
+  if (role !== undefined) changes.role = role;
+  if (disabled !== undefined) changes.disabled = disabled;
+
+  const updatedUser = storage.users.update(user.id, changes);
+  if (changes.disabled) {
+    storage.sessions.revokeByUserId(user.id);
+  }
+
+  res.json({
+    message: "User updated successfully",
+    user: authRoutes.toPublicUser(updatedUser),
+  });
+});
+
+// Set a new password for a user
+router.post("/:id/reset-password", (req, res) => {
+  const { password } = req.body;
+  const user = storage.users.getById(req.params.id);
+
+  if (!user) {
+    return res.status(404).json({ message: "User not found" });
+  }
+
+  if (touchesAdmin(req, user.role)) {
+    return res.status(403).json({ message: ADMIN_ONLY_MESSAGE });
+  }
+
+  const validationError = authRoutes.validateCredentials(
+    user.username,
+    password
+  );
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  storage.users.update(user.id, {
+    passwordHash: hashPassword(password),
+    password: undefined,
+  });
+  // Sign the user out everywhere so the old password stops granting access
+  storage.sessions.revokeByUserId(user.id);
+
+  res.json({ message: "Password reset successfully" });
+});
+
+// Delete a user
+router.delete("/:id", (req, res) => {
+  const user = storage.users.getById(req.params.id);
+
+  if (!user) {
+    return res.status(404).json({ message: "User not found" });
+  }
+
+  if (user.id === req.user.id) {
+    return res
+      .status(400)
+      .json({ message: "You cannot delete your own account" });
+  }
+
+  if (touchesAdmin(req, user.role)) {
+    return res.status(403).json({ message: ADMIN_ONLY_MESSAGE });
+  }
+
+  if (
+    user.role === "admin" &&
+    !user.disabled &&
+    countActiveAdmins(user.id) === 0
+  ) {
+    return res
+      .status(400)
+      .json({ message: "At least one active admin account is required" });
+  }
+
+  storage.users.remove(user.id);
+  storage.sessions.revokeByUserId(user.id);
+
+  res.json({ message: "User deleted successfully" });
+});
+
+module.exports = router;
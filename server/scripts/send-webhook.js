@@ -0,0 +1,106 @@
+const fs = require("fs");
+const path = require("path");
+require("dotenv").config({ path: path.join(__dirname, "..", ".env") });
+const paymentProvider = require("../payments");
+
+// Post a signed sample Razorpay webhook to a local server, so payment
+// finalization, failures and refunds can be tried without Razorpay.
+//
+//   node scripts/send-webhook.js <event> [options]
+//
+// <event> is a fixture in scripts/webhooks: payment.captured, payment.failed
+// or refund.processed. Options fill in the IDs of a real order:
+//
+//   --order <id>     Razorpay order ID (orderId from /payment/create-order)
+//   --payment <id>   Razorpay payment ID
+//   --amount <paise> amount captured, failed or refunded
+//   --refund <id>    Razorpay refund ID
+//   --event-id <id>  X-Razorpay-Event-Id; send the same one twice to see a
+//                    repeat delivery (a new one is made up by default)
+//   --url <url>      where to send it (default the local server's
+//                    /api/payment/webhook on $PORT)
+//
+// The body is signed with the webhook secret of the provider set in
+// server/.env: RAZORPAY_WEBHOOK_SECRET, or MOCK_WEBHOOK_SECRET (which has a
+// default) with PAYMENT_PROVIDER=mock.
+const FIXTURES_DIR = path.join(__dirname, "webhooks");
+
+const readOptions = (args) => {
+  const options = {};
+  for (let i = 0; i < args.length; i += 2) {
+    if (!args[i].startsWith("--") || args[i + 1] === undefined) {
+      throw new Error(`Expected "--name value", got "${args[i]}"`);
+    }
+    options[args[i].slice(2)] = args[i + 1];
+  }
+  return options;
+};
+
+// Copy the options into every entity in the payload
+const buildEvent = (fixture, options) => {
+  const event = JSON.parse(JSON.stringify(fixture));
+  const { payment, refund } = event.payload;
+
+  if (payment) {
+    if (options.order) payment.entity.order_id = options.order;
+    if (options.payment) payment.entity.id = options.payment;
+    if (options.amount) payment.entity.amount = parseInt(options.amount);
+  }
+  if (refund) {
+    if (options.refund) refund.entity.id = options.refund;
+    if (options.payment) refund.entity.payment_id = options.payment;
+    if (options.amount) refund.entity.amount = parseInt(options.amount);
+  }
+
+  event.created_at = Math.floor(Date.now() / 1000);
+  return event;
+};
+
+const sendWebhook = async () => {
+  const [name, ...args] = process.argv.slice(2);
+  const available = fs
+    .readdirSync(FIXTURES_DIR)
+    .map((file) => path.basename(file, ".json"));
+
+  if (!available.includes(name)) {
+    console.error(`Usage: node scripts/send-webhook.js <event> [options]`);
+    console.error(`Events: ${available.join(", ")}`);
+    process.exit(1);
+  }
+
+  if (!paymentProvider.webhookSecret) {
+    console.error("Set RAZORPAY_WEBHOOK_SECRET in server/.env first");
+    process.exit(1);
+  }
+
+  const options = readOptions(args);
+  const fixture = JSON.parse(
+    fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), "utf8")
+  );
+  const body = JSON.stringify(buildEvent(fixture, options));
+  const signature = paymentProvider.signWebhook(body);
+  const url =
+    options.url ||
+    `http://localhost:${process.env.PORT || 5000}/api/payment/webhook`;
+  const eventId = options["event-id"] || `evt_${Date.now()}`;
+
+  console.log(`Sending ${name} (${eventId}) to ${url}`);
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Razorpay-Signature": signature,
+      "X-Razorpay-Event-Id": eventId,
+    },
+    body,
+  });
+
+  console.log(`${response.status} ${response.statusText}`);
+  console.log(await response.text());
+};
+
+sendWebhook().catch((error) => {
+  console.error("Error sending webhook:", error.message);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+const path = require("path");
+const createRepositories = require("./repositories");
+const seed = require("./seed");
+const { hashPassword } = require("../utils/passwords");
+
+// Storage layer used by every route. The backend is picked with STORAGE_DRIVER:
+//   json   - one JSON file per collection in data/ (default)
+//   sqlite - embedded SQLite database at SQLITE_FILE (data/smartcart.db)
+const dataDir = process.env.DATA_DIR || path.join(__dirname, "..", "data");
+const driver = (process.env.STORAGE_DRIVER || "json").toLowerCase();
+
+const createBackend = () => {
+  switch (driver) {
+    case "json":
+      return require("./json")({ dataDir });
+    case "sqlite":
+      return require("./sqlite")({
+        file: process.env.SQLITE_FILE || path.join(dataDir, "smartcart.db"),
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+};
+
+const storage = createRepositories(createBackend());
+
+// Seed products and users the first time the store is used, clear out
+// sessions, idempotency keys and device nonces that expired while the server
+// was down, reset device status and forget old offline scans
+storage.init = () => {
+  storage.transaction(() => {
+    if (storage.products.count() === 0) {
+      seed.products.forEach((product) => storage.products.create(product));
+    }
+    if (storage.users.count() === 0) {
+      seed.users.forEach(({ password, ...user }) =>
+        storage.users.create({ ...user, passwordHash: hashPassword(password) })
+      );
+    }
+    storage.sessions.prune();
+    storage.idempotencyKeys.prune();
+    storage.deviceNonces.prune();
+    storage.devices.markAllOffline();
+    storage.deviceScans.prune();
+  });
+};
+
+storage.dataDir = dataDir;
+
+module.exports = storage;
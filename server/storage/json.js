@@ -0,0 +1,200 @@
+const fs = require("fs");
+const path = require("path");
+
+// How long to wait for another writer before giving up, and how old a lock
+// file must be before it is treated as left behind by a crashed process
+const LOCK_TIMEOUT_MS = 5000;
+const STALE_LOCK_MS = 30000;
+
+// Block the current thread without spinning the CPU
+const sleep = (ms) =>
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+
+// JSON file backend - every collection is stored as an array in data/<name>.json.
+// Writes go to a temp file that is renamed over the original, the previous
+// version is kept as <name>.json.bak, and read-modify-write cycles hold a
+// <name>.json.lock file so concurrent writers (other requests, socket events or
+// other server processes sharing the data directory) cannot lose each other's updates.
+const createJsonBackend = ({ dataDir }) => {
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+
+  const filePath = (name) => path.join(dataDir, `${name}.json`);
+  const backupPath = (name) => `${filePath(name)}.bak`;
+  const lockPath = (name) => `${filePath(name)}.lock`;
+
+  // Locks this process currently holds, so nested mutations don't deadlock
+  const heldLocks = new Set();
+
+  const withLock = (name, fn) => {
+    if (heldLocks.has(name)) {
+      return fn();
+    }
+
+    const lockFile = lockPath(name);
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        fs.writeFileSync(lockFile, String(process.pid), { flag: "wx" });
+        break;
+      } catch (error) {
+        if (error.code !== "EEXIST") throw error;
+      }
+
+      // Break locks left behind by a crashed process
+      try {
+        if (Date.now() - fs.statSync(lockFile).mtimeMs > STALE_LOCK_MS) {
+          console.error(`Removing stale lock ${lockFile}`);
+          fs.unlinkSync(lockFile);
+          continue;
+        }
+      } catch (error) {
+        if (error.code === "ENOENT") continue;
+        throw error;
+      }
+
+      if (Date.now() > deadline) {
+        const error = new Error(`Timed out waiting for lock on ${name}.json`);
+        error.code = "ESTORAGELOCK";
+        throw error;
+      }
+      sleep(10);
+    }
+
+    heldLocks.add(name);
+    try {
+      return fn();
+    } finally {
+      heldLocks.delete(name);
+      try {
+        fs.unlinkSync(lockFile);
+      } catch (error) {
+        if (error.code !== "ENOENT") throw error;
+      }
+    }
+  };
+
+  // Write to a temp file and rename it into place so a crash mid-write never
+  // leaves a truncated file behind
+  const writeAtomic = (target, contents) => {
+    const tempFile = `${target}.${process.pid}.tmp`;
+    const fd = fs.openSync(tempFile, "w");
+    try {
+      fs.writeSync(fd, contents);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempFile, target);
+  };
+
+  const writeFile = (name, records) => {
+    // Keep the current (known good) version as the snapshot to recover from
+    if (fs.existsSync(filePath(name))) {
+      fs.copyFileSync(filePath(name), backupPath(name));
+    }
+    writeAtomic(filePath(name), JSON.stringify(records));
+  };
+
+  // Restore a missing or unreadable file from its last good snapshot
+  const recover = (name, cause) =>
+    withLock(name, () => {
+      // Another writer may have already fixed it while we waited for the lock
+      try {
+        return JSON.parse(fs.readFileSync(filePath(name)));
+      } catch (error) {
+        // fall through to the snapshot
+      }
+
+      if (!fs.existsSync(backupPath(name))) {
+        if (cause.code === "ENOENT") return [];
+        throw cause;
+      }
+
+      const records = JSON.parse(fs.readFileSync(backupPath(name)));
+      writeAtomic(filePath(name), JSON.stringify(records));
+      console.error(
+        `Recovered ${name}.json from last good snapshot (${cause.message})`
+      );
+      return records;
+    });
+
+  const readFile = (name) => {
+    try {
+      return JSON.parse(fs.readFileSync(filePath(name)));
+    } catch (error) {
+      if (error.code === "ENOENT" && !fs.existsSync(backupPath(name))) {
+        return [];
+      }
+      return recover(name, error);
+    }
+  };
+
+  const collection = (name, { key = "id" } = {}) => {
+    // Serialized read-modify-write of a single record. fn receives the current
+    // record (or null) and returns the record to store, null to delete it or
+    // undefined to leave it unchanged.
+    const update = (value, fn) =>
+      withLock(name, () => {
+        const records = readFile(name);
+        const index = records.findIndex((r) => r[key] === value);
+        const current = index !== -1 ? records[index] : null;
+        const next = fn(current);
+
+        if (next === undefined) {
+          return current;
+        }
+        if (next === null) {
+          if (index !== -1) {
+            records.splice(index, 1);
+            writeFile(name, records);
+          }
+          return null;
+        }
+
+        if (index !== -1) {
+          records[index] = next;
+        } else {
+          records.push(next);
+        }
+        writeFile(name, records);
+        return next;
+      });
+
+    return {
+      all: () => readFile(name),
+
+      count: () => readFile(name).length,
+
+      get: (value) =>
+        readFile(name).find((record) => record[key] === value) || null,
+
+      findBy: (field, value) =>
+        readFile(name).filter((record) => record[field] === value),
+
+      put: (record) => update(record[key], () => record),
+
+      update,
+
+      remove: (value) => {
+        let removed = null;
+        update(value, (current) => {
+          removed = current;
+          return current ? null : undefined;
+        });
+        return removed;
+      },
+    };
+  };
+
+  return {
+    driver: "json",
+    collection,
+    // Each put/update/remove rewrites its file immediately, so there is nothing to group
+    transaction: (fn) => fn(),
+  };
+};
+
+module.exports = createJsonBackend;
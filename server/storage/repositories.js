@@ -0,0 +1,542 @@
+// Domain repositories shared by every storage backend. A backend only has to
+// provide collection(name, options) with all/count/get/findBy/put/update/remove
+// and transaction(fn); everything the routes need is built on top of that here.
+// Anything that changes an existing record goes through update() so the read
+// and the write happen under the backend's lock.
+
+const crypto = require("crypto");
+
+// Unique ID for records created at runtime, e.g. "order_<uuid>". Time-based
+// IDs collide when two records are made in the same millisecond.
+const newId = (prefix) => `${prefix}_${crypto.randomUUID()}`;
+
+// Thrown when a new record would replace one that already exists
+const conflictError = (message) => {
+  const error = new Error(message);
+  error.code = "ESTORAGECONFLICT";
+  return error;
+};
+
+// Next numeric string ID, matching the "1", "2", ... IDs used in the seed data.
+// The counter is stored and only ever goes up, so the ID of a deleted record is
+// never handed out again. Records already in the collection (seed data, imports
+// with their own IDs) raise it so a new ID never lands on one of them.
+const createSequence = (backend) => {
+  const counters = backend.collection("sequences", { key: "id" });
+
+  return (name, records) =>
+    counters
+      .update(name, (counter) => ({
+        id: name,
+        value:
+          records.reduce(
+            (max, record) => Math.max(max, parseInt(record.id) || 0),
+            counter ? counter.value : 0
+          ) + 1,
+      }))
+      .value.toString();
+};
+
+const createProductRepository = (backend, nextNumericId) => {
+  const products = backend.collection("products", {
+    key: "id",
+    indexes: ["rfidTag"],
+  });
+
+  return {
+    list: () => products.all(),
+
+    getById: (id) => products.get(id),
+
+    // RFID readers are not consistent about letter case, so fall back to a
+    // case-insensitive match when the exact tag is not found
+    getByRfidTag: (rfidTag) => {
+      if (!rfidTag) return null;
+      const [exact] = products.findBy("rfidTag", rfidTag);
+      if (exact) return exact;
+      return (
+        products
+          .all()
+          .find(
+            (p) => p.rfidTag && p.rfidTag.toLowerCase() === rfidTag.toLowerCase()
+          ) || null
+      );
+    },
+
+    create: (product) =>
+      products.put({
+        ...product,
+        id: product.id || nextNumericId("products", products.all()),
+      }),
+
+    update: (id, changes) =>
+      products.update(id, (existing) =>
+        existing ? { ...existing, ...changes, id } : undefined
+      ),
+
+    // Change stock by delta, never going below zero
+    // Stock of products sold by weight is in kilograms, kept to the gram
+    adjustStock: (id, delta) =>
+      products.update(id, (existing) =>
+        existing
+          ? {
+              ...existing,
+              quantity: Math.max(
+                0,
+                Math.round((existing.quantity + delta) * 1000) / 1000
+              ),
+            }
+          : undefined
+      ),
+
+    remove: (id) => products.remove(id),
+
+    count: () => products.count(),
+  };
+};
+
+const createCartRepository = (backend) => {
+  // Each user has at most one active cart, so carts are keyed by userId
+  const carts = backend.collection("carts", {
+    key: "userId",
+    indexes: ["id", "deviceId"],
+  });
+
+  const withId = (cart) => {
+    if (cart && !cart.id) {
+      cart.id = newId("cart");
+    }
+    return cart;
+  };
+
+  const save = (cart) => carts.put(withId(cart));
+
+  return {
+    list: () => carts.all(),
+
+    getByUserId: (userId) => carts.get(userId),
+
+    getById: (id) => carts.findBy("id", id)[0] || null,
+
+    getByDeviceId: (deviceId) =>
+      deviceId ? carts.findBy("deviceId", deviceId)[0] || null : null,
+
+    // Get user's cart or create an empty one if it doesn't exist
+    getOrCreate: (userId) => {
+      const existing = carts.get(userId);
+      if (existing) {
+        if (!existing.items) existing.items = [];
+        return existing;
+      }
+      return save({ userId, items: [] });
+    },
+
+    save,
+
+    // Atomically change a user's cart. fn receives the current cart (or null)
+    // and returns the cart to store, null to delete it or undefined for no change.
+    update: (userId, fn) =>
+      carts.update(userId, (cart) => {
+        const next = fn(cart);
+        return next ? withId(next) : next;
+      }),
+
+    removeByUserId: (userId) => carts.remove(userId),
+
+    count: () => carts.count(),
+  };
+};
+
+const createUserRepository = (backend, nextNumericId) => {
+  const users = backend.collection("users", {
+    key: "id",
+    indexes: ["username"],
+  });
+
+  return {
+    list: () => users.all(),
+
+    getById: (id) => users.get(id),
+
+    getByUsername: (username) => users.findBy("username", username)[0] || null,
+
+    create: (user) =>
+      users.put({
+        ...user,
+        id: user.id || nextNumericId("users", users.all()),
+      }),
+
+    update: (id, changes) =>
+      users.update(id, (existing) =>
+        existing ? { ...existing, ...changes, id } : undefined
+      ),
+
+    remove: (id) => users.remove(id),
+
+    count: () => users.count(),
+  };
+};
+
+const createOrderRepository = (backend) => {
+  const orders = backend.collection("orders", {
+    key: "orderId",
+    indexes: ["userId"],
+  });
+
+  return {
+    list: () => orders.all(),
+
+    listByUserId: (userId) => orders.findBy("userId", userId),
+
+    getById: (orderId) => orders.get(orderId),
+
+    // Insert a new order, never replacing an existing one
+    create: (order) => {
+      const orderId = order.orderId || newId("order");
+      return orders.update(orderId, (existing) => {
+        if (existing) throw conflictError(`Order ${orderId} already exists`);
+        return { ...order, orderId };
+      });
+    },
+
+    update: (orderId, changes) =>
+      orders.update(orderId, (existing) =>
+        existing ? { ...existing, ...changes, orderId } : undefined
+      ),
+
+    count: () => orders.count(),
+  };
+};
+
+const createPromotionRepository = (backend, nextNumericId) => {
+  // Coupon codes are stored upper case; automatic promotions have no code
+  const promotions = backend.collection("promotions", {
+    key: "id",
+    indexes: ["code"],
+  });
+
+  return {
+    list: () => promotions.all(),
+
+    getById: (id) => promotions.get(id),
+
+    getByCode: (code) =>
+      code ? promotions.findBy("code", code.toUpperCase())[0] || null : null,
+
+    create: (promotion) =>
+      promotions.put({
+        ...promotion,
+        id: promotion.id || nextNumericId("promotions", promotions.all()),
+        usageCount: 0,
+        createdAt: new Date().toISOString(),
+      }),
+
+    update: (id, changes) =>
+      promotions.update(id, (existing) =>
+        existing ? { ...existing, ...changes, id } : undefined
+      ),
+
+    // Count one use of each promotion, e.g. when an order using it is paid
+    redeem: (ids) =>
+      backend.transaction(() =>
+        [...new Set(ids)].forEach((id) =>
+          promotions.update(id, (existing) =>
+            existing
+              ? { ...existing, usageCount: (existing.usageCount || 0) + 1 }
+              : undefined
+          )
+        )
+      ),
+
+    remove: (id) => promotions.remove(id),
+
+    count: () => promotions.count(),
+  };
+};
+
+const createLoyaltyRepository = (backend) => {
+  // Each customer's points balance, keyed by user ID, and every change to it
+  const accounts = backend.collection("loyaltyAccounts", { key: "userId" });
+  const ledger = backend.collection("loyaltyLedger", {
+    key: "id",
+    indexes: ["userId", "orderId"],
+  });
+
+  return {
+    getBalance: (userId) => (accounts.get(userId) || { balance: 0 }).balance,
+
+    listByUserId: (userId) =>
+      ledger
+        .findBy("userId", userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+
+    listByOrderId: (orderId) => ledger.findBy("orderId", orderId),
+
+    // Add an entry and apply its points to the balance. Redemptions may not
+    // take the balance below zero and return null instead; other entries,
+    // such as reversing points already spent, may.
+    post: (entry) =>
+      backend.transaction(() => {
+        let accepted = false;
+
+        accounts.update(entry.userId, (account) => {
+          const balance = (account ? account.balance : 0) + entry.points;
+          if (entry.type === "redeem" && balance < 0) return undefined;
+
+          accepted = true;
+          return { userId: entry.userId, balance };
+        });
+
+        if (!accepted) return null;
+
+        return ledger.put({
+          ...entry,
+          id: crypto.randomUUID(),
+          createdAt: new Date().toISOString(),
+        });
+      }),
+  };
+};
+
+const createSettingsRepository = (backend) => {
+  // Store-wide settings, one record per area, e.g. "loyalty"
+  const settings = backend.collection("settings", { key: "id" });
+
+  return {
+    get: (id) => settings.get(id),
+
+    save: (id, values) => settings.put({ ...values, id }),
+  };
+};
+
+const createSessionRepository = (backend) => {
+  // One record per signed-in device, holding the hash of its current refresh token
+  const sessions = backend.collection("sessions", {
+    key: "id",
+    indexes: ["userId"],
+  });
+
+  return {
+    getById: (id) => sessions.get(id),
+
+    listByUserId: (userId) => sessions.findBy("userId", userId),
+
+    create: (session) => sessions.put(session),
+
+    // Atomically change a session; fn follows the same rules as carts.update
+    update: (id, fn) => sessions.update(id, fn),
+
+    // Revoke every open session of a user, e.g. after a password reset
+    revokeByUserId: (userId) =>
+      backend.transaction(() =>
+        sessions.findBy("userId", userId).forEach((session) =>
+          sessions.update(session.id, (existing) =>
+            existing && !existing.revokedAt
+              ? { ...existing, revokedAt: new Date().toISOString() }
+              : undefined
+          )
+        )
+      ),
+
+    // Delete sessions that can no longer be used
+    prune: () => {
+      const now = new Date().toISOString();
+      sessions
+        .all()
+        .filter((session) => session.revokedAt || session.expiresAt < now)
+        .forEach((session) => sessions.remove(session.id));
+    },
+
+    count: () => sessions.count(),
+  };
+};
+
+const createDeviceRepository = (backend) => {
+  // Physical carts allowed to call the device routes, keyed by device ID
+  const devices = backend.collection("devices", { key: "id" });
+
+  return {
+    list: () => devices.all(),
+
+    getById: (id) => (id ? devices.get(id) : null),
+
+    create: (device) => devices.put(device),
+
+    update: (id, changes) =>
+      devices.update(id, (existing) =>
+        existing ? { ...existing, ...changes, id } : undefined
+      ),
+
+    remove: (id) => devices.remove(id),
+
+    // No socket survives a restart, so nothing can still be online
+    markAllOffline: () =>
+      devices
+        .all()
+        .filter((device) => device.status && device.status !== "offline")
+        .forEach((device) =>
+          devices.update(device.id, (existing) => ({
+            ...existing,
+            status: "offline",
+          }))
+        ),
+
+    count: () => devices.count(),
+  };
+};
+
+const createIdempotencyKeyRepository = (backend) => {
+  // First response to each request sent with an idempotency key, keyed by
+  // "<device or user>:<key>"
+  const keys = backend.collection("idempotencyKeys", { key: "id" });
+
+  return {
+    // Reserve a key for a new request unless it is already in use. Returns the
+    // stored record and whether this call reserved it; expired keys are reused.
+    claim: (id, record) => {
+      let claimed = false;
+      const now = new Date().toISOString();
+
+      const stored = keys.update(id, (existing) => {
+        if (existing && existing.expiresAt > now) return undefined;
+
+        claimed = true;
+        return { ...record, id, createdAt: now };
+      });
+
+      return { record: stored, claimed };
+    },
+
+    complete: (id, response) =>
+      keys.update(id, (existing) =>
+        existing ? { ...existing, response } : undefined
+      ),
+
+    remove: (id) => keys.remove(id),
+
+    // Delete keys past their replay window
+    prune: () => {
+      const now = new Date().toISOString();
+      keys
+        .all()
+        .filter((record) => record.expiresAt < now)
+        .forEach((record) => keys.remove(record.id));
+    },
+
+    count: () => keys.count(),
+  };
+};
+
+const createDeviceNonceRepository = (backend) => {
+  // Nonces of signed device requests, keyed by "<deviceId>:<nonce>", kept
+  // until the request's timestamp falls outside the allowed clock skew
+  const nonces = backend.collection("deviceNonces", { key: "id" });
+
+  return {
+    // Record a nonce unless the device already used it. Returns whether it
+    // was new.
+    claim: (deviceId, nonce, expiresAt) => {
+      let claimed = false;
+      const now = new Date().toISOString();
+
+      nonces.update(`${deviceId}:${nonce}`, (existing) => {
+        if (existing && existing.expiresAt > now) return undefined;
+
+        claimed = true;
+        return { id: `${deviceId}:${nonce}`, deviceId, expiresAt };
+      });
+
+      return claimed;
+    },
+
+    // Delete nonces past their replay window
+    prune: () => {
+      const now = new Date().toISOString();
+      nonces
+        .all()
+        .filter((record) => record.expiresAt < now)
+        .forEach((record) => nonces.remove(record.id));
+    },
+
+    count: () => nonces.count(),
+  };
+};
+
+// Scans from a cart's offline buffer are only kept long enough to recognise a
+// batch that is sent again
+const DEVICE_SCAN_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const createDeviceScanRepository = (backend) => {
+  // One record per applied device scan, keyed by "<deviceId>:<sequence>"
+  const scans = backend.collection("deviceScans", {
+    key: "id",
+    indexes: ["deviceId"],
+  });
+
+  return {
+    // Run apply for a scan unless it was already recorded, and store its
+    // result. Returns the stored scan and whether it had been seen before.
+    record: (deviceId, sequence, apply) => {
+      const id = `${deviceId}:${sequence}`;
+      let duplicate = true;
+
+      const scan = scans.update(id, (existing) => {
+        if (existing) return undefined;
+
+        duplicate = false;
+        return {
+          ...apply(),
+          id,
+          deviceId,
+          sequence,
+          recordedAt: new Date().toISOString(),
+        };
+      });
+
+      return { scan, duplicate };
+    },
+
+    removeByDeviceId: (deviceId) =>
+      scans
+        .findBy("deviceId", deviceId)
+        .forEach((scan) => scans.remove(scan.id)),
+
+    // Delete scans too old to be sent again
+    prune: () => {
+      const cutoff = new Date(
+        Date.now() - DEVICE_SCAN_RETENTION_MS
+      ).toISOString();
+      scans
+        .all()
+        .filter((scan) => scan.recordedAt < cutoff)
+        .forEach((scan) => scans.remove(scan.id));
+    },
+
+    count: () => scans.count(),
+  };
+};
+
+const createRepositories = (backend) => {
+  const nextNumericId = createSequence(backend);
+
+  return {
+    driver: backend.driver,
+    products: createProductRepository(backend, nextNumericId),
+    carts: createCartRepository(backend),
+    users: createUserRepository(backend, nextNumericId),
+    orders: createOrderRepository(backend),
+    promotions: createPromotionRepository(backend, nextNumericId),
+    loyalty: createLoyaltyRepository(backend),
+    settings: createSettingsRepository(backend),
+    sessions: createSessionRepository(backend),
+    devices: createDeviceRepository(backend),
+    deviceScans: createDeviceScanRepository(backend),
+    deviceNonces: createDeviceNonceRepository(backend),
+    idempotencyKeys: createIdempotencyKeyRepository(backend),
+    newId,
+    // Run several mutations as one unit (a real transaction on SQLite)
+    transaction: (fn) => backend.transaction(fn),
+  };
+};
+
+module.exports = createRepositories;
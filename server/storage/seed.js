@@ -0,0 +1,74 @@
+// Initial data written when a collection is empty on first start
+module.exports = {
+  products: [
+    {
+      id: "1",
+      name: "Milk",
+      category: "Dairy",
+      price: 2.99,
+      rfidTag: "A1B2C3D4",
+      quantity: 20,
+      weight: 1000,
+      image: "/images/milk.jpg",
+      hsnCode: "0401",
+      gstRate: 0,
+    },
+    {
+      id: "2",
+      name: "Bread",
+      category: "Bakery",
+      price: 1.99,
+      rfidTag: "E5F6G7H8",
+      quantity: 15,
+      weight: 450,
+      image: "/images/bread.jpg",
+      hsnCode: "1905",
+      gstRate: 0,
+    },
+    {
+      id: "3",
+      name: "Eggs",
+      category: "Dairy",
+      price: 3.49,
+      rfidTag: "I9J0K1L2",
+      quantity: 30,
+      weight: 720,
+      image: "/images/eggs.jpg",
+      hsnCode: "0407",
+      gstRate: 0,
+    },
+    {
+      id: "4",
+      name: "Cheese",
+      category: "Dairy",
+      price: 4.99,
+      rfidTag: "M3N4O5P6",
+      quantity: 10,
+      weight: 250,
+      image: "/images/cheese.jpg",
+      hsnCode: "0406",
+      gstRate: 12,
+    },
+    {
+      id: "5",
+      name: "Apples",
+      category: "Produce",
+      soldBy: "weight",
+      price: 0.99,
+      rfidTag: "Q7R8S9T0",
+      quantity: 50,
+      image: "/images/apples.jpg",
+      hsnCode: "0808",
+      gstRate: 0,
+    },
+  ],
+  users: [
+    { id: "1", username: "admin", password: "admin123", role: "admin" },
+    {
+      id: "2",
+      username: "customer",
+      password: "customer123",
+      role: "customer",
+    },
+  ],
+};
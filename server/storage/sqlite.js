@@ -0,0 +1,126 @@
+const fs = require("fs");
+const path = require("path");
+
+// Embedded SQLite backend - each collection is a table holding the record as a
+// JSON document, keyed by the record's key field and indexed on lookup fields
+const createSqliteBackend = ({ file }) => {
+  // Loaded lazily so the JSON backend works without the native module installed
+  const Database = require("better-sqlite3");
+
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  // Wait for other connections to the same file instead of failing with SQLITE_BUSY
+  db.pragma("busy_timeout = 5000");
+
+  const collection = (name, { key = "id", indexes = [] } = {}) => {
+    const columns = [key, ...indexes];
+
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS "${name}" (${columns
+        .map((column) =>
+          column === key ? `"${column}" TEXT PRIMARY KEY` : `"${column}" TEXT`
+        )
+        .join(", ")}, "data" TEXT NOT NULL)`
+    );
+    indexes.forEach((column) => {
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS "${name}_${column}" ON "${name}" ("${column}")`
+      );
+    });
+
+    const parse = (row) => (row ? JSON.parse(row.data) : null);
+    const toColumn = (value) =>
+      value === undefined || value === null ? null : String(value);
+
+    const statements = {
+      all: db.prepare(`SELECT data FROM "${name}" ORDER BY rowid`),
+      count: db.prepare(`SELECT COUNT(*) AS count FROM "${name}"`),
+      get: db.prepare(`SELECT data FROM "${name}" WHERE "${key}" = ?`),
+      put: db.prepare(
+        `INSERT INTO "${name}" (${columns
+          .map((column) => `"${column}"`)
+          .join(", ")}, "data") VALUES (${columns
+          .map(() => "?")
+          .join(", ")}, ?) ON CONFLICT("${key}") DO UPDATE SET ${[
+          ...indexes,
+          "data",
+        ]
+          .map((column) => `"${column}" = excluded."${column}"`)
+          .join(", ")}`
+      ),
+      remove: db.prepare(`DELETE FROM "${name}" WHERE "${key}" = ?`),
+    };
+
+    const put = (record) => {
+      statements.put.run(
+        ...columns.map((column) => toColumn(record[column])),
+        JSON.stringify(record)
+      );
+      return record;
+    };
+
+    const remove = (value) => {
+      const existing = parse(statements.get.get(toColumn(value)));
+      if (existing) {
+        statements.remove.run(toColumn(value));
+      }
+      return existing;
+    };
+
+    // Read-modify-write of a single record inside a write transaction.
+    // fn returns the record to store, null to delete it or undefined to leave it unchanged.
+    const update = db.transaction((value, fn) => {
+      const current = parse(statements.get.get(toColumn(value)));
+      const next = fn(current);
+      if (next === undefined) return current;
+      if (next === null) {
+        remove(value);
+        return null;
+      }
+      return put(next);
+    });
+
+    return {
+      all: () => statements.all.all().map(parse),
+
+      count: () => statements.count.get().count,
+
+      get: (value) => parse(statements.get.get(toColumn(value))),
+
+      findBy: (field, value) => {
+        // Indexed fields are real columns, anything else is read out of the document
+        if (columns.includes(field)) {
+          return db
+            .prepare(`SELECT data FROM "${name}" WHERE "${field}" = ? ORDER BY rowid`)
+            .all(toColumn(value))
+            .map(parse);
+        }
+        return db
+          .prepare(
+            `SELECT data FROM "${name}" WHERE json_extract(data, '$.${field}') = ? ORDER BY rowid`
+          )
+          .all(typeof value === "boolean" ? Number(value) : value)
+          .map(parse);
+      },
+
+      put,
+
+      update: (value, fn) => update.immediate(value, fn),
+
+      remove,
+    };
+  };
+
+  return {
+    driver: "sqlite",
+    collection,
+    transaction: (fn) => db.transaction(fn).immediate(),
+  };
+};
+
+module.exports = createSqliteBackend;
@@ -0,0 +1,103 @@
+require("./setup");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const storage = require("../storage");
+const {
+  generateDeviceSecret,
+  signDeviceRequest,
+  verifyDeviceSignature,
+} = require("../utils/deviceAuth");
+
+const secret = generateDeviceSecret();
+storage.devices.create({ id: "cart_test", secret });
+storage.devices.create({
+  id: "cart_revoked",
+  secret,
+  revokedAt: "2026-01-01T00:00:00Z",
+});
+
+let nonces = 0;
+
+// A request to scan a tag, signed with the device secret. changes are applied
+// after signing.
+const signedScan = (changes = {}, deviceId = "cart_test") => {
+  nonces += 1;
+  const request = {
+    deviceId,
+    method: "POST",
+    path: "/api/cart/device/rfid-scan",
+    timestamp: String(Math.floor(Date.now() / 1000)),
+    nonce: `nonce-${nonces}-abcdef`,
+    payload: '{"rfidTag":"A1B2C3D4"}',
+  };
+  return {
+    ...request,
+    signature: signDeviceRequest(secret, request),
+    ...changes,
+  };
+};
+
+test("a correctly signed request is accepted", () => {
+  const { device, message } = verifyDeviceSignature(signedScan());
+
+  assert.equal(message, undefined);
+  assert.equal(device.id, "cart_test");
+});
+
+test("a request is only accepted once", () => {
+  const request = signedScan();
+
+  assert.ok(verifyDeviceSignature(request).device);
+  assert.deepEqual(verifyDeviceSignature(request), {
+    status: 401,
+    message: "Device request has already been used",
+  });
+});
+
+test("a signature only covers the body and path it was made for", () => {
+  for (const changes of [
+    { payload: '{"rfidTag":"E5F6G7H8"}' },
+    { path: "/api/cart/clear" },
+    { method: "GET" },
+  ]) {
+    assert.deepEqual(verifyDeviceSignature(signedScan(changes)), {
+      status: 401,
+      message: "Invalid device signature",
+    });
+  }
+});
+
+test("a forged request does not use up its nonce", () => {
+  const request = signedScan();
+
+  verifyDeviceSignature({ ...request, signature: "00".repeat(32) });
+
+  assert.ok(verifyDeviceSignature(request).device);
+});
+
+test("old timestamps and bad nonces are refused", () => {
+  const old = signedScan();
+  old.timestamp = String(Number(old.timestamp) - 3600);
+  old.signature = signDeviceRequest(secret, old);
+
+  assert.equal(
+    verifyDeviceSignature(old).message,
+    "Device timestamp is missing or too old"
+  );
+  assert.equal(
+    verifyDeviceSignature(signedScan({ nonce: "short" })).message,
+    "Device nonce must be 8 to 64 letters, digits, - or _"
+  );
+});
+
+test("unknown and revoked devices are refused", () => {
+  assert.deepEqual(verifyDeviceSignature(signedScan({}, "cart_unknown")), {
+    status: 401,
+    message: "Unknown device",
+  });
+  assert.deepEqual(verifyDeviceSignature(signedScan({}, "cart_revoked")), {
+    status: 403,
+    message: "Device has been revoked",
+  });
+});
@@ -0,0 +1,122 @@
+require("./setup");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { EventEmitter } = require("node:events");
+const { idempotent } = require("../utils/idempotency");
+
+// Just enough of an Express request and response for the middleware
+const request = (key, body, extra = {}) => ({
+  method: "POST",
+  baseUrl: "/api/cart",
+  path: "/add",
+  body,
+  user: { id: "7" },
+  get: (name) => (name === "Idempotency-Key" ? key : undefined),
+  ...extra,
+});
+
+const response = () => {
+  const res = new EventEmitter();
+  res.statusCode = 200;
+  res.headers = {};
+  res.set = (name, value) => {
+    res.headers[name] = value;
+    return res;
+  };
+  res.status = (code) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (body) => {
+    res.body = body;
+    return res;
+  };
+  return res;
+};
+
+// Run a request through the middleware, with handler answering it if the
+// middleware lets it through. Returns the response.
+const send = (req, handler = () => {}) => {
+  const res = response();
+  idempotent(req, res, () => handler(res));
+  return res;
+};
+
+test("a repeated request gets the first response without running again", () => {
+  let runs = 0;
+  const handler = (res) => {
+    runs += 1;
+    res.status(201).json({ run: runs });
+  };
+
+  const first = send(request("k1", { productId: "1" }), handler);
+  const repeat = send(request("k1", { productId: "1" }), handler);
+
+  assert.equal(runs, 1);
+  assert.equal(repeat.statusCode, 201);
+  assert.deepEqual(repeat.body, first.body);
+  assert.equal(repeat.headers["Idempotent-Replayed"], "true");
+});
+
+test("a key cannot be reused for a different request", () => {
+  send(request("k2", { productId: "1" }), (res) => res.json({}));
+
+  const other = send(request("k2", { productId: "2" }));
+
+  assert.equal(other.statusCode, 422);
+});
+
+test("keys are scoped to the caller", () => {
+  let runs = 0;
+  const handler = (res) => {
+    runs += 1;
+    res.json({});
+  };
+
+  send(request("k3", {}), handler);
+  send(request("k3", {}, { user: { id: "8" } }), handler);
+
+  assert.equal(runs, 2);
+});
+
+test("a request still running is not run twice", () => {
+  send(request("k4", {}));
+
+  assert.equal(send(request("k4", {})).statusCode, 409);
+});
+
+test("server errors are not stored, so the request can be retried", () => {
+  let runs = 0;
+  const fails = send(request("k5", {}), (res) => {
+    runs += 1;
+    res.status(500).json({});
+  });
+  fails.emit("close");
+
+  send(request("k5", {}), (res) => {
+    runs += 1;
+    res.json({});
+  });
+
+  assert.equal(runs, 2);
+});
+
+test("device scans use their scanId as the key", () => {
+  let runs = 0;
+  const scan = () =>
+    request(
+      undefined,
+      { rfidTag: "A1B2C3D4", scanId: "scan-1" },
+      { user: undefined, device: { id: "cart_001" } }
+    );
+  const handler = (res) => {
+    runs += 1;
+    res.json({});
+  };
+
+  send(scan(), handler);
+  send(scan(), handler);
+
+  assert.equal(runs, 1);
+});
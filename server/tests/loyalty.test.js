@@ -0,0 +1,96 @@
+require("./setup");
+
+// A rate of 0 in the environment turns earning off rather than falling back
+// to the default
+process.env.LOYALTY_EARN_RATE = "0";
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const storage = require("../storage");
+const {
+  getLoyaltySettings,
+  redemptionFor,
+  settleOrderPoints,
+  clawBackOrderPoints,
+  reverseOrderPoints,
+} = require("../utils/loyalty");
+
+const settings = { earnRate: 1, burnRate: 1, maxRedeemPercent: 50 };
+
+const pointsOf = (orderId) =>
+  storage.loyalty
+    .listByOrderId(orderId)
+    .reduce((sum, entry) => sum + entry.points, 0);
+
+test("an earn rate of 0 from the environment is kept", () => {
+  assert.equal(getLoyaltySettings().earnRate, 0);
+  assert.equal(getLoyaltySettings().maxRedeemPercent, 50);
+});
+
+test("points can pay for at most maxRedeemPercent of an order", () => {
+  storage.loyalty.post({
+    userId: "u1",
+    orderId: "o0",
+    type: "earn",
+    points: 100,
+  });
+
+  assert.deepEqual(redemptionFor("u1", 50, 10000, settings), {
+    points: 50,
+    amountMinor: 5000,
+  });
+  assert.equal(
+    redemptionFor("u1", 51, 10000, settings).error,
+    "Points can pay for at most 50% of an order"
+  );
+  assert.equal(
+    redemptionFor("u1", 101, 100000, settings).error,
+    "You do not have enough points"
+  );
+  assert.equal(
+    redemptionFor("u1", 1.5, 10000, settings).error,
+    "Points to redeem must be a positive whole number"
+  );
+});
+
+test("partial refunds claw back earned points in proportion", () => {
+  storage.settings.save("loyalty", { earnRate: 10 });
+  const order = { orderId: "o1", payment: { amountMinor: 30000 } };
+
+  const settled = settleOrderPoints({
+    userId: "u2",
+    orderId: "o1",
+    redemption: { points: 0, amountMinor: 0 },
+    paidMinor: 30000,
+  });
+  assert.equal(settled.pointsEarned, 30);
+
+  clawBackOrderPoints(order, 10000);
+  assert.equal(pointsOf("o1"), 20);
+
+  // Rounded down, so the customer keeps the part of a point in between
+  clawBackOrderPoints(order, 15000);
+  assert.equal(pointsOf("o1"), 15);
+
+  // Repeating a claw back for the same total changes nothing
+  assert.equal(clawBackOrderPoints(order, 15000), null);
+
+  clawBackOrderPoints(order, 30000);
+  assert.equal(pointsOf("o1"), 0);
+});
+
+test("a full refund after partial ones nets the order's points to zero", () => {
+  const order = { orderId: "o2", payment: { amountMinor: 10000 } };
+  storage.loyalty.post({
+    userId: "u3",
+    orderId: "o2",
+    type: "earn",
+    points: 10,
+  });
+
+  clawBackOrderPoints(order, 5000);
+  reverseOrderPoints("o2", "Order refunded");
+
+  assert.equal(pointsOf("o2"), 0);
+  assert.deepEqual(reverseOrderPoints("o2"), []);
+});
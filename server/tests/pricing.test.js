@@ -0,0 +1,74 @@
+require("./setup");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { toMinor, toMajor, priceCart } = require("../utils/pricing");
+
+const catalogue = (products) =>
+  new Map(products.map((product) => [product.id, product]));
+
+test("toMinor rounds rupees to the nearest paisa", () => {
+  assert.equal(toMinor(2.99), 299);
+  assert.equal(toMinor("1.10"), 110);
+  assert.equal(toMinor(0.1 + 0.2), 30);
+  assert.equal(toMinor(19.999), 2000);
+  assert.equal(toMajor(1299), 12.99);
+});
+
+test("priceCart totals add up from subtotal, discounts and tax", () => {
+  const products = catalogue([
+    { id: "1", name: "Milk", price: 2.99, gstRate: 5 },
+    {
+      id: "2",
+      name: "Shampoo",
+      price: 10,
+      gstRate: 18,
+      priceIncludesTax: false,
+    },
+  ]);
+  const promotions = [
+    { id: "p1", name: "Tenth off", type: "percentage", value: 10 },
+  ];
+
+  const cart = priceCart(
+    {
+      items: [
+        { id: "1", quantity: 3 },
+        { id: "2", quantity: 1 },
+      ],
+    },
+    products,
+    promotions
+  );
+  const { pricing, items } = cart;
+
+  assert.equal(
+    pricing.totalMinor,
+    pricing.subtotalMinor - pricing.discountMinor + pricing.taxMinor
+  );
+  assert.equal(
+    pricing.totalMinor,
+    items.reduce((sum, item) => sum + item.lineTotalMinor, 0)
+  );
+  assert.equal(cart.total, pricing.totalMinor / 100);
+  assert.equal(pricing.supplyType, "intra-state");
+  // 897 less 10% is 807 including 5% GST; 1000 less 10% is 900 plus 18% GST
+  assert.equal(items[0].lineTotalMinor, 807);
+  assert.equal(items[1].lineTotalMinor, 1062);
+});
+
+test("priceCart rounds weighed products to the paisa", () => {
+  const products = catalogue([
+    { id: "1", name: "Rice", price: 123.45, soldBy: "weight", gstRate: 0 },
+  ]);
+
+  const { items, pricing } = priceCart(
+    { items: [{ id: "1", quantity: 0.333 }] },
+    products,
+    []
+  );
+
+  // 12345 paise a kilogram for 333 grams is 4110.885 paise
+  assert.equal(items[0].lineTotalMinor, 4111);
+  assert.equal(pricing.totalMinor, 4111);
+});
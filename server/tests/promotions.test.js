@@ -0,0 +1,116 @@
+require("./setup");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { applyPromotions, promotionsForCart } = require("../utils/promotions");
+
+const line = (id, unitPriceMinor, quantity, extra = {}) => ({
+  id,
+  unitPriceMinor,
+  quantity,
+  amountMinor: unitPriceMinor * quantity,
+  ...extra,
+});
+
+const amounts = (lineDiscounts) =>
+  lineDiscounts.map((discounts) =>
+    discounts.map((discount) => discount.amountMinor)
+  );
+
+test("a flat discount is split in proportion and adds up to the paisa", () => {
+  const lines = [line("1", 1000, 1), line("2", 1000, 1), line("3", 1000, 1)];
+  const flat = { id: "f", name: "Ten off", type: "flat", value: 10 };
+
+  const shares = amounts(applyPromotions(lines, [flat])).map(([a]) => a);
+
+  // 1000 paise over three equal lines: the odd paisa goes to the first
+  assert.deepEqual(shares, [334, 333, 333]);
+});
+
+test("a flat discount never exceeds what the lines cost", () => {
+  const lines = [line("1", 250, 2)];
+  const flat = { id: "f", name: "Fifty off", type: "flat", value: 50 };
+
+  assert.deepEqual(amounts(applyPromotions(lines, [flat])), [[500]]);
+});
+
+test("stacked promotions each apply to what is left of a line", () => {
+  const lines = [line("1", 1000, 2)];
+  const promotions = [
+    { id: "a", name: "Quarter off", type: "percentage", value: 25 },
+    { id: "b", name: "Five off", type: "flat", value: 5 },
+    { id: "c", name: "Half off", type: "percentage", value: 50 },
+  ];
+
+  // 2000 less 25% is 1500, less ₹5 is 1000, less half is 500
+  assert.deepEqual(amounts(applyPromotions(lines, promotions)), [
+    [500, 500, 500],
+  ]);
+});
+
+test("buy x get y discounts whole groups of units only", () => {
+  const lines = [line("1", 300, 5), line("2", 1000, 0.5, { soldBy: "weight" })];
+  const offer = {
+    id: "b",
+    name: "Buy 2 get 1",
+    type: "buy_x_get_y",
+    buyQuantity: 2,
+    getQuantity: 1,
+    value: 100,
+  };
+
+  // Five units make one group of three; weighed products are left out
+  assert.deepEqual(amounts(applyPromotions(lines, [offer])), [[300], []]);
+});
+
+test("promotions only apply to the products and categories they list", () => {
+  const lines = [
+    line("1", 1000, 1, { category: "dairy" }),
+    line("2", 1000, 1, { category: "bakery" }),
+    line("3", 1000, 1),
+  ];
+  const promotion = {
+    id: "p",
+    name: "Dairy and product 3",
+    type: "percentage",
+    value: 10,
+    categories: ["dairy"],
+    productIds: ["3"],
+  };
+
+  assert.deepEqual(amounts(applyPromotions(lines, [promotion])), [
+    [100],
+    [],
+    [100],
+  ]);
+});
+
+test("automatic promotions apply oldest first, then the coupon", () => {
+  const now = new Date("2026-01-15T00:00:00Z");
+  const promotions = [
+    { id: "2", name: "Newer", createdAt: "2026-01-02T00:00:00Z" },
+    { id: "c", name: "Coupon", code: "SAVE10", createdAt: "2025-12-01" },
+    { id: "1", name: "Older", createdAt: "2026-01-01T00:00:00Z" },
+    { id: "x", name: "Over", endsAt: "2026-01-10T00:00:00Z" },
+  ];
+
+  const { applicable, coupon } = promotionsForCart(promotions, "SAVE10", now);
+
+  assert.deepEqual(
+    applicable.map((promotion) => promotion.id),
+    ["1", "2", "c"]
+  );
+  assert.equal(coupon.valid, true);
+});
+
+test("a coupon that cannot be used is reported and left out", () => {
+  const promotions = [
+    { id: "c", name: "Used", code: "ONCE", usageLimit: 1, usageCount: 1 },
+  ];
+
+  const { applicable, coupon } = promotionsForCart(promotions, "ONCE");
+
+  assert.deepEqual(applicable, []);
+  assert.equal(coupon.valid, false);
+  assert.equal(coupon.message, "This coupon has been fully redeemed");
+});
@@ -0,0 +1,150 @@
+require("./setup");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const storage = require("../storage");
+const { collectedMinor } = require("../utils/orders");
+const {
+  refundRedeemedPoints,
+  reverseOrderPoints,
+} = require("../utils/loyalty");
+const { readRefundRequest } = require("../utils/refunds");
+
+// A paid order for three packs costing 1000 paise in all. payment is merged
+// over an online payment of the whole total.
+const paidOrder = (payment = {}, extra = {}) => ({
+  orderId: "order_test",
+  items: [{ id: "1", name: "Biscuits", quantity: 3, lineTotalMinor: 1000 }],
+  pricing: { totalMinor: 1000 },
+  payment: {
+    method: "mock",
+    paymentId: "pay_test",
+    amountMinor: 1000,
+    ...payment,
+  },
+  refunds: [],
+  refundedMinor: 0,
+  ...extra,
+});
+
+// The order after a refund was recorded on it
+const withRefund = (order, refund) => ({
+  ...order,
+  refunds: [...order.refunds, refund],
+  refundedMinor: order.refundedMinor + refund.amountMinor,
+});
+
+test("refunding one unit at a time adds up to what the line cost", () => {
+  let order = paidOrder();
+  const amounts = [];
+
+  for (let i = 0; i < 3; i += 1) {
+    const { refund, error } = readRefundRequest(order, {
+      reason: "Returned",
+      lines: [{ id: "1", quantity: 1 }],
+    });
+    assert.equal(error, undefined);
+    amounts.push(refund.amountMinor);
+    order = withRefund(order, refund);
+  }
+
+  assert.deepEqual(amounts, [333, 334, 333]);
+  assert.equal(order.refundedMinor, 1000);
+});
+
+test("the part of an order paid with points is not given back", () => {
+  const order = paidOrder({ amountMinor: 600 });
+
+  const { refund } = readRefundRequest(order, { reason: "Returned" });
+
+  assert.equal(refund.lines[0].amountMinor, 1000);
+  assert.equal(refund.amountMinor, 600);
+});
+
+test("partial refunds give back their share of the points spent", () => {
+  const order = paidOrder({ amountMinor: 600 });
+  storage.loyalty.post({
+    userId: "u1",
+    orderId: order.orderId,
+    type: "earn",
+    points: 10,
+  });
+  storage.loyalty.post({
+    userId: "u1",
+    orderId: order.orderId,
+    type: "redeem",
+    points: -10,
+    amountMinor: 400,
+  });
+
+  // One pack of three comes back, then a second
+  assert.equal(refundRedeemedPoints(order, 333).points, 3);
+  assert.equal(refundRedeemedPoints(order, 667).points, 4);
+  // Repeating a refund for the same total changes nothing
+  assert.equal(refundRedeemedPoints(order, 667), null);
+
+  // Reversing the order after a full refund returns the rest
+  reverseOrderPoints(order.orderId, "Order refunded");
+  assert.equal(storage.loyalty.getBalance("u1"), 0);
+});
+
+test("a partial refund gets its share of the money paid", () => {
+  const order = paidOrder({ amountMinor: 600 });
+
+  const { refund } = readRefundRequest(order, {
+    reason: "Returned",
+    lines: [{ id: "1", quantity: 2 }],
+  });
+
+  // Two packs cost 667 of the 1000, and 60% of that was paid in money
+  assert.equal(refund.lines[0].amountMinor, 667);
+  assert.equal(refund.amountMinor, 400);
+});
+
+test("counter orders give back the tenders less the change", () => {
+  const order = paidOrder({
+    method: "counter",
+    paymentId: undefined,
+    amountMinor: 1000,
+    tenderedMinor: 2000,
+    changeMinor: 1000,
+  });
+
+  assert.equal(collectedMinor(order), 1000);
+  assert.equal(
+    readRefundRequest(order, { reason: "Returned" }).refund.amountMinor,
+    1000
+  );
+});
+
+test("orders placed without a payment collected nothing", () => {
+  const order = paidOrder({ method: "direct", paymentId: undefined });
+
+  assert.equal(collectedMinor(order), 0);
+  assert.equal(
+    readRefundRequest(order, { reason: "Returned" }).refund.amountMinor,
+    0
+  );
+});
+
+test("more than is left of a line cannot be returned", () => {
+  const order = withRefund(paidOrder(), {
+    lines: [{ id: "1", quantity: 2 }],
+    amountMinor: 667,
+  });
+
+  assert.equal(
+    readRefundRequest(order, {
+      reason: "Returned",
+      lines: [{ id: "1", quantity: 2 }],
+    }).error,
+    "Only 1 of Biscuits can still be returned"
+  );
+});
+
+test("a refund needs a reason", () => {
+  assert.equal(
+    readRefundRequest(paidOrder(), { reason: "  " }).error,
+    "A reason for the refund is required"
+  );
+});
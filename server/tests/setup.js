@@ -0,0 +1,17 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+// Unit tests run against a throwaway data directory, the mock payment gateway
+// and a store in Karnataka (state code 29). Require this before any module
+// that loads storage or the payment provider.
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "smartcart-test-"));
+
+process.env.DATA_DIR = dataDir;
+process.env.STORAGE_DRIVER = "json";
+process.env.PAYMENT_PROVIDER = "mock";
+process.env.STORE_STATE_CODE = "29";
+
+process.on("exit", () => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
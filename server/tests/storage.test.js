@@ -0,0 +1,117 @@
+require("./setup");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const path = require("path");
+const createJsonBackend = require("../storage/json");
+const createSqliteBackend = require("../storage/sqlite");
+const createRepositories = require("../storage/repositories");
+
+// Each backend gets its own directory inside the test data directory
+let stores = 0;
+const storeDir = () => {
+  stores += 1;
+  return path.join(process.env.DATA_DIR, `store-${stores}`);
+};
+
+const backends = {
+  json: (dir) => createJsonBackend({ dataDir: dir }),
+  sqlite: (dir) => createSqliteBackend({ file: path.join(dir, "test.db") }),
+};
+
+for (const [driver, open] of Object.entries(backends)) {
+  test(`${driver}: records can be stored, found, changed and removed`, () => {
+    const items = open(storeDir()).collection("items", {
+      indexes: ["owner"],
+    });
+
+    items.put({ id: "a", owner: "1", count: 1 });
+    items.put({ id: "b", owner: "2", count: 2 });
+
+    assert.deepEqual(items.get("a"), { id: "a", owner: "1", count: 1 });
+    assert.equal(items.get("missing"), null);
+    assert.deepEqual(
+      items.findBy("owner", "2").map((item) => item.id),
+      ["b"]
+    );
+    assert.equal(items.count(), 2);
+
+    items.update("a", (item) => ({ ...item, count: item.count + 1 }));
+    assert.equal(items.get("a").count, 2);
+
+    // undefined leaves a record alone and null deletes it
+    assert.equal(items.update("b", () => undefined).count, 2);
+    assert.equal(
+      items.update("b", () => null),
+      null
+    );
+    assert.deepEqual(items.remove("a"), { id: "a", owner: "1", count: 2 });
+    assert.equal(items.count(), 0);
+  });
+
+  test(`${driver}: records are still there when the store is opened again`, () => {
+    const dir = storeDir();
+    open(dir).collection("items").put({ id: "a", name: "Milk" });
+
+    assert.deepEqual(open(dir).collection("items").all(), [
+      { id: "a", name: "Milk" },
+    ]);
+  });
+
+  test(`${driver}: numeric IDs of deleted records are not handed out again`, () => {
+    const dir = storeDir();
+    const storage = createRepositories(open(dir));
+
+    storage.users.create({ username: "first" });
+    const second = storage.users.create({ username: "second" });
+    storage.users.remove(second.id);
+
+    const reopened = createRepositories(open(dir));
+    assert.equal(reopened.users.create({ username: "third" }).id, "3");
+  });
+}
+
+test("sqlite: a failed transaction leaves nothing behind", () => {
+  const backend = backends.sqlite(storeDir());
+  const items = backend.collection("items");
+
+  assert.throws(() =>
+    backend.transaction(() => {
+      items.put({ id: "a" });
+      throw new Error("failed");
+    })
+  );
+  assert.equal(items.count(), 0);
+});
+
+test("json: a damaged file is recovered from its last good snapshot", () => {
+  const dir = storeDir();
+  const items = backends.json(dir).collection("items");
+  items.put({ id: "a" });
+  items.put({ id: "b" });
+
+  fs.writeFileSync(path.join(dir, "items.json"), '[{"id":');
+
+  // The snapshot is the version before the last write
+  assert.deepEqual(items.all(), [{ id: "a" }]);
+  assert.deepEqual(JSON.parse(fs.readFileSync(path.join(dir, "items.json"))), [
+    { id: "a" },
+  ]);
+});
+
+test("json: a lock left behind by a crashed process is broken", () => {
+  const dir = storeDir();
+  const items = backends.json(dir).collection("items");
+  items.put({ id: "a" });
+
+  const lockFile = path.join(dir, "items.json.lock");
+  fs.writeFileSync(lockFile, "0");
+  const old = new Date(Date.now() - 60 * 1000);
+  fs.utimesSync(lockFile, old, old);
+
+  items.put({ id: "b" });
+
+  assert.equal(items.count(), 2);
+  assert.equal(fs.existsSync(lockFile), false);
+});
@@ -0,0 +1,101 @@
+require("./setup");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { priceCart } = require("../utils/pricing");
+const { taxLine, summarizeTaxes } = require("../utils/tax");
+
+const inclusive = (gstRate) => ({ gstRate, priceIncludesTax: true });
+const exclusive = (gstRate) => ({ gstRate, priceIncludesTax: false });
+
+const catalogue = (products) =>
+  new Map(products.map((product) => [product.id, product]));
+
+test("taxLine takes GST out of a tax-inclusive price", () => {
+  assert.deepEqual(taxLine(11800, inclusive(18), false), {
+    taxableMinor: 10000,
+    cgstMinor: 900,
+    sgstMinor: 900,
+    igstMinor: 0,
+    taxMinor: 1800,
+  });
+});
+
+test("taxLine adds GST to a tax-exclusive price", () => {
+  const tax = taxLine(10000, exclusive(12), false);
+
+  assert.equal(tax.taxableMinor, 10000);
+  assert.equal(tax.taxMinor, 1200);
+  assert.equal(tax.cgstMinor + tax.sgstMinor, 1200);
+});
+
+test("taxLine gives CGST the odd paisa and SGST the rest", () => {
+  const tax = taxLine(105, inclusive(5), false);
+
+  assert.equal(tax.taxableMinor, 100);
+  assert.equal(tax.taxMinor, 5);
+  assert.equal(tax.cgstMinor, 3);
+  assert.equal(tax.sgstMinor, 2);
+});
+
+test("taxLine charges IGST alone on inter-state sales", () => {
+  assert.deepEqual(taxLine(11800, inclusive(18), true), {
+    taxableMinor: 10000,
+    cgstMinor: 0,
+    sgstMinor: 0,
+    igstMinor: 1800,
+    taxMinor: 1800,
+  });
+});
+
+test("taxLine charges nothing on exempt goods", () => {
+  const tax = taxLine(4999, inclusive(0), false);
+
+  assert.equal(tax.taxableMinor, 4999);
+  assert.equal(tax.taxMinor, 0);
+});
+
+test("summarizeTaxes labels half rates for CGST and SGST", () => {
+  const lines = [
+    { hsnCode: "0401", gstRate: 5, ...taxLine(10500, inclusive(5), false) },
+    { hsnCode: "1905", gstRate: 18, ...taxLine(11800, inclusive(18), false) },
+    { hsnCode: "0401", gstRate: 5, ...taxLine(2100, inclusive(5), false) },
+  ];
+
+  const { taxSummary, taxes } = summarizeTaxes(lines, false);
+
+  assert.equal(taxSummary.length, 2);
+  assert.equal(taxSummary[0].taxableMinor, 12000);
+  assert.deepEqual(taxes, [
+    { label: "CGST 2.5%", amountMinor: 300 },
+    { label: "SGST 2.5%", amountMinor: 300 },
+    { label: "CGST 9%", amountMinor: 900 },
+    { label: "SGST 9%", amountMinor: 900 },
+  ]);
+});
+
+test("summarizeTaxes shows one IGST row per rate on inter-state sales", () => {
+  const lines = [
+    { hsnCode: "1905", gstRate: 18, ...taxLine(11800, inclusive(18), true) },
+  ];
+
+  assert.deepEqual(summarizeTaxes(lines, true).taxes, [
+    { label: "IGST 18%", amountMinor: 1800 },
+  ]);
+});
+
+test("priceCart charges IGST when the place of supply is another state", () => {
+  const products = catalogue([
+    { id: "1", name: "Shampoo", price: 118, gstRate: 18 },
+  ]);
+
+  const { pricing } = priceCart(
+    { placeOfSupply: "27", items: [{ id: "1", quantity: 1 }] },
+    products,
+    []
+  );
+
+  assert.equal(pricing.supplyType, "inter-state");
+  assert.equal(pricing.totalMinor, 11800);
+  assert.deepEqual(pricing.taxes, [{ label: "IGST 18%", amountMinor: 1800 }]);
+});
@@ -0,0 +1,63 @@
+require("./setup");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { readTenders } = require("../utils/tenders");
+
+test("change is what the tenders cover beyond the amount due", () => {
+  const result = readTenders(
+    [
+      { method: "upi", amountMinor: 300, reference: " UPI123 " },
+      { method: "card", amountMinor: 200 },
+      { method: "cash", amountMinor: 1000 },
+    ],
+    697
+  );
+
+  assert.equal(result.tenderedMinor, 1500);
+  assert.equal(result.changeMinor, 803);
+  assert.equal(result.tenders[0].reference, "UPI123");
+});
+
+test("exact payment gives no change", () => {
+  const result = readTenders([{ method: "card", amountMinor: 697 }], 697);
+
+  assert.equal(result.error, undefined);
+  assert.equal(result.changeMinor, 0);
+});
+
+test("tenders must cover the amount due", () => {
+  assert.equal(
+    readTenders([{ method: "cash", amountMinor: 696 }], 697).error,
+    "The tenders cover ₹6.96 of ₹6.97 due"
+  );
+});
+
+test("change only comes out of cash", () => {
+  assert.equal(
+    readTenders(
+      [
+        { method: "card", amountMinor: 800 },
+        { method: "cash", amountMinor: 100 },
+      ],
+      697
+    ).error,
+    "Card and UPI cannot be more than the amount due"
+  );
+});
+
+test("tender amounts must be whole paise", () => {
+  for (const amountMinor of [1.5, 0, -100, "100"]) {
+    assert.equal(
+      readTenders([{ method: "cash", amountMinor }], 100).error,
+      "Tender amounts must be whole numbers of paise above 0"
+    );
+  }
+});
+
+test("unknown tender methods are refused", () => {
+  assert.match(
+    readTenders([{ method: "cheque", amountMinor: 100 }], 100).error,
+    /^Tender method must be one of/
+  );
+});
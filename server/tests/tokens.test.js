@@ -0,0 +1,81 @@
+require("./setup");
+
+process.env.JWT_SECRET = "test-secret";
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const storage = require("../storage");
+const {
+  createSession,
+  rotateSession,
+  revokeSession,
+  isSessionActive,
+  verifyAccessToken,
+  parseRefreshToken,
+} = require("../utils/tokens");
+
+const user = storage.users.create({ username: "shopper", role: "customer" });
+
+test("a refresh token is exchanged for a new pair on the same session", () => {
+  const first = createSession(user);
+  const { sessionId } = parseRefreshToken(first.refreshToken);
+
+  const second = rotateSession(first.refreshToken);
+
+  assert.equal(second.message, undefined);
+  assert.notEqual(second.refreshToken, first.refreshToken);
+  assert.equal(parseRefreshToken(second.refreshToken).sessionId, sessionId);
+  assert.equal(verifyAccessToken(second.token).sid, sessionId);
+  assert.equal(second.user.id, user.id);
+});
+
+test("reusing a rotated refresh token revokes the whole session", () => {
+  const first = createSession(user);
+  const { sessionId } = parseRefreshToken(first.refreshToken);
+  const second = rotateSession(first.refreshToken);
+
+  assert.deepEqual(rotateSession(first.refreshToken), {
+    message: "Refresh token has already been used",
+  });
+  assert.equal(isSessionActive(sessionId), false);
+  // The newer token was issued to the same session, so it stops working too
+  assert.deepEqual(rotateSession(second.refreshToken), {
+    message: "Session is no longer valid, please log in again",
+  });
+});
+
+test("a revoked session cannot be refreshed", () => {
+  const { refreshToken } = createSession(user);
+  const { sessionId } = parseRefreshToken(refreshToken);
+
+  revokeSession(sessionId);
+
+  assert.equal(isSessionActive(sessionId), false);
+  assert.equal(
+    rotateSession(refreshToken).message,
+    "Session is no longer valid, please log in again"
+  );
+});
+
+test("malformed refresh tokens are refused", () => {
+  for (const refreshToken of [undefined, 42, "", "no-dot"]) {
+    assert.deepEqual(rotateSession(refreshToken), {
+      message: "Invalid refresh token",
+    });
+  }
+});
+
+test("a disabled account cannot refresh its session", () => {
+  const disabled = storage.users.create({ username: "gone", role: "customer" });
+  const { refreshToken } = createSession(disabled);
+  storage.users.update(disabled.id, { disabled: true });
+
+  assert.equal(
+    rotateSession(refreshToken).message,
+    "Account is disabled or no longer exists"
+  );
+  assert.equal(
+    isSessionActive(parseRefreshToken(refreshToken).sessionId),
+    false
+  );
+});
@@ -0,0 +1,119 @@
+require("./setup");
+
+process.env.JWT_SECRET = "test-secret";
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const express = require("express");
+const storage = require("../storage");
+const paymentProvider = require("../payments");
+const paymentRoutes = require("../routes/payment");
+
+// The payment routes behind the same body parser as index.js, on a free port
+const app = express();
+app.use(
+  express.json({
+    verify: (req, res, buf) => {
+      req.rawBody = buf.toString("utf8");
+    },
+  })
+);
+app.io = { emit: () => {} };
+app.use("/api/payment", paymentRoutes);
+
+let server;
+let baseUrl;
+
+test.before(async () => {
+  server = await new Promise((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}/api/payment/webhook`;
+});
+
+test.after(() => server.close());
+
+const order = storage.orders.create({
+  userId: "2",
+  status: "paid",
+  items: [{ id: "1", name: "Milk", quantity: 2, lineTotalMinor: 1000 }],
+  pricing: { totalMinor: 1000 },
+  payment: { method: "mock", paymentId: "pay_webhook", amountMinor: 1000 },
+  statusHistory: [{ status: "paid", at: "2026-01-01T00:00:00Z" }],
+});
+
+const refundEvent = (refundId, amountMinor) =>
+  JSON.stringify({
+    event: "refund.processed",
+    payload: {
+      refund: {
+        entity: {
+          id: refundId,
+          payment_id: "pay_webhook",
+          amount: amountMinor,
+        },
+      },
+    },
+  });
+
+// Deliver a webhook body, signed unless a signature is given
+const deliver = async (body, { eventId, signature } = {}) => {
+  const response = await fetch(baseUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Razorpay-Signature": signature || paymentProvider.signWebhook(body),
+      ...(eventId && { "X-Razorpay-Event-Id": eventId }),
+    },
+    body,
+  });
+  return {
+    status: response.status,
+    replayed: response.headers.get("Idempotent-Replayed") === "true",
+    body: await response.json(),
+  };
+};
+
+test("a webhook with a bad signature is refused", async () => {
+  const body = refundEvent("rfnd_forged", 1000);
+
+  const { status, body: result } = await deliver(body, {
+    signature: paymentProvider.signWebhook(body + " "),
+  });
+
+  assert.equal(status, 400);
+  assert.equal(result.message, "Invalid webhook signature");
+  assert.deepEqual(storage.orders.getById(order.orderId).refunds, undefined);
+});
+
+test("an event delivered again is handled once", async () => {
+  const body = refundEvent("rfnd_1", 400);
+
+  const first = await deliver(body, { eventId: "evt_1" });
+  const again = await deliver(body, { eventId: "evt_1" });
+
+  assert.equal(first.body.status, "processed");
+  assert.equal(first.body.orderStatus, "partially_refunded");
+  assert.equal(again.replayed, true);
+  assert.deepEqual(again.body, first.body);
+  assert.equal(storage.orders.getById(order.orderId).refundedMinor, 400);
+});
+
+test("the same refund sent as a new event is not counted twice", async () => {
+  const { body } = await deliver(refundEvent("rfnd_1", 400), {
+    eventId: "evt_2",
+  });
+
+  assert.equal(body.status, "duplicate");
+  assert.equal(storage.orders.getById(order.orderId).refunds.length, 1);
+});
+
+test("events without an ID are recognised by their body", async () => {
+  const body = refundEvent("rfnd_2", 100);
+
+  await deliver(body);
+  const again = await deliver(body);
+
+  assert.equal(again.replayed, true);
+  assert.equal(storage.orders.getById(order.orderId).refundedMinor, 500);
+});
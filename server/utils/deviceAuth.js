@@ -0,0 +1,113 @@
+const crypto = require("crypto");
+const storage = require("../storage");
+
+// Carts sign every request with their device secret:
+//   signature = hex(HMAC-SHA256(secret,
+//     "<METHOD>\n<path>\n<timestamp>\n<nonce>\n<payload>"))
+// where path is the request path with its query string, timestamp is Unix
+// time in seconds, nonce is a random value used only once and payload is the
+// raw request body (empty for GET). Binding the method and path stops a
+// signature captured from one endpoint being sent to another. Requests
+// outside the allowed clock skew are rejected, and a nonce is only accepted
+// once per device, so a captured request cannot be replayed.
+const MAX_CLOCK_SKEW_SECONDS =
+  parseInt(process.env.DEVICE_CLOCK_SKEW_SECONDS) || 300;
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+const generateDeviceSecret = () => crypto.randomBytes(32).toString("hex");
+
+const signDeviceRequest = (
+  secret,
+  { method, path, timestamp, nonce, payload = "" }
+) =>
+  crypto
+    .createHmac("sha256", secret)
+    .update(
+      [String(method).toUpperCase(), path, timestamp, nonce, payload].join(
+        "\n"
+      )
+    )
+    .digest("hex");
+
+// Look up an active device, returning { device } or { status, message }
+const findActiveDevice = (deviceId) => {
+  const device = storage.devices.getById(deviceId);
+
+  if (!device) {
+    return { status: 401, message: "Unknown device" };
+  }
+  if (device.revokedAt) {
+    return { status: 403, message: "Device has been revoked" };
+  }
+  return { device };
+};
+
+// Check a signed device request, returning { device } or { status, message }.
+// The nonce is only used up once the signature has been checked, so forged
+// requests cannot burn a device's nonces.
+const verifyDeviceSignature = ({
+  deviceId,
+  method,
+  path,
+  timestamp,
+  nonce,
+  signature,
+  payload,
+}) => {
+  if (!deviceId || !timestamp || !signature) {
+    return { status: 401, message: "Device signature required" };
+  }
+  if (typeof nonce !== "string" || !NONCE_PATTERN.test(nonce)) {
+    return {
+      status: 401,
+      message: "Device nonce must be 8 to 64 letters, digits, - or _",
+    };
+  }
+
+  const seconds = parseInt(timestamp);
+  const now = Math.floor(Date.now() / 1000);
+  if (!seconds || Math.abs(now - seconds) > MAX_CLOCK_SKEW_SECONDS) {
+    return { status: 401, message: "Device timestamp is missing or too old" };
+  }
+
+  const { device, status, message } = findActiveDevice(deviceId);
+  if (!device) {
+    return { status, message };
+  }
+
+  const expected = Buffer.from(
+    signDeviceRequest(device.secret, {
+      method,
+      path,
+      timestamp,
+      nonce,
+      payload,
+    }),
+    "hex"
+  );
+  const actual = Buffer.from(String(signature), "hex");
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return { status: 401, message: "Invalid device signature" };
+  }
+
+  // Keep the nonce until its timestamp could no longer be accepted
+  const expiresAt = new Date(
+    (seconds + MAX_CLOCK_SKEW_SECONDS) * 1000
+  ).toISOString();
+  if (!storage.deviceNonces.claim(device.id, nonce, expiresAt)) {
+    return { status: 401, message: "Device request has already been used" };
+  }
+
+  return { device };
+};
+
+module.exports = {
+  generateDeviceSecret,
+  signDeviceRequest,
+  findActiveDevice,
+  verifyDeviceSignature,
+};
@@ -0,0 +1,110 @@
+const storage = require("../storage");
+
+// Carts send a heartbeat every 30 seconds. One that has not been heard from
+// for DEVICE_STALE_SECONDS is marked stale, and the last
+// DEVICE_TELEMETRY_HISTORY readings are kept on each device.
+const STALE_SECONDS = parseInt(process.env.DEVICE_STALE_SECONDS) || 90;
+const HISTORY_LIMIT = parseInt(process.env.DEVICE_TELEMETRY_HISTORY) || 100;
+
+// Numeric readings accepted in a heartbeat: uptime in seconds, Wi-Fi RSSI in
+// dBm, battery voltage in volts and free heap in bytes
+const TELEMETRY_FIELDS = ["uptime", "rssi", "batteryVoltage", "freeHeap"];
+
+// Fields of a device that are safe to send to clients. The assigned user is
+// whoever's cart the device is currently connected to.
+const toPublicDevice = ({
+  secret,
+  telemetryHistory,
+  pairingCodeHash,
+  pairingCodeExpiresAt,
+  pairingAttempts,
+  ...device
+}) => {
+  const cart = storage.carts.getByDeviceId(device.id);
+  const user = cart ? storage.users.getById(cart.userId) : null;
+
+  return {
+    ...device,
+    status: device.revokedAt ? "revoked" : device.status || "offline",
+    lastSeenAt: device.lastSeenAt || null,
+    assignedUser: user ? { id: user.id, username: user.username } : null,
+  };
+};
+
+// Tell dashboards that something about a device changed
+const emitDeviceStatus = (io, deviceId) => {
+  const device = storage.devices.getById(deviceId);
+
+  if (device && io) {
+    io.emit("device_status", { device: toPublicDevice(device) });
+  }
+};
+
+// Record that a device was heard from, optionally changing other fields such
+// as its online status
+const markDeviceSeen = (io, deviceId, changes = {}) => {
+  const device = storage.devices.update(deviceId, {
+    ...changes,
+    lastSeenAt: new Date().toISOString(),
+  });
+
+  emitDeviceStatus(io, deviceId);
+  return device;
+};
+
+// Store a heartbeat reading, keeping a rolling history, and mark the device online
+const recordHeartbeat = (io, deviceId, data = {}) => {
+  const device = storage.devices.getById(deviceId);
+  if (!device) {
+    return null;
+  }
+
+  const reading = { at: new Date().toISOString() };
+  TELEMETRY_FIELDS.forEach((name) => {
+    const value = Number(data[name]);
+    if (data[name] !== undefined && data[name] !== null && isFinite(value)) {
+      reading[name] = value;
+    }
+  });
+
+  return markDeviceSeen(io, deviceId, {
+    status: "online",
+    telemetry: reading,
+    telemetryHistory: [...(device.telemetryHistory || []), reading].slice(
+      -HISTORY_LIMIT
+    ),
+    ...(typeof data.firmwareVersion === "string" &&
+      data.firmwareVersion && { firmwareVersion: data.firmwareVersion }),
+  });
+};
+
+// Mark online devices that have gone quiet as stale. This also covers carts
+// that only talk HTTP, which never trigger a socket disconnect.
+const markStaleDevices = (io) => {
+  const cutoff = Date.now() - STALE_SECONDS * 1000;
+
+  storage.devices
+    .list()
+    .filter(
+      (device) =>
+        device.status === "online" &&
+        !device.revokedAt &&
+        new Date(device.lastSeenAt).getTime() < cutoff
+    )
+    .forEach((device) => {
+      storage.devices.update(device.id, { status: "stale" });
+      emitDeviceStatus(io, device.id);
+      io.emit("cart_disconnected", {
+        deviceId: device.id,
+        message: "Physical cart stopped responding",
+      });
+    });
+};
+
+module.exports = {
+  toPublicDevice,
+  emitDeviceStatus,
+  markDeviceSeen,
+  recordHeartbeat,
+  markStaleDevices,
+};
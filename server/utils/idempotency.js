@@ -0,0 +1,95 @@
+const crypto = require("crypto");
+const storage = require("../storage");
+
+// Clients retry requests whose response they never saw, such as scans sent
+// while the server is cold-starting. A request carrying an Idempotency-Key
+// header (or, from a device, a scanId in the body) is run once; repeats with
+// the same key within IDEMPOTENCY_KEY_TTL_SECONDS get the stored response.
+const IDEMPOTENCY_KEY_TTL_SECONDS =
+  parseInt(process.env.IDEMPOTENCY_KEY_TTL_SECONDS) || 24 * 60 * 60;
+const MAX_KEY_LENGTH = 255;
+
+const fingerprint = (req) =>
+  crypto
+    .createHash("sha256")
+    .update(
+      `${req.method} ${req.baseUrl}${req.path} ${JSON.stringify(req.body || {})}`
+    )
+    .digest("hex");
+
+// Middleware for routes that change a cart. Must run after authentication so
+// keys are scoped to the calling device or user.
+const idempotent = (req, res, next) => {
+  const key =
+    req.get("Idempotency-Key") ||
+    (req.device && req.body && req.body.scanId
+      ? String(req.body.scanId)
+      : null);
+
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      message: `Idempotency key must be at most ${MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  const scope = req.device
+    ? `device:${req.device.id}`
+    : `user:${req.user ? req.user.id : "anonymous"}`;
+  const id = `${scope}:${key}`;
+  const requestHash = fingerprint(req);
+
+  const { record, claimed } = storage.idempotencyKeys.claim(id, {
+    requestHash,
+    expiresAt: new Date(
+      Date.now() + IDEMPOTENCY_KEY_TTL_SECONDS * 1000
+    ).toISOString(),
+  });
+
+  if (!claimed) {
+    if (record.requestHash !== requestHash) {
+      return res.status(422).json({
+        success: false,
+        message: "Idempotency key was already used for a different request",
+      });
+    }
+
+    if (!record.response) {
+      return res.status(409).json({
+        success: false,
+        message: "A request with this idempotency key is still being processed",
+      });
+    }
+
+    console.log(`Replaying stored response for idempotency key ${id}`);
+    res.set("Idempotent-Replayed", "true");
+    return res.status(record.response.status).json(record.response.body);
+  }
+
+  // Store the first response once it is sent. Server errors are not stored so
+  // the request can be retried with the same key.
+  let stored = false;
+  const json = res.json.bind(res);
+  res.json = (body) => {
+    if (res.statusCode < 500) {
+      storage.idempotencyKeys.complete(id, { status: res.statusCode, body });
+      stored = true;
+    }
+    return json(body);
+  };
+
+  // Release the key if the request ended without a response worth replaying
+  res.on("close", () => {
+    if (!stored) {
+      storage.idempotencyKeys.remove(id);
+    }
+  });
+
+  next();
+};
+
+module.exports = { idempotent };
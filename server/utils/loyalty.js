@@ -0,0 +1,233 @@
+const storage = require("../storage");
+
+// Customers earn points on what they pay and can spend them as part payment
+// on a later order. Points are a tender, not a discount: they do not change
+// the order's price or its GST, only how much is left to pay by other means.
+//
+// - earnRate: points earned per ₹100 paid (0 turns earning off)
+// - burnRate: rupees one point is worth when redeemed (0 turns redeeming off)
+// - maxRedeemPercent: most of an order's total that can be paid with points
+// Setting from the environment, keeping an explicit 0
+const envSetting = (name, fallback) => {
+  const value = parseFloat(process.env[name]);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const DEFAULT_SETTINGS = {
+  earnRate: envSetting("LOYALTY_EARN_RATE", 1),
+  burnRate: envSetting("LOYALTY_BURN_RATE", 1),
+  maxRedeemPercent: envSetting("LOYALTY_MAX_REDEEM_PERCENT", 50),
+};
+
+const SETTING_LIMITS = {
+  earnRate: [0, 100],
+  burnRate: [0, 100],
+  maxRedeemPercent: [0, 100],
+};
+
+const getLoyaltySettings = () => {
+  const { id, ...saved } = storage.settings.get("loyalty") || {};
+  return { ...DEFAULT_SETTINGS, ...saved };
+};
+
+// Check settings sent by staff, returning { settings } merged over the current
+// ones, or { error }
+const readLoyaltySettings = (body) => {
+  const settings = getLoyaltySettings();
+
+  for (const [field, [min, max]] of Object.entries(SETTING_LIMITS)) {
+    if (body[field] === undefined) continue;
+
+    const value = Number(body[field]);
+    if (typeof body[field] === "boolean" || !isFinite(value)) {
+      return { error: `${field} must be a number` };
+    }
+    if (value < min || value > max) {
+      return { error: `${field} must be between ${min} and ${max}` };
+    }
+    settings[field] = value;
+  }
+
+  return { settings };
+};
+
+const pointsEarned = (paidMinor, settings) =>
+  Math.floor((paidMinor * settings.earnRate) / 10000);
+
+// Work out paying part of an order with points. Returns { points, amountMinor }
+// (both 0 when no points are used) or { error }.
+const redemptionFor = (userId, points, totalMinor, settings) => {
+  if (points === undefined || points === null || points === 0) {
+    return { points: 0, amountMinor: 0 };
+  }
+
+  if (!Number.isInteger(points) || points < 0) {
+    return { error: "Points to redeem must be a positive whole number" };
+  }
+  if (settings.burnRate <= 0 || settings.maxRedeemPercent <= 0) {
+    return { error: "Points cannot be redeemed at the moment" };
+  }
+  if (points > storage.loyalty.getBalance(userId)) {
+    return { error: "You do not have enough points" };
+  }
+
+  const amountMinor = Math.round(points * settings.burnRate * 100);
+  const limitMinor = Math.floor(
+    (totalMinor * settings.maxRedeemPercent) / 100
+  );
+  if (amountMinor > limitMinor) {
+    return {
+      error: `Points can pay for at most ${settings.maxRedeemPercent}% of an order`,
+    };
+  }
+
+  return { points, amountMinor };
+};
+
+// Record a paid order in the ledger: take off any points used, then add the
+// points earned on the rest. Returns what changed and the new balance.
+const settleOrderPoints = ({ userId, orderId, redemption, paidMinor }) => {
+  let pointsRedeemed = 0;
+
+  if (redemption.points > 0) {
+    const entry = storage.loyalty.post({
+      userId,
+      orderId,
+      type: "redeem",
+      points: -redemption.points,
+      amountMinor: redemption.amountMinor,
+    });
+
+    if (entry) {
+      pointsRedeemed = redemption.points;
+    } else {
+      // Only possible if the points were spent on another order in between
+      console.error(
+        `Points for order ${orderId} were no longer available to redeem`
+      );
+    }
+  }
+
+  const points = pointsEarned(paidMinor, getLoyaltySettings());
+  if (points > 0) {
+    storage.loyalty.post({ userId, orderId, type: "earn", points });
+  }
+
+  return {
+    pointsRedeemed,
+    redeemedMinor: pointsRedeemed ? redemption.amountMinor : 0,
+    pointsEarned: points,
+    balance: storage.loyalty.getBalance(userId),
+  };
+};
+
+// Undo the points an order earned and give back the points spent on it, e.g.
+// after a refund. Points partial refunds already clawed back or gave back are
+// reversed along with the rest, so nothing moves twice. Entries already
+// reversed are skipped, so this is safe to repeat. Returns the reversal entries
+// added.
+const reverseOrderPoints = (orderId, note) => {
+  const entries = storage.loyalty.listByOrderId(orderId);
+  const reversed = new Set(
+    entries
+      .filter((entry) => entry.type === "reversal")
+      .map((entry) => entry.reverses)
+  );
+
+  return entries
+    .filter((entry) => entry.type !== "reversal" && !reversed.has(entry.id))
+    .map((entry) =>
+      storage.loyalty.post({
+        userId: entry.userId,
+        orderId,
+        type: "reversal",
+        points: -entry.points,
+        reverses: entry.id,
+        ...(note && { note }),
+      })
+    );
+};
+
+// An order's ledger entries of one type that have not been reversed
+const liveEntries = (orderId) => {
+  const entries = storage.loyalty.listByOrderId(orderId);
+  const reversed = new Set(
+    entries
+      .filter((entry) => entry.type === "reversal")
+      .map((entry) => entry.reverses)
+  );
+  return (type) =>
+    entries.filter((entry) => entry.type === type && !reversed.has(entry.id));
+};
+
+const sumPoints = (entries) =>
+  entries.reduce((sum, entry) => sum + entry.points, 0);
+
+// Take back the part of the points an order earned that matches how much of
+// its payment has been refunded, e.g. half the points once half the money is
+// back. Worked out on running totals, so a run of partial refunds ends up
+// taking back every earned point. Returns the entry added, or null.
+const clawBackOrderPoints = (order, refundedMinor, note) => {
+  const paidMinor = order.payment ? order.payment.amountMinor : 0;
+  if (!(paidMinor > 0)) return null;
+
+  const live = liveEntries(order.orderId);
+  const earned = live("earn");
+  if (earned.length === 0) return null;
+
+  const earnedPoints = sumPoints(earned);
+  const takenBack = -sumPoints(live("clawback"));
+  const points =
+    Math.floor(
+      (earnedPoints * Math.min(refundedMinor, paidMinor)) / paidMinor
+    ) - takenBack;
+  if (points <= 0) return null;
+
+  return storage.loyalty.post({
+    userId: earned[0].userId,
+    orderId: order.orderId,
+    type: "clawback",
+    points: -points,
+    ...(note && { note }),
+  });
+};
+
+// Give back the part of the points spent on an order that matches how much of
+// its goods have been returned, rounded to the nearest point. returnedMinor is
+// the value of every line returned so far, so like a claw back a run of
+// partial refunds ends up giving back every point spent. Returns the entry
+// added, or null.
+const refundRedeemedPoints = (order, returnedMinor, note) => {
+  const totalMinor = order.pricing ? order.pricing.totalMinor : 0;
+  if (!(totalMinor > 0)) return null;
+
+  const live = liveEntries(order.orderId);
+  const redeemed = live("redeem");
+  if (redeemed.length === 0) return null;
+
+  const spentPoints = -sumPoints(redeemed);
+  const givenBack = sumPoints(live("refund"));
+  const points =
+    Math.round(
+      (spentPoints * Math.min(returnedMinor, totalMinor)) / totalMinor
+    ) - givenBack;
+  if (points <= 0) return null;
+
+  return storage.loyalty.post({
+    userId: redeemed[0].userId,
+    orderId: order.orderId,
+    type: "refund",
+    points,
+    ...(note && { note }),
+  });
+};
+
+module.exports = {
+  getLoyaltySettings,
+  readLoyaltySettings,
+  redemptionFor,
+  settleOrderPoints,
+  reverseOrderPoints,
+  clawBackOrderPoints,
+  refundRedeemedPoints,
+};
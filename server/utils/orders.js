@@ -0,0 +1,494 @@
+const storage = require("../storage");
+const { redeemPromotions } = require("./promotions");
+const {
+  settleOrderPoints,
+  reverseOrderPoints,
+  clawBackOrderPoints,
+  refundRedeemedPoints,
+} = require("./loyalty");
+const { roundQuantity } = require("./units");
+
+// Every checkout path records its order here and moves it through the same
+// lifecycle:
+//
+// - pending_payment: an online payment was started; nothing is settled yet
+// - paid: payment collected; stock, points and promotion uses are settled
+// - exit_verified: staff checked the shopper out of the store
+// - completed: the order is closed
+// - cancelled: a pending payment was abandoned or replaced
+// - partially_refunded / refunded: some or all of a paid order was returned
+//
+// Orders start as pending_payment, as paid when payment is collected in one
+// step, or as completed for checkouts that take no payment in the app.
+const ORDER_STATUSES = [
+  "pending_payment",
+  "paid",
+  "exit_verified",
+  "completed",
+  "cancelled",
+  "partially_refunded",
+  "refunded",
+];
+
+const ORDER_TRANSITIONS = {
+  pending_payment: ["paid", "cancelled"],
+  paid: ["exit_verified", "completed", "partially_refunded", "refunded"],
+  exit_verified: ["completed", "partially_refunded", "refunded"],
+  completed: ["partially_refunded", "refunded"],
+  partially_refunded: ["partially_refunded", "refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+const canTransition = (from, to) =>
+  (ORDER_TRANSITIONS[from] || []).includes(to);
+
+// One entry of an order's statusHistory. by is the staff member who made the
+// change, if any.
+const historyEntry = (status, { by, note } = {}) => ({
+  status,
+  at: new Date().toISOString(),
+  ...(by && { by: { id: by.id, username: by.username } }),
+  ...(note && { note }),
+});
+
+// Tell staff screens and the customer's devices that an order changed
+const emitOrderStatus = (io, order, previousStatus = null) => {
+  if (!io) return;
+
+  const latest = order.statusHistory[order.statusHistory.length - 1];
+  io.emit("order_updated", {
+    orderId: order.orderId,
+    userId: order.userId,
+    status: order.status,
+    previousStatus,
+    at: latest.at,
+  });
+};
+
+// The priced contents of an order. payment.method is the payment provider's
+// name ("razorpay" or "mock"), "counter" (paid to a cashier, with the tenders
+// taken) or "direct" (checkout without collecting a payment); amountMinor is
+// what the payment covers after points. cartId ties the order to the cart it
+// was made from.
+const orderContents = ({ cart, priced, redemption, payment }) => ({
+  cartId: cart.id || null,
+  items: priced.items,
+  total: priced.total,
+  pricing: priced.pricing,
+  payment: {
+    ...payment,
+    amountMinor: priced.pricing.totalMinor - redemption.amountMinor,
+  },
+  deviceId: cart.deviceId || null,
+  ...(cart.weightOverrides && { weightOverrides: cart.weightOverrides }),
+});
+
+// The money actually taken for an order: what the payment provider captured,
+// or the tenders a cashier took less the change given back. "direct" orders
+// took none.
+const collectedMinor = (order) => {
+  const { method, paymentId, amountMinor, tenderedMinor, changeMinor } =
+    order.payment;
+  if (method === "counter") return (tenderedMinor || 0) - (changeMinor || 0);
+  return paymentId ? amountMinor : 0;
+};
+
+// Take the stock an order sold, move the customer's points and count the
+// promotions it used. This is the only place stock is taken: scans and cart
+// changes only check that it is there, and refunds put back what comes back.
+// Must run inside a transaction. Returns the points moved.
+const settleOrder = (order, cart, redemption) => {
+  // Update inventory quantities (adjustStock never goes below zero)
+  cart.items.forEach((item) => {
+    storage.products.adjustStock(item.id, -item.quantity);
+  });
+
+  // Spend the points the customer chose and earn on the money collected
+  const loyalty = settleOrderPoints({
+    userId: order.userId,
+    orderId: order.orderId,
+    redemption,
+    paidMinor: collectedMinor(order),
+  });
+  redeemPromotions(order.pricing);
+
+  return loyalty;
+};
+
+// Record an order whose checkout finishes in one step (status "paid" or
+// "completed") and settle it. Returns { order, loyalty }.
+const placeOrder = (
+  io,
+  { userId, cart, priced, redemption, status, payment }
+) => {
+  let order;
+  let loyalty;
+  storage.transaction(() => {
+    // Insert first, so nothing is settled if the order cannot be recorded
+    order = storage.orders.create({
+      userId,
+      status,
+      ...orderContents({ cart, priced, redemption, payment }),
+      date: new Date().toISOString(),
+      statusHistory: [historyEntry(status)],
+    });
+    loyalty = settleOrder(order, cart, redemption);
+    const { balance, ...orderPoints } = loyalty;
+    order = storage.orders.update(order.orderId, { loyalty: orderPoints });
+  });
+
+  emitOrderStatus(io, order);
+  return { order, loyalty };
+};
+
+// Record an order waiting for an online payment. The customer's earlier
+// pending orders are cancelled, since a cart is paid for only once. loyalty
+// holds the points the payment leaves out, to be spent once it is paid.
+const startOrder = (io, { userId, cart, priced, redemption, payment }) => {
+  storage.orders
+    .listByUserId(userId)
+    .filter((order) => order.status === "pending_payment")
+    .forEach((order) =>
+      transitionOrder(io, order.orderId, "cancelled", {
+        note: "Replaced by a new payment",
+      })
+    );
+
+  const order = storage.orders.create({
+    userId,
+    status: "pending_payment",
+    ...orderContents({ cart, priced, redemption, payment }),
+    loyalty: {
+      pointsRedeemed: redemption.points || 0,
+      redeemedMinor: redemption.amountMinor,
+    },
+    date: new Date().toISOString(),
+    statusHistory: [historyEntry("pending_payment")],
+  });
+
+  emitOrderStatus(io, order);
+  return order;
+};
+
+// Mark a pending order paid with the cart as it is now, and settle it.
+// Returns { order, loyalty } or { error } if the order is no longer pending.
+const payOrder = (io, orderId, { cart, priced, redemption, payment }) => {
+  let error = null;
+  let loyalty;
+
+  const order = storage.transaction(() => {
+    const current = storage.orders.getById(orderId);
+
+    if (!current || !canTransition(current.status, "paid")) {
+      error = "This order is not waiting for payment";
+      return null;
+    }
+
+    const contents = orderContents({ cart, priced, redemption, payment });
+    contents.payment = { ...current.payment, ...contents.payment };
+    loyalty = settleOrder({ ...current, ...contents }, cart, redemption);
+    const { balance, ...orderPoints } = loyalty;
+
+    return storage.orders.update(orderId, {
+      ...contents,
+      loyalty: orderPoints,
+      status: "paid",
+      statusHistory: [...current.statusHistory, historyEntry("paid")],
+    });
+  });
+
+  if (error) return { error };
+
+  emitOrderStatus(io, order, "pending_payment");
+  return { order, loyalty };
+};
+
+// Move an order to another status if its lifecycle allows, recording when and
+// who by. Returns { order } or { error }.
+const transitionOrder = (io, orderId, status, details = {}) => {
+  let error = null;
+  let previousStatus = null;
+
+  const order = storage.transaction(() => {
+    const current = storage.orders.getById(orderId);
+
+    if (!current) {
+      error = "Order not found";
+      return null;
+    }
+
+    if (!canTransition(current.status, status)) {
+      error = `An order that is ${current.status} cannot become ${status}`;
+      return null;
+    }
+
+    previousStatus = current.status;
+    return storage.orders.update(orderId, {
+      status,
+      statusHistory: [
+        ...(current.statusHistory || []),
+        historyEntry(status, details),
+      ],
+    });
+  });
+
+  if (error) return { error };
+
+  emitOrderStatus(io, order, previousStatus);
+  return { order };
+};
+
+// Note a failed payment attempt on a pending order. The order stays pending,
+// since the customer can try again against the same Razorpay order.
+const recordPaymentFailure = (orderId, failure) =>
+  storage.transaction(() => {
+    const current = storage.orders.getById(orderId);
+    if (!current) return null;
+
+    return storage.orders.update(orderId, {
+      payment: {
+        ...current.payment,
+        lastFailure: { ...failure, at: new Date().toISOString() },
+      },
+    });
+  });
+
+// How much of each product has been returned on an order's refunds, by
+// product ID
+const returnedQuantities = (refunds = []) => {
+  const returned = new Map();
+  refunds
+    .flatMap((refund) => refund.lines || [])
+    .forEach((line) =>
+      returned.set(
+        line.id,
+        roundQuantity((returned.get(line.id) || 0) + line.quantity)
+      )
+    );
+  return returned;
+};
+
+// The value of the order lines returned by refunds, before any of it was paid
+// with points
+const returnedMinor = (refunds = []) =>
+  refunds
+    .flatMap((refund) => refund.lines || [])
+    .reduce((sum, line) => sum + line.amountMinor, 0);
+
+const allItemsReturned = (order, refunds) => {
+  const returned = returnedQuantities(refunds);
+  return order.items.every(
+    (item) => (returned.get(item.id) || 0) >= item.quantity
+  );
+};
+
+// An order is refunded once refunds cover the money collected and, if any
+// refund returned items, once every item has come back. Refunds made outside
+// the app (e.g. from the Razorpay dashboard) have no lines and only count
+// money.
+const refundStatus = (order, refunds, refundedMinor) => {
+  const covered = refundedMinor >= collectedMinor(order);
+  const byLine = refunds.some((refund) => refund.lines);
+  return covered && (!byLine || allItemsReturned(order, refunds))
+    ? "refunded"
+    : "partially_refunded";
+};
+
+// Put the items of a refund marked restock back into stock. Must run inside
+// a transaction.
+const restockRefund = (refund) => {
+  if (!refund.restock) return;
+  refund.lines.forEach((line) => {
+    storage.products.adjustStock(line.id, line.quantity);
+  });
+};
+
+// Add a refund to a paid order and move it to partially_refunded, or to
+// refunded (see refundStatus). refund.refundId identifies the refund with the
+// payment provider; one already recorded is left alone. A refund made by
+// staff carries lines ({ id, name, quantity, amountMinor }), reason and
+// restock, and its items go back into stock if restock is set. A full refund
+// reverses the order's loyalty points.
+// Returns { order, duplicate } or { error }.
+const recordRefund = (io, orderId, refund, details = {}) => {
+  let error = null;
+  let duplicate = false;
+  let changed = false;
+  let previousStatus = null;
+
+  const order = storage.transaction(() => {
+    const current = storage.orders.getById(orderId);
+
+    if (!current) {
+      error = "Order not found";
+      return null;
+    }
+
+    const recorded = current.refunds || [];
+    const existing = recorded.find(
+      (entry) => entry.refundId === refund.refundId
+    );
+
+    // The provider's webhook can record a refund staff made before the
+    // request that made it does. The lines only that request knows are
+    // still added.
+    if (existing) {
+      duplicate = true;
+      if (existing.lines || !refund.lines) return current;
+    }
+
+    const added = {
+      ...refund,
+      at: existing ? existing.at : new Date().toISOString(),
+    };
+    const refunds = existing
+      ? recorded.map((entry) => (entry === existing ? added : entry))
+      : [...recorded, added];
+    const refundedMinor = refunds.reduce(
+      (sum, entry) => sum + entry.amountMinor,
+      0
+    );
+    const status = refundStatus(current, refunds, refundedMinor);
+    changed = !existing || status !== current.status;
+
+    if (changed && !canTransition(current.status, status)) {
+      error = `An order that is ${current.status} cannot become ${status}`;
+      return null;
+    }
+
+    if (refund.lines) restockRefund(refund);
+    // A full refund takes back the points the order earned and returns the
+    // points spent on it; a partial one takes back its share of the points
+    // earned and returns the share of the points spent on what came back
+    if (status === "refunded" && current.status !== "refunded") {
+      reverseOrderPoints(orderId, "Order refunded");
+    } else if (status === "partially_refunded") {
+      clawBackOrderPoints(current, refundedMinor, "Order partly refunded");
+      refundRedeemedPoints(
+        current,
+        returnedMinor(refunds),
+        "Order partly refunded"
+      );
+    }
+
+    previousStatus = current.status;
+    return storage.orders.update(orderId, {
+      status,
+      refunds,
+      refundedMinor,
+      ...(changed && {
+        statusHistory: [
+          ...(current.statusHistory || []),
+          historyEntry(status, details),
+        ],
+      }),
+    });
+  });
+
+  if (error) return { error };
+  if (changed) emitOrderStatus(io, order, previousStatus);
+  return { order, duplicate };
+};
+
+// The order a Razorpay order or payment ID belongs to, whoever placed it
+const findOrderByPayment = ({ providerOrderId, paymentId }) =>
+  storage.orders
+    .list()
+    .find(
+      (order) =>
+        order.payment &&
+        ((providerOrderId &&
+          order.payment.providerOrderId === providerOrderId) ||
+          (paymentId && order.payment.paymentId === paymentId))
+    );
+
+// The customer's order a Razorpay order ID was created for, if any
+const findPaymentOrder = (userId, providerOrderId) =>
+  storage.orders
+    .listByUserId(userId)
+    .find(
+      (order) =>
+        order.payment && order.payment.providerOrderId === providerOrderId
+    );
+
+const sameItems = (a, b) => {
+  const quantities = (items) =>
+    items
+      .map((item) => `${item.id}:${item.quantity}`)
+      .sort()
+      .join(",");
+  return quantities(a) === quantities(b);
+};
+
+// Check that a pending order is still for this cart, with the same items and
+// the same amount to pay, so a payment cannot be applied to a cart it was not
+// made for. Returns an error message or null.
+const paymentMismatch = (order, cart, amountMinor) => {
+  if (order.cartId && order.cartId !== cart.id) {
+    return "This payment was started for a different cart";
+  }
+
+  if (!sameItems(order.items, cart.items)) {
+    return "Your cart changed after this payment was started";
+  }
+
+  if (order.payment.amountMinor !== amountMinor) {
+    return "The amount paid does not match the amount due for your cart";
+  }
+
+  return null;
+};
+
+// Check the filters staff may list orders by, returning { filters } or
+// { error }. Dates are ISO strings; to is inclusive.
+const readOrderFilters = (query) => {
+  const { status, userId, deviceId, from, to } = query;
+
+  if (status !== undefined && !ORDER_STATUSES.includes(status)) {
+    return { error: `status must be one of ${ORDER_STATUSES.join(", ")}` };
+  }
+
+  const invalidDate = [from, to].find(
+    (date) => date !== undefined && isNaN(Date.parse(date))
+  );
+  if (invalidDate !== undefined) {
+    return { error: "from and to must be dates" };
+  }
+
+  return { filters: { status, userId, deviceId, from, to } };
+};
+
+const matchesFilters = (order, { status, userId, deviceId, from, to }) =>
+  (!status || order.status === status) &&
+  (!userId || order.userId === userId) &&
+  (!deviceId || order.deviceId === deviceId) &&
+  (!from || Date.parse(order.date) >= Date.parse(from)) &&
+  (!to || Date.parse(order.date) <= Date.parse(to));
+
+// Orders matching the filters, newest first
+const listOrders = (filters = {}) =>
+  (filters.userId
+    ? storage.orders.listByUserId(filters.userId)
+    : storage.orders.list()
+  )
+    .filter((order) => matchesFilters(order, filters))
+    .sort((a, b) => (b.date || "").localeCompare(a.date || ""));
+
+module.exports = {
+  ORDER_STATUSES,
+  ORDER_TRANSITIONS,
+  placeOrder,
+  startOrder,
+  payOrder,
+  transitionOrder,
+  recordPaymentFailure,
+  recordRefund,
+  returnedQuantities,
+  collectedMinor,
+  findOrderByPayment,
+  findPaymentOrder,
+  paymentMismatch,
+  readOrderFilters,
+  listOrders,
+};
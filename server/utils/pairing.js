@@ -0,0 +1,96 @@
+const crypto = require("crypto");
+const storage = require("../storage");
+const { emitDeviceStatus } = require("./devices");
+
+// A shopper claims a free cart by entering (or scanning as a QR code) the
+// six-digit pairing code the cart is showing. Codes expire after
+// PAIRING_CODE_TTL_SECONDS, can be used once, and are thrown away after a few
+// wrong guesses. Only a hash of the current code is stored on the device.
+const PAIRING_CODE_TTL_SECONDS =
+  parseInt(process.env.PAIRING_CODE_TTL_SECONDS) || 300;
+const MAX_PAIRING_ATTEMPTS = 5;
+
+const hashCode = (code) =>
+  crypto.createHash("sha256").update(String(code)).digest("hex");
+
+// Create a new pairing code for a device, replacing any previous one
+const issuePairingCode = (deviceId) => {
+  const code = String(crypto.randomInt(0, 1000000)).padStart(6, "0");
+  const expiresAt = new Date(
+    Date.now() + PAIRING_CODE_TTL_SECONDS * 1000
+  ).toISOString();
+
+  storage.devices.update(deviceId, {
+    pairingCodeHash: hashCode(code),
+    pairingCodeExpiresAt: expiresAt,
+    pairingAttempts: 0,
+  });
+
+  return { code, expiresAt };
+};
+
+const clearPairingCode = (deviceId) =>
+  storage.devices.update(deviceId, {
+    pairingCodeHash: undefined,
+    pairingCodeExpiresAt: undefined,
+    pairingAttempts: undefined,
+  });
+
+// Check a code against the device's current one. A matching code is used up;
+// too many wrong guesses discard the code so a new one must be issued.
+const consumePairingCode = (deviceId, code) => {
+  const device = storage.devices.getById(deviceId);
+
+  if (
+    !device ||
+    !device.pairingCodeHash ||
+    new Date(device.pairingCodeExpiresAt) <= new Date()
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(device.pairingCodeHash, "hex");
+  const actual = Buffer.from(hashCode(code), "hex");
+  if (crypto.timingSafeEqual(expected, actual)) {
+    clearPairingCode(deviceId);
+    return true;
+  }
+
+  const attempts = (device.pairingAttempts || 0) + 1;
+  if (attempts >= MAX_PAIRING_ATTEMPTS) {
+    clearPairingCode(deviceId);
+  } else {
+    storage.devices.update(deviceId, { pairingAttempts: attempts });
+  }
+  return false;
+};
+
+// Give a free cart that is connected over Socket.IO a fresh code to display
+const sendPairingCode = (io, deviceId) => {
+  if (!io || !deviceId || storage.carts.getByDeviceId(deviceId)) {
+    return;
+  }
+
+  for (const socket of io.sockets.sockets.values()) {
+    if (socket.deviceId === deviceId) {
+      socket.emit("pairing_code", issuePairingCode(deviceId));
+      return;
+    }
+  }
+};
+
+// Call once a cart has been released by its shopper, by staff or by checkout,
+// so dashboards update and the cart shows a code for the next shopper
+const notifyDeviceReleased = (io, deviceId) => {
+  if (!deviceId) return;
+
+  emitDeviceStatus(io, deviceId);
+  sendPairingCode(io, deviceId);
+};
+
+module.exports = {
+  issuePairingCode,
+  consumePairingCode,
+  sendPairingCode,
+  notifyDeviceReleased,
+};
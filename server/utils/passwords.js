@@ -0,0 +1,51 @@
+const crypto = require("crypto");
+
+// Passwords are stored as "scrypt$<salt>$<hash>" (hex encoded)
+const KEY_LENGTH = 64;
+
+const hashPassword = (password) => {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, KEY_LENGTH).toString("hex");
+  return `scrypt$${salt}$${hash}`;
+};
+
+const verifyPassword = (password, stored) => {
+  const [scheme, salt, hash] = (stored || "").split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+// Check a login attempt against a user record. Accounts created before hashing
+// was introduced still have a plaintext `password`; those are compared directly
+// and reported with needsUpgrade so the caller can store a hash instead.
+// Anything but a string never matches.
+const checkUserPassword = (user, password) => {
+  if (typeof password !== "string") {
+    return { valid: false, needsUpgrade: false };
+  }
+
+  if (user.passwordHash) {
+    return {
+      valid: verifyPassword(password, user.passwordHash),
+      needsUpgrade: false,
+    };
+  }
+
+  if (typeof user.password === "string") {
+    const expected = Buffer.from(user.password);
+    const actual = Buffer.from(password);
+    const valid =
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual);
+    return { valid, needsUpgrade: valid };
+  }
+
+  return { valid: false, needsUpgrade: false };
+};
+
+module.exports = { hashPassword, verifyPassword, checkUserPassword };
@@ -0,0 +1,36 @@
+// Roles and what each one may do. Keep in sync with client/src/utils/permissions.ts
+const PERMISSIONS = [
+  "dashboard:view",
+  "products:write",
+  "inventory:adjust",
+  "orders:view",
+  "orders:manage",
+  "orders:refund",
+  "payments:take",
+  "carts:override",
+  "promotions:manage",
+  "devices:manage",
+  "users:manage",
+];
+
+const ROLE_PERMISSIONS = {
+  admin: PERMISSIONS,
+  store_manager: PERMISSIONS,
+  inventory_clerk: ["dashboard:view", "inventory:adjust"],
+  cashier: [
+    "dashboard:view",
+    "orders:view",
+    "orders:manage",
+    "orders:refund",
+    "payments:take",
+    "carts:override",
+  ],
+  customer: [],
+};
+
+const ROLES = Object.keys(ROLE_PERMISSIONS);
+
+const hasPermission = (role, permission) =>
+  (ROLE_PERMISSIONS[role] || []).includes(permission);
+
+module.exports = { PERMISSIONS, ROLE_PERMISSIONS, ROLES, hasPermission };
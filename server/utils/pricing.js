@@ -0,0 +1,224 @@
+const storage = require("../storage");
+const {
+  STORE_STATE_CODE,
+  taxCategory,
+  isInterState,
+  taxLine,
+  summarizeTaxes,
+} = require("./tax");
+const {
+  promotionsForCart,
+  applyPromotions,
+  loadPromotions,
+} = require("./promotions");
+const { isSoldByWeight, roundQuantity } = require("./units");
+
+// Carts only store product IDs and quantities. Every time a cart is shown,
+// scanned into or paid for it is priced here from the current catalogue, with
+// all arithmetic in integer minor units (paise) so totals never drift.
+const CURRENCY = "INR";
+
+const toMinor = (amount) => Math.round(Number(amount) * 100);
+const toMajor = (minor) => minor / 100;
+
+const sum = (values) => values.reduce((total, value) => total + value, 0);
+
+// What a cart stores for a product. The name is kept so a line can still be
+// shown if the product is later removed from the catalogue.
+const cartLine = (product, quantity) => ({
+  id: product.id,
+  name: product.name,
+  quantity,
+});
+
+// Add quantity of a product to a cart's lines, merging with its existing line
+const addToLines = (items, product, quantity) => {
+  const line = items.find((item) => item.id === product.id);
+
+  if (line) {
+    line.quantity = roundQuantity(line.quantity + quantity);
+  } else {
+    items.push(cartLine(product, quantity));
+  }
+};
+
+// Take quantity of a product off a cart's lines, or its whole line when
+// quantity is undefined. Returns how much was taken off, which is 0 if the
+// product is not in the cart.
+const removeFromLines = (items, productId, quantity) => {
+  const index = items.findIndex((item) => item.id === productId);
+  if (index === -1) return 0;
+
+  const line = items[index];
+  if (quantity === undefined || line.quantity <= quantity) {
+    items.splice(index, 1);
+    return line.quantity;
+  }
+
+  line.quantity = roundQuantity(line.quantity - quantity);
+  return quantity;
+};
+
+// What a stored line costs at the catalogue price, before discounts.
+// Products no longer in the catalogue are not charged. Weighed products are
+// priced per kilogram, so their amount is rounded to the paisa.
+const baseLine = (line, catalogue) => {
+  const product = catalogue.get(line.id);
+
+  if (!product) {
+    return {
+      id: line.id,
+      name: line.name,
+      price: 0,
+      quantity: line.quantity,
+      unitPriceMinor: 0,
+      amountMinor: 0,
+      hsnCode: null,
+      gstRate: 0,
+      priceIncludesTax: true,
+      unavailable: true,
+    };
+  }
+
+  const unitPriceMinor = toMinor(product.price);
+
+  return {
+    ...product,
+    ...taxCategory(product),
+    quantity: line.quantity,
+    unitPriceMinor,
+    amountMinor: isSoldByWeight(product)
+      ? Math.round(unitPriceMinor * line.quantity)
+      : unitPriceMinor * line.quantity,
+  };
+};
+
+// Take a line's discounts off its price, then work out its GST. Discounts are
+// reported on the taxable value, excluding GST, so they add up with the
+// subtotal.
+const priceLine = ({ amountMinor, ...line }, discounts, interState) => {
+  const taxOn = (amount) => taxLine(amount, line, interState);
+
+  let chargedMinor = amountMinor;
+  let taxableMinor = taxOn(amountMinor).taxableMinor;
+  const applied = discounts
+    .map((discount) => {
+      chargedMinor -= discount.amountMinor;
+      const after = taxOn(chargedMinor).taxableMinor;
+      const excluded = { ...discount, amountMinor: taxableMinor - after };
+      taxableMinor = after;
+      return excluded;
+    })
+    .filter((discount) => discount.amountMinor > 0);
+
+  const tax = taxOn(chargedMinor);
+
+  return {
+    ...line,
+    discountMinor: sum(applied.map((discount) => discount.amountMinor)),
+    discounts: applied,
+    ...tax,
+    lineTotalMinor: tax.taxableMinor + tax.taxMinor,
+  };
+};
+
+// Total discount given by each promotion across all lines
+const totalDiscounts = (items) => {
+  const totals = new Map();
+
+  items.forEach((item) =>
+    item.discounts.forEach((discount) => {
+      const total = totals.get(discount.promotionId);
+      if (total) {
+        total.amountMinor += discount.amountMinor;
+      } else {
+        totals.set(discount.promotionId, { ...discount });
+      }
+    })
+  );
+
+  return [...totals.values()];
+};
+
+const loadCatalogue = () =>
+  new Map(storage.products.list().map((product) => [product.id, product]));
+
+// Price a stored cart, returning it with priced items, total in major units
+// and a breakdown in minor units
+const priceCart = (
+  cart,
+  catalogue = loadCatalogue(),
+  promotions = loadPromotions()
+) => {
+  if (!cart) return null;
+
+  const placeOfSupply = cart.placeOfSupply || STORE_STATE_CODE;
+  const interState = isInterState(placeOfSupply);
+  const lines = (cart.items || []).map((line) => baseLine(line, catalogue));
+
+  // Discounts come off the price before GST is worked out
+  const { applicable, coupon } = promotionsForCart(
+    promotions,
+    cart.couponCode
+  );
+  const lineDiscounts = applyPromotions(lines, applicable);
+  const items = lines.map((line, index) =>
+    priceLine(line, lineDiscounts[index], interState)
+  );
+
+  // The subtotal is the taxable value before discounts and GST
+  const discountMinor = sum(items.map((item) => item.discountMinor));
+  const subtotalMinor =
+    sum(items.map((item) => item.taxableMinor)) + discountMinor;
+  const taxMinor = sum(items.map((item) => item.taxMinor));
+  const { taxSummary, taxes } = summarizeTaxes(items, interState);
+
+  // Each entry is { promotionId, label, amountMinor }
+  const discounts = totalDiscounts(items);
+  const totalMinor = subtotalMinor - discountMinor + taxMinor;
+
+  const { total, ...stored } = cart;
+
+  return {
+    ...stored,
+    items,
+    total: toMajor(totalMinor),
+    pricing: {
+      currency: CURRENCY,
+      subtotalMinor,
+      discountMinor,
+      taxMinor,
+      totalMinor,
+      discounts,
+      taxes,
+      placeOfSupply,
+      supplyType: interState ? "inter-state" : "intra-state",
+      taxSummary,
+      ...(coupon && { coupon }),
+    },
+  };
+};
+
+const emptyCart = (userId) => priceCart({ userId, items: [] });
+
+// Every cart priced against one read of the catalogue and promotions, for
+// cart_updated events
+const listPricedCarts = () => {
+  const catalogue = loadCatalogue();
+  const promotions = loadPromotions();
+  return storage.carts
+    .list()
+    .map((cart) => priceCart(cart, catalogue, promotions));
+};
+
+module.exports = {
+  CURRENCY,
+  toMinor,
+  toMajor,
+  cartLine,
+  addToLines,
+  removeFromLines,
+  priceCart,
+  emptyCart,
+  listPricedCarts,
+};
@@ -0,0 +1,323 @@
+const storage = require("../storage");
+const { isSoldByWeight } = require("./units");
+
+// Promotions are managed by staff and applied while a cart is priced. A
+// promotion without a code applies to every cart automatically; one with a
+// code only applies once the shopper enters it as a coupon. It can target
+// given products and/or categories, or the whole cart when it lists neither.
+//
+// - percentage: value percent off each eligible line
+// - flat: value rupees off the eligible lines, split in proportion to price
+// - buy_x_get_y: for every buyQuantity + getQuantity units of a product, the
+//   last getQuantity are value percent off (free by default). Products sold
+//   by weight have no units to count and are left out.
+const PROMOTION_TYPES = ["percentage", "flat", "buy_x_get_y"];
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+const UNAVAILABLE_MESSAGES = {
+  inactive: "This coupon is not active",
+  scheduled: "This coupon is not valid yet",
+  expired: "This coupon has expired",
+  used_up: "This coupon has been fully redeemed",
+};
+
+const sum = (values) => values.reduce((total, value) => total + value, 0);
+
+const normalizeCode = (code) =>
+  String(code || "")
+    .trim()
+    .toUpperCase();
+
+const isPositiveInteger = (value) => Number.isInteger(value) && value > 0;
+
+const readStringList = (value) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+    ? [...new Set(value.map((item) => item.trim()).filter(Boolean))]
+    : null;
+
+// Check a promotion sent by staff, merged over the stored one when updating.
+// Returns { promotion } or { error }; null clears an optional field.
+const readPromotion = (body, existing = {}) => {
+  const promotion = { ...existing };
+  const has = (field) => body[field] !== undefined;
+  const clears = (field) => body[field] === null || body[field] === "";
+
+  if (has("name")) {
+    promotion.name = typeof body.name === "string" ? body.name.trim() : "";
+  }
+  if (!promotion.name) {
+    return { error: "Name is required" };
+  }
+
+  if (has("type")) promotion.type = body.type;
+  if (!PROMOTION_TYPES.includes(promotion.type)) {
+    return { error: `Type must be one of: ${PROMOTION_TYPES.join(", ")}` };
+  }
+
+  if (has("value")) promotion.value = Number(body.value);
+  if (promotion.type === "buy_x_get_y" && promotion.value === undefined) {
+    promotion.value = 100;
+  }
+  if (!isFinite(promotion.value) || promotion.value <= 0) {
+    return { error: "Value must be a positive number" };
+  }
+  if (promotion.type !== "flat" && promotion.value > 100) {
+    return { error: "Percentages cannot be more than 100" };
+  }
+
+  if (promotion.type === "buy_x_get_y") {
+    if (has("buyQuantity")) promotion.buyQuantity = Number(body.buyQuantity);
+    if (has("getQuantity")) promotion.getQuantity = Number(body.getQuantity);
+    if (
+      !isPositiveInteger(promotion.buyQuantity) ||
+      !isPositiveInteger(promotion.getQuantity)
+    ) {
+      return { error: "Buy and get quantities must be positive whole numbers" };
+    }
+  } else {
+    promotion.buyQuantity = undefined;
+    promotion.getQuantity = undefined;
+  }
+
+  if (has("code")) {
+    promotion.code = clears("code") ? undefined : normalizeCode(body.code);
+  }
+  if (promotion.code !== undefined && !CODE_PATTERN.test(promotion.code)) {
+    return {
+      error:
+        "Coupon codes must be 3 to 32 letters, digits, hyphens or underscores",
+    };
+  }
+
+  for (const field of ["productIds", "categories"]) {
+    if (!has(field)) continue;
+    const list = clears(field) ? [] : readStringList(body[field]);
+    if (!list) {
+      return { error: `${field} must be a list of strings` };
+    }
+    promotion[field] = list;
+  }
+
+  for (const field of ["startsAt", "endsAt"]) {
+    if (!has(field)) continue;
+    if (clears(field)) {
+      promotion[field] = undefined;
+    } else if (isNaN(Date.parse(body[field]))) {
+      return { error: `${field} must be a date` };
+    } else {
+      promotion[field] = new Date(body[field]).toISOString();
+    }
+  }
+  if (
+    promotion.startsAt &&
+    promotion.endsAt &&
+    promotion.endsAt <= promotion.startsAt
+  ) {
+    return { error: "The end date must be after the start date" };
+  }
+
+  if (has("usageLimit")) {
+    promotion.usageLimit = clears("usageLimit")
+      ? undefined
+      : Number(body.usageLimit);
+  }
+  if (
+    promotion.usageLimit !== undefined &&
+    !isPositiveInteger(promotion.usageLimit)
+  ) {
+    return { error: "Usage limit must be a positive whole number" };
+  }
+
+  if (has("active")) {
+    if (typeof body.active !== "boolean") {
+      return { error: "active must be true or false" };
+    }
+    promotion.active = body.active;
+  }
+
+  return { promotion };
+};
+
+// Whether a promotion can be used now: active, inactive, scheduled, expired
+// or used_up
+const promotionStatus = (promotion, now = new Date()) => {
+  if (promotion.active === false) return "inactive";
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) {
+    return "scheduled";
+  }
+  if (promotion.endsAt && new Date(promotion.endsAt) <= now) return "expired";
+  if (
+    promotion.usageLimit &&
+    (promotion.usageCount || 0) >= promotion.usageLimit
+  ) {
+    return "used_up";
+  }
+  return "active";
+};
+
+// Why a coupon cannot be applied right now, or null if it can
+const couponUnavailableReason = (promotion, now = new Date()) => {
+  const status = promotionStatus(promotion, now);
+  return status === "active" ? null : UNAVAILABLE_MESSAGES[status];
+};
+
+const appliesTo = (promotion, line) => {
+  const productIds = promotion.productIds || [];
+  const categories = promotion.categories || [];
+
+  if (productIds.length === 0 && categories.length === 0) return true;
+  return (
+    productIds.includes(line.id) ||
+    (Boolean(line.category) && categories.includes(line.category))
+  );
+};
+
+// Split totalMinor over lines in proportion to their weights, giving the
+// paise left over from rounding down to the largest lines first
+const allocate = (totalMinor, weights) => {
+  const weightTotal = sum(weights);
+  if (weightTotal === 0) return weights.map(() => 0);
+
+  const shares = weights.map((weight) =>
+    Math.floor((totalMinor * weight) / weightTotal)
+  );
+  let left = totalMinor - sum(shares);
+
+  weights
+    .map((weight, index) => index)
+    .sort((a, b) => weights[b] - weights[a])
+    .forEach((index) => {
+      if (left > 0) {
+        shares[index] += 1;
+        left -= 1;
+      }
+    });
+
+  return shares;
+};
+
+// Amount a promotion takes off each of the given lines, in minor units
+const discountAmounts = (promotion, lines) => {
+  switch (promotion.type) {
+    case "percentage":
+      return lines.map((line) =>
+        Math.round((line.amountMinor * promotion.value) / 100)
+      );
+    case "flat": {
+      // value is in rupees, like product prices
+      const amounts = lines.map((line) => line.amountMinor);
+      return allocate(
+        Math.min(Math.round(promotion.value * 100), sum(amounts)),
+        amounts
+      );
+    }
+    case "buy_x_get_y": {
+      const groupSize = promotion.buyQuantity + promotion.getQuantity;
+      return lines.map((line) => {
+        if (isSoldByWeight(line)) return 0;
+
+        const discounted =
+          Math.floor(line.quantity / groupSize) * promotion.getQuantity;
+        return Math.round(
+          (discounted * line.unitPriceMinor * promotion.value) / 100
+        );
+      });
+    }
+    default:
+      return lines.map(() => 0);
+  }
+};
+
+const promotionLabel = (promotion) =>
+  promotion.code ? `${promotion.name} (${promotion.code})` : promotion.name;
+
+// Promotions that apply to a cart: every usable automatic promotion, oldest
+// first, then the cart's coupon. Also returns the coupon's state for display.
+const promotionsForCart = (promotions, couponCode, now = new Date()) => {
+  const usable = promotions
+    .filter((promotion) => promotionStatus(promotion, now) === "active")
+    .filter((promotion) => !promotion.code)
+    .sort((a, b) => (a.createdAt || "").localeCompare(b.createdAt || ""));
+
+  if (!couponCode) {
+    return { applicable: usable, coupon: null };
+  }
+
+  const promotion = promotions.find((item) => item.code === couponCode);
+  if (!promotion) {
+    return {
+      applicable: usable,
+      coupon: { code: couponCode, valid: false, message: "Coupon not found" },
+    };
+  }
+
+  const reason = couponUnavailableReason(promotion, now);
+  return {
+    applicable: reason ? usable : [...usable, promotion],
+    coupon: {
+      code: couponCode,
+      name: promotion.name,
+      valid: !reason,
+      ...(reason && { message: reason }),
+    },
+  };
+};
+
+// Work out the discounts taken off each line. Lines are { id, category,
+// quantity, unitPriceMinor, amountMinor }; each promotion applies to what is
+// left of a line after the ones before it. Returns a list of
+// { promotionId, label, amountMinor } for each line.
+const applyPromotions = (lines, promotions) => {
+  const remaining = lines.map((line) => line.amountMinor);
+  const lineDiscounts = lines.map(() => []);
+
+  promotions.forEach((promotion) => {
+    const eligible = lines
+      .map((line, index) => index)
+      .filter(
+        (index) => remaining[index] > 0 && appliesTo(promotion, lines[index])
+      );
+    const amounts = discountAmounts(
+      promotion,
+      eligible.map((index) => ({
+        ...lines[index],
+        amountMinor: remaining[index],
+      }))
+    );
+
+    eligible.forEach((index, position) => {
+      const amountMinor = Math.min(amounts[position], remaining[index]);
+      if (amountMinor > 0) {
+        remaining[index] -= amountMinor;
+        lineDiscounts[index].push({
+          promotionId: promotion.id,
+          label: promotionLabel(promotion),
+          amountMinor,
+        });
+      }
+    });
+  });
+
+  return lineDiscounts;
+};
+
+const loadPromotions = () => storage.promotions.list();
+
+// Count a use of every promotion that discounted a paid order
+const redeemPromotions = (pricing) =>
+  storage.promotions.redeem(
+    pricing.discounts.map((discount) => discount.promotionId)
+  );
+
+module.exports = {
+  PROMOTION_TYPES,
+  normalizeCode,
+  readPromotion,
+  promotionStatus,
+  couponUnavailableReason,
+  promotionsForCart,
+  applyPromotions,
+  loadPromotions,
+  redeemPromotions,
+};
@@ -0,0 +1,267 @@
+const storage = require("../storage");
+const paymentProvider = require("../payments");
+const { isSoldByWeight, roundQuantity } = require("./units");
+const {
+  collectedMinor,
+  recordRefund,
+  returnedQuantities,
+} = require("./orders");
+
+// Staff refund a paid order line by line, taking back some or all of each
+// item. The money goes back the way the order was paid: through the payment
+// provider for online payments, or over the counter (source "store") for
+// orders paid at the counter. Orders placed without taking a payment cannot be
+// refunded. Returned items go back into stock unless staff say otherwise, e.g.
+// for damaged goods.
+const REFUNDABLE_STATUSES = [
+  "paid",
+  "exit_verified",
+  "completed",
+  "partially_refunded",
+];
+
+// Razorpay keeps notes of up to 256 characters
+const MAX_REASON_LENGTH = 200;
+
+// Orders with a refund being made, so two staff cannot refund the same items
+// while the provider is still answering
+const refundsInProgress = new Set();
+
+// Payments being given back by voidCancelledPayment
+const voidsInProgress = new Set();
+
+// What the first `quantity` of an order line cost, including its share of
+// discounts and GST. Working on running totals means the parts of a line
+// returned one refund at a time add up to exactly what it cost.
+const lineShare = (item, quantity) =>
+  item.quantity > 0
+    ? Math.round((item.lineTotalMinor * quantity) / item.quantity)
+    : 0;
+
+// The part of a goods value that was paid in money rather than points
+const paidShare = (order, goodsMinor) =>
+  order.pricing.totalMinor > 0
+    ? Math.round(
+        (collectedMinor(order) * goodsMinor) / order.pricing.totalMinor
+      )
+    : 0;
+
+// What is left to return of each order line
+const remainingQuantities = (order) => {
+  const returned = returnedQuantities(order.refunds);
+  return new Map(
+    order.items.map((item) => [
+      item.id,
+      roundQuantity(item.quantity - (returned.get(item.id) || 0)),
+    ])
+  );
+};
+
+// Check a refund staff asked for: lines ([{ id, quantity }], default
+// everything not yet returned), reason and restock (default true). Returns
+// { refund: { lines, amountMinor, reason, restock } } or { error }. Each line
+// gets what its items cost; amountMinor is the money to give back, which
+// leaves out the part of the order paid with points.
+const readRefundRequest = (order, body) => {
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+  if (!reason) {
+    return { error: "A reason for the refund is required" };
+  }
+  if (reason.length > MAX_REASON_LENGTH) {
+    return {
+      error: `reason must be at most ${MAX_REASON_LENGTH} characters`,
+    };
+  }
+  if (body.restock !== undefined && typeof body.restock !== "boolean") {
+    return { error: "restock must be true or false" };
+  }
+
+  const returned = returnedQuantities(order.refunds);
+  const remaining = remainingQuantities(order);
+
+  let requested = body.lines;
+  if (requested === undefined) {
+    requested = order.items
+      .filter((item) => remaining.get(item.id) > 0)
+      .map((item) => ({ id: item.id, quantity: remaining.get(item.id) }));
+
+    if (requested.length === 0) {
+      return { error: "Every item on this order has already been returned" };
+    }
+  } else if (!Array.isArray(requested) || requested.length === 0) {
+    return { error: "lines must be a list of { id, quantity }" };
+  }
+
+  const lines = [];
+  for (const { id, quantity } of requested) {
+    const item = order.items.find((entry) => entry.id === id);
+
+    if (!item) {
+      return { error: `Product ${id} is not on this order` };
+    }
+    if (lines.some((line) => line.id === id)) {
+      return { error: `${item.name} is listed more than once` };
+    }
+
+    const amount = Number(quantity);
+    if (!(amount > 0)) {
+      return { error: `Quantity of ${item.name} must be more than zero` };
+    }
+    if (!isSoldByWeight(item) && !Number.isInteger(amount)) {
+      return { error: `Quantity of ${item.name} must be a whole number` };
+    }
+    if (roundQuantity(amount) > remaining.get(id)) {
+      return {
+        error: `Only ${remaining.get(id)} of ${item.name} can still be returned`,
+      };
+    }
+
+    const before = returned.get(id) || 0;
+    const after = roundQuantity(before + amount);
+    lines.push({
+      id,
+      name: item.name,
+      quantity: roundQuantity(amount),
+      amountMinor: lineShare(item, after) - lineShare(item, before),
+    });
+  }
+
+  // Money back is the paid share of the goods returned so far, less what
+  // earlier refunds gave back, and never more than is left of the payment
+  const goodsBefore = order.items.reduce(
+    (sum, item) => sum + lineShare(item, returned.get(item.id) || 0),
+    0
+  );
+  const goodsAfter =
+    goodsBefore + lines.reduce((sum, line) => sum + line.amountMinor, 0);
+  const left = collectedMinor(order) - (order.refundedMinor || 0);
+  const amountMinor = Math.max(
+    0,
+    Math.min(
+      paidShare(order, goodsAfter) - paidShare(order, goodsBefore),
+      left
+    )
+  );
+
+  return {
+    refund: { lines, amountMinor, reason, restock: body.restock !== false },
+  };
+};
+
+// Give the money back and record the refund on the order, restocking its
+// items. Returns { order, refund } or { error }. Throws if the payment
+// provider could not make the refund, in which case nothing is recorded.
+const refundOrder = async (io, order, refund, by) => {
+  const { method, paymentId } = order.payment;
+
+  if (refundsInProgress.has(order.orderId)) {
+    return { error: "A refund for this order is already being made" };
+  }
+  if (paymentId && method !== paymentProvider.name && refund.amountMinor > 0) {
+    return {
+      error: `This order was paid through ${method}, which this server no longer takes payments with`,
+    };
+  }
+
+  refundsInProgress.add(order.orderId);
+  try {
+    let made = { refundId: storage.newId("refund"), source: "store" };
+
+    if (paymentId && refund.amountMinor > 0) {
+      const { refundId } = await paymentProvider.refund({
+        paymentId,
+        amountMinor: refund.amountMinor,
+        notes: { orderId: order.orderId, reason: refund.reason },
+      });
+      made = { refundId, source: paymentProvider.name };
+    }
+
+    const entry = {
+      ...made,
+      ...refund,
+      by: { id: by.id, username: by.username },
+    };
+    const { order: updated, error } = recordRefund(io, order.orderId, entry, {
+      by,
+      note: refund.reason,
+    });
+
+    if (error) {
+      console.error(
+        `Refund ${made.refundId} for order ${order.orderId} was made but not recorded:`,
+        error
+      );
+      return {
+        error: `Refund ${made.refundId} was made but could not be recorded: ${error}`,
+      };
+    }
+
+    if (refund.restock) {
+      io.emit("inventory_updated", { products: storage.products.list() });
+    }
+
+    const recorded = updated.refunds.find(
+      (item) => item.refundId === made.refundId
+    );
+    return { order: updated, refund: recorded };
+  } finally {
+    refundsInProgress.delete(order.orderId);
+  }
+};
+
+// Give back in full a payment captured for an order that was already
+// cancelled, e.g. one finished in an old checkout window after staff cancelled
+// the order or the customer started a newer payment. The refund is kept in the
+// order's voidedPayments, so each payment is given back once. Returns that
+// entry, or null if the payment was already given back. Throws if the provider
+// could not make the refund.
+const voidCancelledPayment = async (order, payment) => {
+  const voided = (current) =>
+    (current.voidedPayments || []).some(
+      (entry) => entry.paymentId === payment.id
+    );
+
+  if (
+    voided(storage.orders.getById(order.orderId)) ||
+    voidsInProgress.has(payment.id)
+  ) {
+    return null;
+  }
+
+  voidsInProgress.add(payment.id);
+  try {
+    const { refundId } = await paymentProvider.refund({
+      paymentId: payment.id,
+      amountMinor: payment.amountMinor,
+      notes: { orderId: order.orderId, reason: "Order was cancelled" },
+    });
+
+    const entry = {
+      paymentId: payment.id,
+      refundId,
+      amountMinor: payment.amountMinor,
+      at: new Date().toISOString(),
+    };
+    storage.transaction(() => {
+      const current = storage.orders.getById(order.orderId);
+      storage.orders.update(order.orderId, {
+        voidedPayments: [...(current.voidedPayments || []), entry],
+      });
+    });
+
+    console.log(
+      `Payment ${payment.id} for cancelled order ${order.orderId} was refunded as ${refundId}`
+    );
+    return entry;
+  } finally {
+    voidsInProgress.delete(payment.id);
+  }
+};
+
+module.exports = {
+  REFUNDABLE_STATUSES,
+  readRefundRequest,
+  refundOrder,
+  voidCancelledPayment,
+};
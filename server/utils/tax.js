@@ -0,0 +1,142 @@
+// GST for cart lines. Each product has a GST rate (one of the GST slabs), an
+// HSN code and whether its price already includes tax. Sales within the
+// store's state are split equally into CGST and SGST; sales to another state
+// (place of supply differs from STORE_STATE_CODE) are charged IGST instead.
+const GST_RATES = [0, 5, 12, 18, 28];
+const DEFAULT_GST_RATE = GST_RATES.includes(
+  parseFloat(process.env.DEFAULT_GST_RATE)
+)
+  ? parseFloat(process.env.DEFAULT_GST_RATE)
+  : 18;
+const STORE_STATE_CODE = process.env.STORE_STATE_CODE || "29";
+
+// Tax settings of a product, filling in defaults for products created before
+// tax settings existed. Prices include tax unless marked otherwise, as MRPs do.
+const taxCategory = (product) => ({
+  hsnCode: product.hsnCode || null,
+  gstRate: GST_RATES.includes(product.gstRate)
+    ? product.gstRate
+    : DEFAULT_GST_RATE,
+  priceIncludesTax: product.priceIncludesTax !== false,
+});
+
+// Check tax fields sent for a product, returning { fields } or { error }.
+// Only fields present in the body are returned.
+const readTaxFields = (body) => {
+  const fields = {};
+
+  if (body.gstRate !== undefined) {
+    const gstRate = Number(body.gstRate);
+    if (!GST_RATES.includes(gstRate)) {
+      return { error: `GST rate must be one of ${GST_RATES.join(", ")}` };
+    }
+    fields.gstRate = gstRate;
+  }
+
+  if (body.hsnCode !== undefined) {
+    const hsnCode = String(body.hsnCode || "").trim();
+    if (hsnCode && !/^\d{4}(\d{2}){0,2}$/.test(hsnCode)) {
+      return { error: "HSN code must be 4, 6 or 8 digits" };
+    }
+    fields.hsnCode = hsnCode || undefined;
+  }
+
+  if (body.priceIncludesTax !== undefined) {
+    if (typeof body.priceIncludesTax !== "boolean") {
+      return { error: "priceIncludesTax must be true or false" };
+    }
+    fields.priceIncludesTax = body.priceIncludesTax;
+  }
+
+  return { fields };
+};
+
+// GST state codes are two digits, e.g. "29" for Karnataka
+const isStateCode = (code) => typeof code === "string" && /^\d{2}$/.test(code);
+
+const isInterState = (placeOfSupply) =>
+  Boolean(placeOfSupply) && placeOfSupply !== STORE_STATE_CODE;
+
+// Tax on one line charged amountMinor, after any discounts. Returns the
+// taxable value and tax split by component, all in minor units.
+const taxLine = (amountMinor, category, interState) => {
+  const { gstRate, priceIncludesTax } = category;
+
+  const taxableMinor = priceIncludesTax
+    ? Math.round((amountMinor * 100) / (100 + gstRate))
+    : amountMinor;
+  const taxMinor = priceIncludesTax
+    ? amountMinor - taxableMinor
+    : Math.round((amountMinor * gstRate) / 100);
+
+  const cgstMinor = interState ? 0 : Math.round(taxMinor / 2);
+
+  return {
+    taxableMinor,
+    cgstMinor,
+    sgstMinor: interState ? 0 : taxMinor - cgstMinor,
+    igstMinor: interState ? taxMinor : 0,
+    taxMinor,
+  };
+};
+
+// Invoice summary with one row per HSN code and rate, and the tax components
+// for the order summary, e.g. "CGST 2.5%"
+const summarizeTaxes = (lines, interState) => {
+  const rows = new Map();
+
+  lines.forEach((line) => {
+    const key = `${line.hsnCode || ""}:${line.gstRate}`;
+    const row = rows.get(key) || {
+      hsnCode: line.hsnCode,
+      gstRate: line.gstRate,
+      taxableMinor: 0,
+      cgstMinor: 0,
+      sgstMinor: 0,
+      igstMinor: 0,
+    };
+
+    row.taxableMinor += line.taxableMinor;
+    row.cgstMinor += line.cgstMinor;
+    row.sgstMinor += line.sgstMinor;
+    row.igstMinor += line.igstMinor;
+    rows.set(key, row);
+  });
+
+  const taxSummary = [...rows.values()];
+  const taxes = [];
+
+  [...new Set(taxSummary.map((row) => row.gstRate))]
+    .filter((rate) => rate > 0)
+    .sort((a, b) => a - b)
+    .forEach((rate) => {
+      const atRate = taxSummary.filter((row) => row.gstRate === rate);
+      const total = (field) => atRate.reduce((sum, row) => sum + row[field], 0);
+
+      if (interState) {
+        taxes.push({ label: `IGST ${rate}%`, amountMinor: total("igstMinor") });
+      } else {
+        taxes.push({
+          label: `CGST ${rate / 2}%`,
+          amountMinor: total("cgstMinor"),
+        });
+        taxes.push({
+          label: `SGST ${rate / 2}%`,
+          amountMinor: total("sgstMinor"),
+        });
+      }
+    });
+
+  return { taxSummary, taxes };
+};
+
+module.exports = {
+  GST_RATES,
+  STORE_STATE_CODE,
+  taxCategory,
+  readTaxFields,
+  isStateCode,
+  isInterState,
+  taxLine,
+  summarizeTaxes,
+};
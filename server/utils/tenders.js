@@ -0,0 +1,82 @@
+// Ways a cashier takes payment at the counter. Card and UPI are taken on the
+// store's own terminal or QR code, so the app only records them.
+//
+// - cash: notes and coins; the only tender change is given from
+// - card: card at the counter
+// - upi: UPI at the counter
+const TENDER_METHODS = ["cash", "card", "upi"];
+
+// Most tenders one order can be split across
+const MAX_TENDERS = 10;
+
+// Card approval codes and UPI transaction IDs
+const MAX_REFERENCE_LENGTH = 100;
+
+const formatMinor = (minor) => `₹${(minor / 100).toFixed(2)}`;
+
+// Check the tenders a cashier took for what is left to pay after points.
+// Each is { method, amountMinor, reference }; an order can be split across
+// several. Card and UPI can only cover what is due, and any change comes out
+// of the cash. Returns { tenders, tenderedMinor, changeMinor } or { error }.
+const readTenders = (tenders, dueMinor) => {
+  if (!Array.isArray(tenders)) {
+    return { error: "tenders must be a list of { method, amountMinor }" };
+  }
+  if (tenders.length > MAX_TENDERS) {
+    return {
+      error: `An order can be split across at most ${MAX_TENDERS} tenders`,
+    };
+  }
+
+  const read = [];
+  for (const tender of tenders) {
+    const { method, amountMinor, reference } = tender || {};
+
+    if (!TENDER_METHODS.includes(method)) {
+      return {
+        error: `Tender method must be one of ${TENDER_METHODS.join(", ")}`,
+      };
+    }
+    if (!Number.isInteger(amountMinor) || amountMinor <= 0) {
+      return { error: "Tender amounts must be whole numbers of paise above 0" };
+    }
+    if (
+      reference !== undefined &&
+      (typeof reference !== "string" ||
+        reference.trim().length > MAX_REFERENCE_LENGTH)
+    ) {
+      return {
+        error: `reference must be text of at most ${MAX_REFERENCE_LENGTH} characters`,
+      };
+    }
+
+    read.push({
+      method,
+      amountMinor,
+      ...(reference && reference.trim() && { reference: reference.trim() }),
+    });
+  }
+
+  const total = (method) =>
+    read
+      .filter((tender) => !method || tender.method === method)
+      .reduce((sum, tender) => sum + tender.amountMinor, 0);
+  const tenderedMinor = total();
+
+  if (tenderedMinor < dueMinor) {
+    return {
+      error: `The tenders cover ${formatMinor(tenderedMinor)} of ${formatMinor(dueMinor)} due`,
+    };
+  }
+  if (tenderedMinor - total("cash") > dueMinor) {
+    return { error: "Card and UPI cannot be more than the amount due" };
+  }
+
+  return {
+    tenders: read,
+    tenderedMinor,
+    changeMinor: tenderedMinor - dueMinor,
+  };
+};
+
+module.exports = { TENDER_METHODS, readTenders };
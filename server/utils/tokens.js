@@ -0,0 +1,143 @@
+const crypto = require("crypto");
+const jwt = require("jsonwebtoken");
+const storage = require("../storage");
+
+// Access tokens are short-lived JWTs. Refresh tokens are opaque
+// "<sessionId>.<secret>" strings; only a hash of the secret is stored, and
+// every refresh replaces it, so a refresh token can be used exactly once.
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || "15m";
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+const getJwtSecret = () => {
+  if (process.env.JWT_SECRET) {
+    return process.env.JWT_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("JWT_SECRET must be set in production");
+  }
+  console.warn(
+    "JWT_SECRET is not set, using a random secret (access tokens will not survive a restart)"
+  );
+  return crypto.randomBytes(32).toString("hex");
+};
+
+const JWT_SECRET = getJwtSecret();
+
+const hashSecret = (secret) =>
+  crypto.createHash("sha256").update(secret).digest("hex");
+
+const newSecret = () => crypto.randomBytes(32).toString("hex");
+
+const refreshExpiry = () =>
+  new Date(
+    Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+const issueAccessToken = (user, sessionId) =>
+  jwt.sign(
+    { id: user.id, username: user.username, role: user.role, sid: sessionId },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL }
+  );
+
+const verifyAccessToken = (token) => jwt.verify(token, JWT_SECRET);
+
+const parseRefreshToken = (refreshToken) => {
+  const [sessionId, secret] =
+    typeof refreshToken === "string" ? refreshToken.split(".") : [];
+  return sessionId && secret ? { sessionId, secret } : null;
+};
+
+// Start a new session for a user and return its first token pair
+const createSession = (user) => {
+  const sessionId = crypto.randomUUID();
+  const secret = newSecret();
+  const now = new Date().toISOString();
+
+  storage.sessions.create({
+    id: sessionId,
+    userId: user.id,
+    tokenHash: hashSecret(secret),
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: refreshExpiry(),
+  });
+
+  return {
+    token: issueAccessToken(user, sessionId),
+    refreshToken: `${sessionId}.${secret}`,
+  };
+};
+
+// Exchange a refresh token for a new token pair. Presenting a refresh token
+// that was already rotated means it leaked, so the whole session is revoked.
+// Returns { token, refreshToken, user } or { message } on failure.
+const rotateSession = (refreshToken) => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return { message: "Invalid refresh token" };
+  }
+
+  const secret = newSecret();
+  const now = new Date().toISOString();
+  let failure = null;
+
+  const session = storage.sessions.update(parsed.sessionId, (existing) => {
+    if (!existing || existing.revokedAt || existing.expiresAt < now) {
+      failure = "Session is no longer valid, please log in again";
+      return undefined;
+    }
+    if (existing.tokenHash !== hashSecret(parsed.secret)) {
+      failure = "Refresh token has already been used";
+      return { ...existing, revokedAt: now };
+    }
+    return {
+      ...existing,
+      tokenHash: hashSecret(secret),
+      lastUsedAt: now,
+      expiresAt: refreshExpiry(),
+    };
+  });
+
+  if (failure) {
+    return { message: failure };
+  }
+
+  const user = storage.users.getById(session.userId);
+  if (!user || user.disabled) {
+    revokeSession(session.id);
+    return { message: "Account is disabled or no longer exists" };
+  }
+
+  return {
+    token: issueAccessToken(user, session.id),
+    refreshToken: `${session.id}.${secret}`,
+    user,
+  };
+};
+
+const revokeSession = (sessionId) =>
+  storage.sessions.update(sessionId, (existing) =>
+    existing && !existing.revokedAt
+      ? { ...existing, revokedAt: new Date().toISOString() }
+      : undefined
+  );
+
+// Check that the session an access token belongs to is still open
+const isSessionActive = (sessionId) => {
+  const session = sessionId && storage.sessions.getById(sessionId);
+  return Boolean(
+    session &&
+      !session.revokedAt &&
+      session.expiresAt >= new Date().toISOString()
+  );
+};
+
+module.exports = {
+  createSession,
+  rotateSession,
+  revokeSession,
+  isSessionActive,
+  verifyAccessToken,
+  parseRefreshToken,
+};
@@ -0,0 +1,83 @@
+// Products are sold by the unit (the default) or by weight. For a product
+// sold by weight, price is per kilogram, stock and cart quantities are in
+// kilograms and each scan comes with the measured weight in grams.
+const SOLD_BY = ["unit", "weight"];
+
+// Heaviest single weighing accepted, in grams
+const MAX_WEIGHING_GRAMS = 100000;
+
+// Most units of a product one request can add or remove
+const MAX_UNITS_PER_SCAN = 1000;
+
+const isSoldByWeight = (product) =>
+  Boolean(product) && product.soldBy === "weight";
+
+// Quantities of weighed products are kept to the gram so repeated additions
+// do not drift
+const roundQuantity = (quantity) => Math.round(quantity * 1000) / 1000;
+
+// Check soldBy sent by staff, returning { fields } or { error }
+const readSaleFields = (body) => {
+  if (body.soldBy === undefined) return { fields: {} };
+
+  if (!SOLD_BY.includes(body.soldBy)) {
+    return { error: `soldBy must be one of ${SOLD_BY.join(", ")}` };
+  }
+
+  return { fields: { soldBy: body.soldBy } };
+};
+
+// Stock as entered by staff: whole units, or kilograms for weighed products
+const parseStock = (value, product) =>
+  isSoldByWeight(product)
+    ? roundQuantity(parseFloat(value))
+    : parseInt(value);
+
+// How much of a product a scan or request adds or removes. Unit products use
+// quantity, a whole number (default 1); weighed products need grams, a number,
+// except that removing one without grams takes off its whole line (quantity
+// undefined). Returns { quantity } or { error }.
+const scanQuantity = (
+  product,
+  { quantity = 1, grams, action = "add" } = {}
+) => {
+  if (!isSoldByWeight(product)) {
+    if (
+      !Number.isInteger(quantity) ||
+      quantity <= 0 ||
+      quantity > MAX_UNITS_PER_SCAN
+    ) {
+      return {
+        error: `quantity must be a whole number from 1 to ${MAX_UNITS_PER_SCAN}`,
+      };
+    }
+    return { quantity };
+  }
+
+  if (grams === undefined || grams === null) {
+    return action === "remove"
+      ? { quantity: undefined }
+      : { error: `${product.name} is sold by weight, so grams are required` };
+  }
+
+  if (
+    typeof grams !== "number" ||
+    !Number.isFinite(grams) ||
+    grams <= 0 ||
+    grams > MAX_WEIGHING_GRAMS
+  ) {
+    return {
+      error: `grams must be a number above 0 and up to ${MAX_WEIGHING_GRAMS}`,
+    };
+  }
+
+  return { quantity: roundQuantity(grams / 1000) };
+};
+
+module.exports = {
+  isSoldByWeight,
+  roundQuantity,
+  readSaleFields,
+  parseStock,
+  scanQuantity,
+};
@@ -0,0 +1,132 @@
+const storage = require("../storage");
+const { isSoldByWeight } = require("./units");
+
+// A cart's load cell reading may differ from the catalogue weights of its
+// items by the larger of WEIGHT_TOLERANCE_GRAMS and WEIGHT_TOLERANCE_PERCENT of
+// the expected weight before it is flagged. Product weights are in grams.
+// A tolerance of 0 is kept, so either limit can be switched off.
+const tolerance = (name, fallback) => {
+  const value = parseFloat(process.env[name]);
+  return Number.isFinite(value) ? value : fallback;
+};
+const TOLERANCE_GRAMS = tolerance("WEIGHT_TOLERANCE_GRAMS", 50);
+const TOLERANCE_PERCENT = tolerance("WEIGHT_TOLERANCE_PERCENT", 5);
+
+// Shown to a shopper whose flagged cart tries to check out or pay
+const WEIGHT_MISMATCH_MESSAGE =
+  "Cart weight does not match the scanned items. Please ask a staff member to check your cart.";
+
+// Expected load of a cart from the current catalogue. Lines of weighed
+// products are already in kilograms. Other products without a weight cannot
+// be checked and are listed in unweighed.
+const expectedWeight = (cart) => {
+  let grams = 0;
+  const unweighed = [];
+
+  (cart.items || []).forEach((item) => {
+    const product = storage.products.getById(item.id);
+    const weight = product ? Number(product.weight) : NaN;
+
+    if (isSoldByWeight(product)) {
+      grams += item.quantity * 1000;
+    } else if (weight > 0) {
+      grams += weight * item.quantity;
+    } else {
+      unweighed.push(item.id);
+    }
+  });
+
+  return { grams, unweighed };
+};
+
+// Compare a reading with what the scanned items should weigh. status is "ok",
+// "unscanned_item" (heavier than expected), "missing_item" (a scanned item is
+// not in the cart) or "unverified" (some items have no weight to compare).
+const checkWeight = (cart, measuredGrams) => {
+  const expected = expectedWeight(cart);
+  const toleranceGrams = Math.max(
+    TOLERANCE_GRAMS,
+    (expected.grams * TOLERANCE_PERCENT) / 100
+  );
+  const differenceGrams = measuredGrams - expected.grams;
+
+  let status = "ok";
+  if (expected.unweighed.length > 0) {
+    status = "unverified";
+  } else if (differenceGrams > toleranceGrams) {
+    status = "unscanned_item";
+  } else if (differenceGrams < -toleranceGrams) {
+    status = "missing_item";
+  }
+
+  return {
+    status,
+    measuredGrams,
+    expectedGrams: expected.grams,
+    differenceGrams,
+    toleranceGrams,
+    ...(expected.unweighed.length > 0 && {
+      unweighedProductIds: expected.unweighed,
+    }),
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+const isMismatch = (check) =>
+  check.status === "unscanned_item" || check.status === "missing_item";
+
+// Store a device's reading on the cart it is connected to. A mismatch flags
+// the cart until staff override it; later readings do not clear the flag.
+// Returns { check, cart, flagged } where flagged is true for a new flag.
+const recordWeight = (userId, measuredGrams) => {
+  let check = null;
+  let flagged = false;
+
+  const cart = storage.carts.update(userId, (current) => {
+    if (!current) return undefined;
+
+    check = checkWeight(current, measuredGrams);
+    flagged = isMismatch(check) && !current.weightMismatch;
+
+    return {
+      ...current,
+      weightCheck: check,
+      ...(flagged && { weightMismatch: check }),
+    };
+  });
+
+  return { check, cart, flagged };
+};
+
+// Clear a cart's weight flag after staff have checked it, keeping a record of
+// who did so. Returns the updated cart, or null if there was nothing to clear.
+const overrideWeightMismatch = (userId, staff, note) => {
+  let cleared = false;
+
+  const cart = storage.carts.update(userId, (current) => {
+    if (!current || !current.weightMismatch) return undefined;
+
+    cleared = true;
+    return {
+      ...current,
+      weightMismatch: undefined,
+      weightOverrides: [
+        ...(current.weightOverrides || []),
+        {
+          mismatch: current.weightMismatch,
+          by: { id: staff.id, username: staff.username },
+          at: new Date().toISOString(),
+          ...(note && { note }),
+        },
+      ],
+    };
+  });
+
+  return cleared ? cart : null;
+};
+
+module.exports = {
+  WEIGHT_MISMATCH_MESSAGE,
+  recordWeight,
+  overrideWeightMismatch,
+};